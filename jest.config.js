@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  transform: {
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { module: "commonjs" } }],
+  },
+  moduleNameMapper: {
+    // The obsidian package only ships type declarations
+    "^obsidian$": "<rootDir>/src/__mocks__/obsidian.ts",
+  },
+};
@@ -9,18 +9,20 @@ import {
   Setting,
   TextComponent,
   ButtonComponent,
-  ToggleComponent,
   DropdownComponent,
   setIcon,
   Menu,
   moment,
   ViewStateResult,
+  parseYaml,
+  normalizePath,
 } from "obsidian";
 import { Calendar } from "@taskgenius/calendar";
 import { MomentAdapter } from "@taskgenius/calendar/moment";
 import type { CalendarEvent } from "@taskgenius/calendar";
 
 import type CalendarPlugin from "./main";
+import type { CalendarSettings } from "./Settings";
 import {
   extractAllDates,
   getPrimaryDate,
@@ -31,13 +33,100 @@ import {
   type ParsedDateField,
   type DateFormatType,
 } from "./parsers/dateParser";
-import { ColorService } from "./services/ColorService";
-import { CalendarConfigModal } from "./components/CalendarConfigModal";
+import {
+  parseRecurrence,
+  stripRecurrence,
+  getNextOccurrence,
+  expandOccurrences,
+  type RecurrenceRule,
+} from "./parsers/recurrenceParser";
+import {
+  parseTimeBlock,
+  stripTimeBlock,
+  resolveTimeBlock,
+  replaceBlockTime,
+  formatDurationField,
+  type TimeBlock,
+} from "./parsers/timeBlockParser";
+import {
+  getReadableTextColor,
+  parseCssColor,
+  resolveCssVariables,
+} from "./parsers/colorParser";
+import {
+  ColorService,
+  type ColorSource,
+  type EventStyle,
+  type SectionColorData,
+  type TaskColorData,
+} from "./services/ColorService";
+import { SourceService } from "./services/SourceService";
+import { ConfigService } from "./services/ConfigService";
+import { IcsService, type IcsExportEvent } from "./services/IcsService";
+import { FilterService } from "./services/FilterService";
+import {
+  EditHistory,
+  type HistoryEntry,
+  type LineChange,
+} from "./services/EditHistory";
+import type { CalendarSource } from "./types/sourceTypes";
+import { FRONTMATTER_KEY, type CalendarFileConfig } from "./types/configTypes";
+import {
+  createEmptyFilter,
+  isFilterActive,
+  type SavedTaskFilter,
+  type TaskFilter,
+} from "./types/filterTypes";
+import {
+  type TaskStatus,
+  TaskStatusType,
+  findTaskStatus,
+  isDoneStatusType,
+} from "./types/statusTypes";
+import {
+  TaskIdGenerator,
+  relocateTaskLine,
+  splitBlockId,
+  hashString,
+} from "./parsers/taskIdentity";
+import {
+  parseQuickAdd,
+  PRIORITY_EMOJIS,
+  type QuickAddOptions,
+  type QuickAddPriority,
+  type QuickAddResult,
+} from "./parsers/quickAddParser";
+import {
+  CalendarConfigModal,
+  type SectionInfo,
+} from "./components/CalendarConfigModal";
+import { IcsImportModal } from "./components/IcsImportModal";
+import {
+  MonthOverview,
+  type OverviewDayData,
+} from "./components/MonthOverview";
+import { AgendaList } from "./components/AgendaList";
+import {
+  BacklogPanel,
+  BACKLOG_DRAG_TYPE,
+  type BacklogItem,
+} from "./components/BacklogPanel";
+import { FilterBar } from "./components/FilterBar";
+import { SelectionToolbar } from "./components/SelectionToolbar";
+import { ColorLegend, type ColorLegendEntry } from "./components/ColorLegend";
+import {
+  BulkRescheduleModal,
+  type BulkReschedule,
+} from "./components/BulkRescheduleModal";
+import {
+  SaveFilterModal,
+  SavedFilterSuggestModal,
+} from "./components/SavedFilterModals";
 
 export const VIEW_TYPE_CALENDAR = "calendar-md-view";
 
-/** Frontmatter key for calendar files */
-export const FRONTMATTER_KEY = "calendar-plugin";
+/** Action of the obsidian:// links that open a calendar view */
+export const URI_ACTION = "calendar-md";
 
 /** Basic frontmatter template for new calendar files */
 export const BASIC_FRONTMATTER = `---
@@ -47,13 +136,49 @@ calendar-plugin: basic
 `;
 
 /** View type options */
-type ViewType = "month" | "week" | "day";
+type ViewType = "month" | "week" | "day" | "year" | "multi-month" | "agenda";
+
+/** Views rendered by @taskgenius/calendar (others are rendered by the plugin) */
+type CalendarViewType = "month" | "week" | "day";
+
+/** Overview views rendered by MonthOverview instead of @taskgenius/calendar */
+type OverviewViewType = "year" | "multi-month";
+
+/** Date format of the current date in the saved view state */
+const STATE_DATE_FORMAT = "YYYY-MM-DD";
+
+/** Number of days listed in the agenda view */
+const AGENDA_DAYS = 28;
+
+/** View switcher options, in display order */
+const VIEW_OPTIONS: { value: ViewType; label: string }[] = [
+  { value: "year", label: "Year" },
+  { value: "multi-month", label: "Months" },
+  { value: "month", label: "Month" },
+  { value: "week", label: "Week" },
+  { value: "day", label: "Day" },
+  { value: "agenda", label: "Agenda" },
+];
+
+/**
+ * Checks if a view is rendered by @taskgenius/calendar
+ */
+function isCalendarView(view: ViewType): view is CalendarViewType {
+  return view === "month" || view === "week" || view === "day";
+}
+
+/**
+ * Checks if a view is an overview (year / multi-month) view
+ */
+function isOverviewView(view: ViewType): view is OverviewViewType {
+  return view === "year" || view === "multi-month";
+}
 
 /**
  * Represents a parsed task line from markdown
  */
-interface TaskLine {
-  /** Unique identifier (line index as string) */
+export interface TaskLine {
+  /** Stable identifier: block/task ID anchor or content hash (see taskIdentity) */
   id: string;
   /** Original line index in the file */
   lineIndex: number;
@@ -71,16 +196,39 @@ interface TaskLine {
   hasTime?: boolean;
   /** Whether the date is in Kanban format (disables resize) */
   isKanban?: boolean;
-  /** Whether the task is completed */
+  /** Whether the task is completed (done or cancelled status) */
   completed: boolean;
+  /** Checkbox character (see TaskStatus) */
+  status: string;
   /** Section this task belongs to */
   sectionId: string;
+  /** Recurrence rule (🔁 every ...), if the task repeats */
+  recurrence?: RecurrenceRule;
+  /** Time range, leading time and duration (see timeBlockParser) */
+  timeBlock?: TimeBlock;
+  /** Source note path, for tasks aggregated from another file */
+  filePath?: string;
 }
 
+/**
+ * Represents a task line without a recognized date (shown in the backlog)
+ */
+type UnscheduledTaskLine = Pick<
+  TaskLine,
+  | "id"
+  | "lineIndex"
+  | "markdown"
+  | "title"
+  | "completed"
+  | "status"
+  | "sectionId"
+  | "filePath"
+>;
+
 /**
  * Represents a section of the document (grouped by Heading)
  */
-interface CalendarSection {
+export interface CalendarSection {
   /** Section ID (heading text or 'Default') */
   id: string;
   /** Display name for the section */
@@ -95,13 +243,32 @@ interface CalendarSection {
   endLine: number;
   /** Tasks within this section */
   tasks: TaskLine[];
+  /** Tasks without a date within this section */
+  unscheduledTasks: UnscheduledTaskLine[];
+  /** Source note path, for sections aggregated from another file */
+  filePath?: string;
+}
+
+/**
+ * A file's lines with the selected tasks located in them (for bulk edits)
+ */
+interface SelectedFileLines {
+  item: { filePath?: string };
+  lines: string[];
+  tasks: { task: TaskLine; index: number }[];
 }
 
 /** Default section ID for tasks without heading */
 const DEFAULT_SECTION_ID = "Default";
 
 /** Special section ID for showing all sections combined */
-const ALL_SECTIONS_ID = "__ALL__";
+export const ALL_SECTIONS_ID = "__ALL__";
+
+/** Separator between task ID and date in virtual recurrence occurrence IDs */
+const OCCURRENCE_ID_SEPARATOR = "@";
+
+/** Separator between source note path and task ID in aggregated task IDs */
+const SOURCE_ID_SEPARATOR = "::";
 
 /**
  * Checks if content has the calendar frontmatter key
@@ -112,6 +279,69 @@ export function hasCalendarFrontmatter(content: string): boolean {
   return frontmatterMatch[1].includes(FRONTMATTER_KEY);
 }
 
+/**
+ * Reads the value of the calendar frontmatter key (e.g. "basic" or an
+ * object with `sources`). Returns null if missing or not valid YAML.
+ */
+function getCalendarFrontmatter(content: string): unknown {
+  const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
+  if (!frontmatterMatch) return null;
+  try {
+    const frontmatter = parseYaml(frontmatterMatch[1]);
+    return frontmatter?.[FRONTMATTER_KEY] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats a count with a noun, adding "s" unless the count is 1.
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Appends metadata to a task line, keeping a trailing block ID (^id) last.
+ */
+function appendToTaskLine(line: string, text: string): string {
+  const { content, blockId } = splitBlockId(line);
+  const result = `${content.trimEnd()} ${text}`;
+  return blockId ? `${result} ^${blockId}` : result;
+}
+
+/** Patterns of the dates written when a task is completed or cancelled */
+const STATUS_DATE_PATTERNS: Record<
+  DateFieldType.Done | DateFieldType.Cancelled,
+  RegExp[]
+> = {
+  [DateFieldType.Done]: [
+    // ✅ YYYY-MM-DD (with optional time)
+    /\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}(?:\s+\d{1,2}:\d{2})?/g,
+    // [done:: ...] or (done:: ...) or [completed:: ...] etc.
+    /\s*[\[(](?:done|completed|completion|done date|completion date)::\s*\d{4}-\d{2}-\d{2}(?:T\d{1,2}:\d{2})?[\])]/gi,
+  ],
+  [DateFieldType.Cancelled]: [
+    // ❌ YYYY-MM-DD (with optional time)
+    /\s*❌\uFE0F?\s*\d{4}-\d{2}-\d{2}(?:\s+\d{1,2}:\d{2})?/g,
+    // [cancelled:: ...] or (canceled:: ...) etc.
+    /\s*[[(](?:cancelled|canceled|cancelled date|canceled date)::\s*\d{4}-\d{2}-\d{2}(?:T\d{1,2}:\d{2})?[\])]/gi,
+  ],
+};
+
+/**
+ * Removes completion or cancellation dates from a task line.
+ */
+function removeStatusDate(
+  line: string,
+  type: DateFieldType.Done | DateFieldType.Cancelled,
+): string {
+  return STATUS_DATE_PATTERNS[type].reduce(
+    (result, pattern) => result.replace(pattern, ""),
+    line,
+  );
+}
+
 /**
  * Popover component for editing task details.
  * Displays at click position and allows editing title, date, and completion status.
@@ -120,14 +350,15 @@ class TaskPopover {
   private containerEl: HTMLElement;
   private titleInput: TextComponent | null = null;
   private dateInput: TextComponent | null = null;
-  private completedToggle: ToggleComponent | null = null;
+  private statusDropdown: DropdownComponent | null = null;
 
   constructor(
     private task: TaskLine,
     private position: { x: number; y: number },
+    private statuses: TaskStatus[],
     private onSave: (
       id: string,
-      updates: Partial<Pick<TaskLine, "title" | "date" | "completed">>,
+      updates: Partial<Pick<TaskLine, "title" | "date" | "status">>,
     ) => void,
     private onDelete: (id: string) => void,
     private onJumpToLine: (lineIndex: number) => void,
@@ -202,17 +433,24 @@ class TaskPopover {
     this.dateInput.inputEl.type = "date";
     this.dateInput.inputEl.addClass("calendar-popover-input");
 
-    // Completed toggle
-    const completedRow = this.containerEl.createDiv({
+    // Status dropdown
+    const statusRow = this.containerEl.createDiv({
       cls: "calendar-popover-row",
     });
-    completedRow.createSpan({
-      text: "Completed",
-      cls: "calendar-popover-label",
-    });
-    this.completedToggle = new ToggleComponent(completedRow).setValue(
-      this.task.completed,
-    );
+    statusRow.createSpan({ text: "Status", cls: "calendar-popover-label" });
+    this.statusDropdown = new DropdownComponent(statusRow);
+    const statuses = [
+      ...this.statuses,
+      findTaskStatus(this.statuses, this.task.status),
+    ].filter((s, i, all) => all.findIndex((o) => o.symbol === s.symbol) === i);
+    for (const status of statuses) {
+      this.statusDropdown.addOption(
+        status.symbol,
+        `${status.name} [${status.symbol}]`,
+      );
+    }
+    this.statusDropdown.setValue(this.task.status);
+    this.statusDropdown.selectEl.addClass("calendar-popover-input");
 
     // Buttons row
     const buttonRow = this.containerEl.createDiv({
@@ -245,7 +483,7 @@ class TaskPopover {
    * Saves the edited task data.
    */
   private save(): void {
-    if (!this.titleInput || !this.dateInput || !this.completedToggle) return;
+    if (!this.titleInput || !this.dateInput || !this.statusDropdown) return;
 
     const newTitle = this.titleInput.getValue().trim();
     const newDateStr = this.dateInput.getValue();
@@ -264,7 +502,7 @@ class TaskPopover {
     this.onSave(this.task.id, {
       title: newTitle,
       date: newDate,
-      completed: this.completedToggle.getValue(),
+      status: this.statusDropdown.getValue(),
     });
 
     this.close();
@@ -312,22 +550,80 @@ export class CalendarView extends TextFileView {
   /** Global map of all tasks by ID for quick lookup */
   private currentEvents: Map<string, TaskLine> = new Map();
   /** Map of sections parsed from the document */
-  private sections: Map<string, CalendarSection> = new Map();
+  protected sections: Map<string, CalendarSection> = new Map();
   /** Currently active/displayed section */
-  private activeSectionId: string = ALL_SECTIONS_ID;
+  protected activeSectionId: string = ALL_SECTIONS_ID;
 
-  private toolbarEl: HTMLElement | null = null;
+  protected toolbarEl: HTMLElement | null = null;
   private dateDisplayEl: HTMLElement | null = null;
   private sectionMenuBtnEl: HTMLElement | null = null;
   private activePopover: TaskPopover | null = null;
   private eventElementMap: Map<string, HTMLElement> = new Map();
   private calendarMainContainer: HTMLElement | null = null;
+  /** Container for the year / multi-month overview */
+  private overviewContainer: HTMLElement | null = null;
+  private monthOverview: MonthOverview | null = null;
+  /** Container for the agenda list */
+  private agendaContainer: HTMLElement | null = null;
+  private agendaList: AgendaList | null = null;
+  /** Container for the unscheduled task backlog */
+  private backlogContainer: HTMLElement | null = null;
+  private backlogPanel: BacklogPanel | null = null;
+  private backlogCollapsed = false;
+  /** Backlog section filter (null follows the active section) */
+  private backlogSectionFilter: string | null = null;
+  /** Task sources listed in the frontmatter */
+  private sources: CalendarSource[] = [];
+  /** Content of source notes, keyed by path */
+  protected sourceContents: Map<string, string> = new Map();
   private emptyStateContainer: HTMLElement | null = null;
   private currentView: ViewType = "month";
   private currentDate: Date = new Date();
   private lastPointerPosition: { x: number; y: number } | null = null;
   private dragThresholdPatched: boolean = false;
 
+  /** Temporarily reveal completed tasks in this view (when hidden by settings) */
+  private revealCompleted: boolean = false;
+  private revealCompletedBtnEl: HTMLButtonElement | null = null;
+
+  /** Section restored from the view state, selected once it is loaded */
+  protected pendingSectionId: string | null = null;
+
+  /** IDs of the multi-selected tasks (shift/ctrl-click) */
+  private selectedIds: Set<string> = new Set();
+  private selectionBarContainer: HTMLElement | null = null;
+  private selectionToolbar: SelectionToolbar | null = null;
+  /** Whether shift, ctrl or cmd was held at the last pointer press */
+  private lastPointerMultiSelect = false;
+
+  /** Undo and redo stacks of the edits made from this view */
+  private history = new EditHistory();
+
+  /** Readable text color per event color (cleared when the theme changes) */
+  private textColorCache = new Map<string, string | null>();
+
+  /** Filter bar criteria (kept in the view state) */
+  private taskFilter: TaskFilter = createEmptyFilter();
+  private filterBarContainer: HTMLElement | null = null;
+  private filterBar: FilterBar | null = null;
+  private filterBarVisible = false;
+  private filterBtnEl: HTMLButtonElement | null = null;
+
+  /** Color legend, and the entry whose events are shown (if any) */
+  private legendContainer: HTMLElement | null = null;
+  private colorLegend: ColorLegend | null = null;
+  private legendVisible = false;
+  private legendBtnEl: HTMLButtonElement | null = null;
+  private legendFilter: ColorLegendEntry | null = null;
+
+  /** Overrides from the calendar's frontmatter */
+  private fileConfig: CalendarFileConfig = {};
+  /** Plugin settings with the calendar's overrides applied */
+  protected settings: CalendarSettings;
+
+  /** Week start the calendar instance was created with (to detect changes) */
+  private calendarWeekStart: number | null = null;
+
   /** Responsive view switcher container (visibility controlled by CSS container queries) */
   private viewSwitcherContainer: HTMLElement | null = null;
 
@@ -355,6 +651,7 @@ export class CalendarView extends TextFileView {
   constructor(leaf: WorkspaceLeaf, plugin: CalendarPlugin) {
     super(leaf);
     this.plugin = plugin;
+    this.settings = plugin.settings;
     this.currentView = plugin.settings.defaultView as ViewType;
   }
 
@@ -362,6 +659,14 @@ export class CalendarView extends TextFileView {
     return VIEW_TYPE_CALENDAR;
   }
 
+  /**
+   * Whether the view has tasks to show and edit: a loaded calendar file
+   * (or the vault index in the vault calendar).
+   */
+  protected isLoaded(): boolean {
+    return !!this.file;
+  }
+
   getDisplayText(): string {
     return this.file?.basename || "Calendar";
   }
@@ -370,6 +675,108 @@ export class CalendarView extends TextFileView {
     return "calendar";
   }
 
+  /**
+   * Adds the current view, date and section to the leaf's view state,
+   * so they survive workspace reloads and back/forward navigation.
+   */
+  getState(): Record<string, unknown> {
+    return {
+      ...super.getState(),
+      view: this.currentView,
+      date: moment(this.currentDate).format(STATE_DATE_FORMAT),
+      section: this.activeSectionId,
+      filter: isFilterActive(this.taskFilter)
+        ? FilterService.serializeFilter(this.taskFilter)
+        : undefined,
+    };
+  }
+
+  /**
+   * Loads the file, then restores the view, date and section saved by
+   * getState. Missing or invalid values keep the current ones.
+   */
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    await super.setState(state, result);
+    if (!state || typeof state !== "object") return;
+
+    const { view, date, section, filter } = state as Record<string, unknown>;
+
+    this.taskFilter =
+      filter && typeof filter === "object"
+        ? FilterService.parseFilter(filter as Record<string, unknown>)
+        : createEmptyFilter();
+    if (isFilterActive(this.taskFilter)) this.filterBarVisible = true;
+    this.updateFilterBarVisibility();
+
+    if (typeof date === "string") {
+      const parsed = moment(date, STATE_DATE_FORMAT, true);
+      if (parsed.isValid()) {
+        this.currentDate = parsed.toDate();
+        this.calendar?.goToDate(this.currentDate);
+      }
+    }
+
+    if (VIEW_OPTIONS.some((option) => option.value === view)) {
+      this.setCurrentView(view as ViewType);
+    } else {
+      this.updateDateDisplay();
+      this.updateCalendarEvents();
+    }
+
+    if (typeof section === "string" && section !== this.activeSectionId) {
+      // Links may name a section by its heading instead of its ID
+      const sectionId = this.sections.has(section)
+        ? section
+        : Array.from(this.sections.values()).find((s) => s.name === section)
+            ?.id;
+      if (section === ALL_SECTIONS_ID || sectionId) {
+        this.setActiveSection(sectionId ?? section);
+      } else if (this.sources.length > 0) {
+        // Source note sections appear once the sources are loaded
+        this.pendingSectionId = section;
+      }
+    }
+  }
+
+  /**
+   * Builds an obsidian:// link that opens this calendar at the current
+   * view, date and section.
+   *
+   * @returns The link, or null if no file is loaded
+   */
+  getViewLink(): string | null {
+    if (!this.file) return null;
+
+    const params: Record<string, string> = {
+      vault: this.app.vault.getName(),
+      file: this.file.path,
+      view: this.currentView,
+      date: moment(this.currentDate).format(STATE_DATE_FORMAT),
+      section: this.activeSectionId,
+    };
+    const query = Object.entries(params)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join("&");
+
+    return `obsidian://${URI_ACTION}?${query}`;
+  }
+
+  /**
+   * Copies a link to the current view to the clipboard.
+   */
+  private async copyViewLink(): Promise<void> {
+    const link = this.getViewLink();
+    if (!link) return;
+
+    try {
+      await navigator.clipboard.writeText(link);
+      new Notice("Link copied to clipboard");
+    } catch (error) {
+      console.error("CalendarView: Failed to copy link", error);
+      new Notice("Failed to copy link");
+    }
+  }
+
   /**
    * Returns the current file data for saving.
    * TextFileView requires this method.
@@ -400,16 +807,30 @@ export class CalendarView extends TextFileView {
       this.currentEvents.clear();
       this.eventElementMap.clear();
       this.sections.clear();
+      this.sources = [];
+      this.sourceContents.clear();
+      this.pendingSectionId = null;
+      this.history.clear();
+      this.legendFilter = null;
       Object.values(this.actionButtons).forEach((b) => b.remove());
       this.actionButtons = {};
     }
 
+    this.applyFileConfig(data);
+    this.syncCalendarWeekStart();
+    if (clear && this.currentView !== this.settings.defaultView) {
+      this.setCurrentView(this.settings.defaultView as ViewType);
+    }
+
     // Parse and render
     this.parseMarkdown(data);
     this.updateViewState();
     this.updateSectionMenuButton();
     this.updateCalendarEvents();
     this.initHeaderButtons();
+
+    // Load tasks from source notes listed in the frontmatter
+    this.reloadSources();
   }
 
   /**
@@ -426,6 +847,9 @@ export class CalendarView extends TextFileView {
    */
   private recordPointerPosition = (event: MouseEvent | PointerEvent): void => {
     this.lastPointerPosition = { x: event.clientX, y: event.clientY };
+    // The calendar's click callback has no event to read modifiers from
+    this.lastPointerMultiSelect =
+      event.shiftKey || event.ctrlKey || event.metaKey;
   };
 
   async onOpen(): Promise<void> {
@@ -438,6 +862,7 @@ export class CalendarView extends TextFileView {
 
     // Listen for theme changes to update event colors
     this.themeChangeRef = this.app.workspace.on("css-change", () => {
+      this.textColorCache.clear();
       this.updateCalendarEvents();
     });
     this.registerEvent(this.themeChangeRef);
@@ -446,12 +871,67 @@ export class CalendarView extends TextFileView {
     container.empty();
     container.addClass("calendar-view-workspace");
 
+    // Focusable, so shortcuts (undo, redo, Escape) reach the view once clicked
+    container.tabIndex = -1;
+    this.registerDomEvent(container, "keydown", (e) =>
+      this.handleViewKeydown(e),
+    );
+
     // Build toolbar (hidden initially until we know the state)
     this.buildToolbar(container);
     if (this.toolbarEl) this.toolbarEl.style.display = "none";
 
+    // Filter bar (hidden until toggled from the toolbar)
+    this.filterBarContainer = container.createDiv({
+      cls: "calendar-filter-bar",
+    });
+    this.filterBarContainer.style.display = "none";
+    this.filterBar = new FilterBar(this.filterBarContainer, {
+      onChange: (filter) => this.setTaskFilter(filter),
+      onSave: () => this.saveCurrentFilter(),
+      onApplySaved: (name) => {
+        const saved = this.fileConfig.filters?.find((f) => f.name === name);
+        if (saved) this.setTaskFilter(saved.filter);
+      },
+      onDeleteSaved: (name) => this.deleteSavedFilter(name),
+    });
+
+    // Color legend (hidden until toggled from the toolbar)
+    this.legendContainer = container.createDiv({ cls: "calendar-legend" });
+    this.legendContainer.style.display = "none";
+    this.colorLegend = new ColorLegend(this.legendContainer, {
+      onSelect: (entry) => this.setLegendFilter(entry),
+    });
+
+    // Bulk actions for multi-selected events (hidden until a selection)
+    this.selectionBarContainer = container.createDiv({
+      cls: "calendar-selection-bar",
+    });
+    this.selectionBarContainer.style.display = "none";
+    this.selectionToolbar = new SelectionToolbar(this.selectionBarContainer, {
+      onShift: (days) =>
+        this.rescheduleSelection({
+          type: "offset",
+          amount: days,
+          unit: "days",
+        }),
+      onReschedule: () =>
+        new BulkRescheduleModal(this.app, this.selectedIds.size, (reschedule) =>
+          this.rescheduleSelection(reschedule),
+        ).open(),
+      onComplete: () => this.completeSelection(),
+      onDelete: () => this.deleteSelection(),
+      onMoveToSection: (evt) => this.showMoveSelectionMenu(evt),
+      onChangeDateType: (evt) => this.showSelectionDateTypeMenu(evt),
+      onClear: () => this.clearSelection(),
+    });
+
+    // Body row: view containers plus the backlog sidebar
+    const bodyEl = container.createDiv({ cls: "calendar-body" });
+    this.registerBacklogDropTarget(bodyEl);
+
     // Create calendar container (hidden initially)
-    this.calendarMainContainer = container.createDiv({
+    this.calendarMainContainer = bodyEl.createDiv({
       cls: "calendar-main-container",
     });
     this.calendarMainContainer.style.display = "none";
@@ -459,6 +939,53 @@ export class CalendarView extends TextFileView {
     // Initialize calendar
     this.initializeCalendar(this.calendarMainContainer);
 
+    // Create overview container for year / multi-month views (hidden initially)
+    this.overviewContainer = bodyEl.createDiv({
+      cls: "calendar-overview-container",
+    });
+    this.overviewContainer.style.display = "none";
+    this.monthOverview = new MonthOverview(
+      this.overviewContainer,
+      (date) => this.drillIntoDate(date, "day"),
+      (date) => this.drillIntoDate(date, "month"),
+    );
+
+    // Create agenda container (hidden initially)
+    this.agendaContainer = bodyEl.createDiv({
+      cls: "calendar-agenda-container",
+    });
+    this.agendaContainer.style.display = "none";
+    this.agendaList = new AgendaList(this.agendaContainer, {
+      onEventClick: (event, jsEvent) => this.handleEventClick(event, jsEvent),
+      onCheckboxClick: (event) => {
+        const task = this.getTaskForEvent(event);
+        if (task) this.handleCheckboxClick(task);
+      },
+      canToggle: (event) =>
+        !this.isOccurrenceEvent(event) && this.currentEvents.has(event.id),
+      isSelected: (event) => this.selectedIds.has(event.id),
+    });
+
+    // Create backlog sidebar (hidden until there are unscheduled tasks)
+    this.backlogContainer = bodyEl.createDiv({
+      cls: "calendar-backlog-container",
+    });
+    this.backlogContainer.style.display = "none";
+    this.backlogPanel = new BacklogPanel(this.backlogContainer, {
+      onItemClick: (id) => {
+        const task = this.getUnscheduledTasks(true).find((t) => t.id === id);
+        if (task) this.jumpToLine(task.lineIndex, task.filePath);
+      },
+      onSectionFilterChange: (value) => {
+        this.backlogSectionFilter = value === "" ? null : value;
+        this.renderBacklog();
+      },
+      onToggleCollapsed: () => {
+        this.backlogCollapsed = !this.backlogCollapsed;
+        this.renderBacklog();
+      },
+    });
+
     // Build empty state UI (hidden initially)
     this.buildEmptyState(container);
   }
@@ -467,11 +994,35 @@ export class CalendarView extends TextFileView {
    * Adds "Open as markdown" option to the pane menu (right-click on tab or "more options" button).
    */
   onPaneMenu(menu: Menu, source: string): void {
-    if (source !== "more-options") {
+    if (source !== "more-options" || !this.file) {
       super.onPaneMenu(menu, source);
       return;
     }
 
+    menu.addItem((item) => {
+      item
+        .setTitle("Copy link to this view")
+        .setIcon("link")
+        .setSection("action")
+        .onClick(() => this.copyViewLink());
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle("Export to iCalendar (.ics)")
+        .setIcon("download")
+        .setSection("action")
+        .onClick(() => this.exportToIcs());
+    });
+
+    menu.addItem((item) => {
+      item
+        .setTitle("Import from iCalendar (.ics)")
+        .setIcon("upload")
+        .setSection("action")
+        .onClick(() => this.openIcsImport());
+    });
+
     menu.addItem((item) => {
       item
         .setTitle("Open as markdown")
@@ -492,17 +1043,27 @@ export class CalendarView extends TextFileView {
    * Toggles between Empty State and Calendar View based on content.
    * Shows empty state when no headings exist and no tasks are present.
    */
-  private updateViewState(): void {
+  protected updateViewState(): void {
     const hasOnlyDefaultSection =
       this.sections.size === 1 && this.sections.has(DEFAULT_SECTION_ID);
-    const hasNoTasks = this.currentEvents.size === 0;
-    const showEmptyState = hasOnlyDefaultSection && hasNoTasks;
+    const hasNoTasks =
+      this.currentEvents.size === 0 &&
+      this.getUnscheduledTasks(true).length === 0;
+    const showEmptyState = !!this.file && hasOnlyDefaultSection && hasNoTasks;
 
     if (showEmptyState) {
       // Hide calendar, show empty state
       if (this.toolbarEl) this.toolbarEl.style.display = "none";
+      if (this.filterBarContainer)
+        this.filterBarContainer.style.display = "none";
+      if (this.legendContainer) this.legendContainer.style.display = "none";
+      if (this.selectionBarContainer)
+        this.selectionBarContainer.style.display = "none";
       if (this.calendarMainContainer)
         this.calendarMainContainer.style.display = "none";
+      if (this.overviewContainer) this.overviewContainer.style.display = "none";
+      if (this.agendaContainer) this.agendaContainer.style.display = "none";
+      if (this.backlogContainer) this.backlogContainer.style.display = "none";
       if (this.emptyStateContainer) {
         this.emptyStateContainer.style.display = "flex";
         // Auto-focus input for better UX
@@ -512,10 +1073,25 @@ export class CalendarView extends TextFileView {
     } else {
       // Show calendar, hide empty state
       if (this.toolbarEl) this.toolbarEl.style.display = "flex";
+      this.updateFilterBarVisibility();
+      this.updateLegendVisibility();
+      this.renderSelectionToolbar();
+      const showCalendar = isCalendarView(this.currentView);
+      if (this.overviewContainer) {
+        this.overviewContainer.style.display = isOverviewView(this.currentView)
+          ? "flex"
+          : "none";
+      }
+      if (this.agendaContainer) {
+        this.agendaContainer.style.display =
+          this.currentView === "agenda" ? "flex" : "none";
+      }
       if (this.calendarMainContainer) {
-        this.calendarMainContainer.style.display = "flex";
+        this.calendarMainContainer.style.display = showCalendar
+          ? "flex"
+          : "none";
         // Re-render calendar to ensure correct layout after visibility change
-        if (this.calendar) this.calendar.render();
+        if (this.calendar && showCalendar) this.calendar.render();
       }
       if (this.emptyStateContainer)
         this.emptyStateContainer.style.display = "none";
@@ -604,9 +1180,7 @@ export class CalendarView extends TextFileView {
       // Auto-select the new section after file watcher refresh
       setTimeout(() => {
         if (this.sections.has(name)) {
-          this.activeSectionId = name;
-          this.updateSectionMenuButton();
-          this.updateCalendarEvents();
+          this.setActiveSection(name);
         }
       }, 600);
     } catch (error) {
@@ -665,19 +1239,17 @@ export class CalendarView extends TextFileView {
     const navGroup = this.toolbarEl.createDiv({ cls: "calendar-nav-group" });
 
     this.createButton(navGroup, "", "chevron-left", () => {
-      this.calendar?.prev();
+      if (isCalendarView(this.currentView)) this.calendar?.prev();
       this.navigateDate(-1);
       this.updateDateDisplay();
+      this.updateCalendarEvents();
+      this.app.workspace.requestSaveLayout();
     });
 
-    this.createButton(navGroup, "Today", "", () => {
-      this.calendar?.today();
-      this.currentDate = new Date();
-      this.updateDateDisplay();
-    });
+    this.createButton(navGroup, "Today", "", () => this.goToToday());
 
-    // Color settings button
-    this.createButton(navGroup, "", "palette", () => {
+    // Color settings button (calendar files only)
+    const paletteBtn = this.createButton(navGroup, "", "palette", () => {
       if (this.file) {
         // Collect section info for the modal
         const sectionInfos = Array.from(this.sections.values()).map((s) => ({
@@ -688,18 +1260,47 @@ export class CalendarView extends TextFileView {
           this.app,
           this.plugin,
           this.file,
-          () => this.updateCalendarEvents(),
+          this.fileConfig,
+          () => this.refresh(),
           sectionInfos,
         ).open();
       }
     });
+    if (this.allowNoFile) paletteBtn.style.display = "none";
 
     this.createButton(navGroup, "", "chevron-right", () => {
-      this.calendar?.next();
+      if (isCalendarView(this.currentView)) this.calendar?.next();
       this.navigateDate(1);
       this.updateDateDisplay();
+      this.updateCalendarEvents();
+      this.app.workspace.requestSaveLayout();
     });
 
+    // Reveal completed toggle (only shown when completed tasks are hidden)
+    this.revealCompletedBtnEl = this.createButton(
+      navGroup,
+      "",
+      "eye-off",
+      () => {
+        this.revealCompleted = !this.revealCompleted;
+        this.updateRevealCompletedButton();
+        this.updateCalendarEvents();
+      },
+    );
+    this.updateRevealCompletedButton();
+
+    // Filter bar toggle
+    this.filterBtnEl = this.createButton(navGroup, "", "filter", () =>
+      this.toggleFilterBar(),
+    );
+    this.updateFilterButton();
+
+    // Color legend toggle
+    this.legendBtnEl = this.createButton(navGroup, "", "paint-bucket", () =>
+      this.toggleLegend(),
+    );
+    this.updateLegendButton();
+
     // Date display
     this.dateDisplayEl = this.toolbarEl.createDiv({
       cls: "calendar-date-display",
@@ -720,15 +1321,9 @@ export class CalendarView extends TextFileView {
       cls: "calendar-view-switcher",
     });
 
-    const views: { value: ViewType; label: string }[] = [
-      { value: "month", label: "Month" },
-      { value: "week", label: "Week" },
-      { value: "day", label: "Day" },
-    ];
-
     // Render both variants (CSS handles visibility switching)
-    this.renderTabsSwitcher(views);
-    this.renderDropdownSwitcher(views);
+    this.renderTabsSwitcher(VIEW_OPTIONS);
+    this.renderDropdownSwitcher(VIEW_OPTIONS);
 
     // Sync initial state
     this.syncViewSwitcherState();
@@ -783,12 +1378,38 @@ export class CalendarView extends TextFileView {
 
   /**
    * Updates the current view and synchronizes UI state.
+   * Overview views (year / multi-month) swap the calendar for the overview grid.
    */
-  private setCurrentView(view: ViewType): void {
+  setCurrentView(view: ViewType): void {
     this.currentView = view;
-    this.calendar?.setView(view);
+    if (isCalendarView(view)) {
+      this.calendar?.setView(view);
+      this.calendar?.goToDate(this.currentDate);
+    }
+    this.updateViewState();
     this.updateDateDisplay();
     this.syncViewSwitcherState();
+    this.updateCalendarEvents();
+    this.app.workspace.requestSaveLayout();
+  }
+
+  /**
+   * Navigates to today in the current view.
+   */
+  goToToday(): void {
+    if (isCalendarView(this.currentView)) this.calendar?.today();
+    this.currentDate = new Date();
+    this.updateDateDisplay();
+    this.updateCalendarEvents();
+    this.app.workspace.requestSaveLayout();
+  }
+
+  /**
+   * Drills into a date from the overview, switching to the given view.
+   */
+  private drillIntoDate(date: Date, view: ViewType): void {
+    this.currentDate = date;
+    this.setCurrentView(view);
   }
 
   /**
@@ -801,11 +1422,9 @@ export class CalendarView extends TextFileView {
     // Update tabs active state
     const tabs =
       this.viewSwitcherContainer.querySelectorAll(".calendar-view-tab");
-    const viewOrder: ViewType[] = ["month", "week", "day"];
-
     tabs.forEach((tab, index) => {
       tab.removeClass("is-active");
-      if (viewOrder[index] === this.currentView) {
+      if (VIEW_OPTIONS[index]?.value === this.currentView) {
         tab.addClass("is-active");
       }
     });
@@ -834,13 +1453,72 @@ export class CalendarView extends TextFileView {
       case "day":
         this.currentDate = current.add(direction, "day").toDate();
         break;
+      case "agenda":
+        this.currentDate = current.add(direction * 7, "day").toDate();
+        break;
+      case "year":
+        this.currentDate = current.add(direction, "year").toDate();
+        break;
+      case "multi-month":
+        this.currentDate = current
+          .add(direction * this.settings.multiMonthCount, "month")
+          .toDate();
+        break;
+    }
+  }
+
+  /**
+   * Gets the date range currently visible in the calendar (day precision).
+   * Padded by a week on each side so the range covers adjacent-month days
+   * and any week start configuration.
+   */
+  private getVisibleRange(): { start: moment.Moment; end: moment.Moment } {
+    const current = moment(this.currentDate);
+    switch (this.currentView) {
+      case "day":
+        return {
+          start: current.clone().startOf("day"),
+          end: current.clone().endOf("day"),
+        };
+      case "week":
+        return {
+          start: current.clone().startOf("week").subtract(1, "week"),
+          end: current.clone().endOf("week").add(1, "week"),
+        };
+      case "agenda":
+        return {
+          start: current.clone().startOf("day"),
+          end: current
+            .clone()
+            .add(AGENDA_DAYS - 1, "day")
+            .endOf("day"),
+        };
+      case "year":
+        return {
+          start: current.clone().startOf("year"),
+          end: current.clone().endOf("year"),
+        };
+      case "multi-month":
+        return {
+          start: current.clone().startOf("month"),
+          end: current
+            .clone()
+            .add(this.settings.multiMonthCount - 1, "month")
+            .endOf("month"),
+        };
+      case "month":
+      default:
+        return {
+          start: current.clone().startOf("month").subtract(1, "week"),
+          end: current.clone().endOf("month").add(1, "week"),
+        };
     }
   }
 
   /**
    * Creates a toolbar button with optional icon.
    */
-  private createButton(
+  protected createButton(
     parent: HTMLElement,
     text: string,
     icon: string,
@@ -870,83 +1548,390 @@ export class CalendarView extends TextFileView {
   private updateDateDisplay(): void {
     if (!this.dateDisplayEl) return;
 
+    if (this.currentView === "multi-month") {
+      const { start, end } = this.getVisibleRange();
+      this.dateDisplayEl.textContent = `${start.format("MMM YYYY")} – ${end.format("MMM YYYY")}`;
+      return;
+    }
+
+    if (this.currentView === "agenda") {
+      const { start, end } = this.getVisibleRange();
+      this.dateDisplayEl.textContent = `${start.format("MMM D")} – ${end.format("MMM D, YYYY")}`;
+      return;
+    }
+
     let format = "MMMM YYYY";
     if (this.currentView === "week") {
       format = "MMM D, YYYY";
     } else if (this.currentView === "day") {
       format = "dddd, MMM D, YYYY";
+    } else if (this.currentView === "year") {
+      format = "YYYY";
     }
 
     this.dateDisplayEl.textContent = moment(this.currentDate).format(format);
   }
 
   /**
-   * Updates the section menu button text to show current section name.
+   * Updates the reveal-completed toggle icon and visibility.
+   * The toggle is only relevant when completed tasks are hidden in settings.
    */
-  private updateSectionMenuButton(): void {
-    // Check if Default section has tasks
-    const defaultSection = this.sections.get(DEFAULT_SECTION_ID);
-    const defaultHasTasks = defaultSection && defaultSection.tasks.length > 0;
-
-    // Validate active section still exists (but allow ALL_SECTIONS_ID)
-    if (
-      this.activeSectionId !== ALL_SECTIONS_ID &&
-      !this.sections.has(this.activeSectionId)
-    ) {
-      this.activeSectionId = DEFAULT_SECTION_ID;
+  private updateRevealCompletedButton(): void {
+    if (!this.revealCompletedBtnEl) return;
+
+    const hidden = !this.settings.showCompleted;
+    this.revealCompletedBtnEl.style.display = hidden ? "" : "none";
+    this.revealCompletedBtnEl.toggleClass("is-active", this.revealCompleted);
+
+    const label = this.revealCompleted
+      ? "Hide completed tasks"
+      : "Show completed tasks";
+    this.revealCompletedBtnEl.setAttr("aria-label", label);
+
+    const iconEl =
+      this.revealCompletedBtnEl.querySelector(".calendar-btn-icon");
+    if (iconEl instanceof HTMLElement) {
+      setIcon(iconEl, this.revealCompleted ? "eye" : "eye-off");
     }
+  }
 
-    // If active is Default but Default has no tasks, switch to first non-Default section
-    if (this.activeSectionId === DEFAULT_SECTION_ID && !defaultHasTasks) {
-      const firstNonDefault = Array.from(this.sections.values())
-        .filter((s) => s.id !== DEFAULT_SECTION_ID)
-        .sort((a, b) => a.startLine - b.startLine)[0];
-      if (firstNonDefault) {
-        this.activeSectionId = firstNonDefault.id;
-      }
+  /**
+   * Shows or hides the filter bar. Hiding it keeps the filter applied.
+   */
+  toggleFilterBar(): void {
+    this.filterBarVisible = !this.filterBarVisible;
+    this.updateFilterBarVisibility();
+    if (this.filterBarVisible) {
+      this.updateCalendarEvents();
+      this.filterBar?.focus();
     }
+  }
 
-    if (!this.sectionMenuBtnEl) return;
+  /**
+   * Removes every filter criterion.
+   */
+  clearFilter(): void {
+    this.setTaskFilter(createEmptyFilter());
+  }
 
-    // Determine display name
-    let displayName: string;
-    if (this.activeSectionId === ALL_SECTIONS_ID) {
-      displayName = "All Calendars";
-    } else {
-      const activeSection = this.sections.get(this.activeSectionId);
-      displayName = activeSection?.name ?? "Default";
+  /**
+   * Opens a picker for the calendar's saved filters.
+   */
+  openSavedFilterPicker(): void {
+    const filters = this.fileConfig.filters ?? [];
+    if (filters.length === 0) {
+      new Notice("This calendar has no saved filters");
+      return;
     }
 
-    this.sectionMenuBtnEl.empty();
-    this.sectionMenuBtnEl.createSpan({
-      text: displayName,
-      cls: "calendar-section-name",
-    });
-    const chevron = this.sectionMenuBtnEl.createSpan({
-      cls: "calendar-section-chevron",
-    });
-    setIcon(chevron, "chevron-down");
+    new SavedFilterSuggestModal(this.app, filters, (saved) => {
+      this.filterBarVisible = true;
+      this.setTaskFilter(saved.filter);
+    }).open();
   }
 
   /**
-   * Shows the section selection menu with hierarchical structure.
+   * Asks for a name and saves the current filter in the calendar's
+   * frontmatter, replacing a saved filter with the same name.
    */
-  private showSectionMenu(evt: MouseEvent): void {
-    const menu = new Menu();
+  saveCurrentFilter(): void {
+    if (!this.file) return;
+    if (!isFilterActive(this.taskFilter)) {
+      new Notice("Set a filter before saving it");
+      return;
+    }
 
-    // Build hierarchical menu from sections
-    this.buildSectionMenu(menu);
+    const filters = this.fileConfig.filters ?? [];
+    const filter = this.taskFilter;
+    new SaveFilterModal(
+      this.app,
+      filters.map((f) => f.name),
+      (name) =>
+        this.saveFilters([
+          ...filters.filter((f) => f.name !== name),
+          { name, filter },
+        ]),
+    ).open();
+  }
 
-    // Add separator and "New Calendar" option
-    menu.addSeparator();
-    menu.addItem((item) => {
-      item
-        .setTitle("New Calendar...")
-        .setIcon("plus")
-        .onClick(() => {
-          this.createNewSection();
-        });
+  /**
+   * Removes a saved filter from the calendar's frontmatter.
+   */
+  private deleteSavedFilter(name: string): void {
+    const filters = this.fileConfig.filters ?? [];
+    this.saveFilters(filters.filter((f) => f.name !== name));
+  }
+
+  /**
+   * Writes the saved filters to the calendar's frontmatter.
+   */
+  private async saveFilters(filters: SavedTaskFilter[]): Promise<void> {
+    if (!this.file) return;
+
+    try {
+      await ConfigService.saveConfig(this.app, this.file, {
+        ...this.fileConfig,
+        filters,
+      });
+      await this.refresh();
+    } catch (error) {
+      console.error("CalendarView: Failed to save filters", error);
+      new Notice("Failed to save filters");
+    }
+  }
+
+  /**
+   * Applies a new filter and re-renders the events.
+   */
+  private setTaskFilter(filter: TaskFilter): void {
+    this.taskFilter = filter;
+    this.updateFilterButton();
+    this.updateCalendarEvents();
+    this.app.workspace.requestSaveLayout();
+  }
+
+  /**
+   * Shows the filter bar when toggled on and the toolbar is visible.
+   */
+  private updateFilterBarVisibility(): void {
+    if (!this.filterBarContainer) return;
+
+    const toolbarVisible = this.toolbarEl?.style.display !== "none";
+    this.filterBarContainer.style.display =
+      this.filterBarVisible && toolbarVisible ? "flex" : "none";
+    this.updateFilterButton();
+  }
+
+  /**
+   * Updates the filter toggle's label and active state.
+   */
+  private updateFilterButton(): void {
+    if (!this.filterBtnEl) return;
+
+    const active = isFilterActive(this.taskFilter);
+    this.filterBtnEl.toggleClass("is-active", active || this.filterBarVisible);
+    this.filterBtnEl.setAttr(
+      "aria-label",
+      active ? "Filter (active)" : "Filter tasks",
+    );
+  }
+
+  /**
+   * Shows or hides the color legend. Hiding it shows all events again.
+   */
+  toggleLegend(): void {
+    this.legendVisible = !this.legendVisible;
+    if (!this.legendVisible) this.legendFilter = null;
+    this.updateLegendVisibility();
+    this.updateCalendarEvents();
+  }
+
+  /**
+   * Shows only the events colored by a legend entry (or all events).
+   */
+  private setLegendFilter(entry: ColorLegendEntry | null): void {
+    this.legendFilter = entry;
+    this.updateLegendButton();
+    this.updateCalendarEvents();
+  }
+
+  /**
+   * Shows the legend when toggled on and the toolbar is visible.
+   */
+  private updateLegendVisibility(): void {
+    if (!this.legendContainer) return;
+
+    const toolbarVisible = this.toolbarEl?.style.display !== "none";
+    this.legendContainer.style.display =
+      this.legendVisible && toolbarVisible ? "flex" : "none";
+    this.updateLegendButton();
+  }
+
+  /**
+   * Updates the legend toggle's label and active state.
+   */
+  private updateLegendButton(): void {
+    if (!this.legendBtnEl) return;
+
+    this.legendBtnEl.toggleClass("is-active", this.legendVisible);
+    this.legendBtnEl.setAttr(
+      "aria-label",
+      this.legendFilter
+        ? `Showing "${this.legendFilter.label}" events`
+        : "Color legend",
+    );
+  }
+
+  /**
+   * Renders the legend from the color sources of the events in view.
+   * The entry whose events are shown stays listed when none are in view.
+   */
+  private renderLegend(
+    counts: Map<string, number>,
+    sources: Map<string, ColorSource>,
+  ): void {
+    if (!this.colorLegend || !this.legendVisible) return;
+
+    const isDarkMode = document.body.classList.contains("theme-dark");
+    const ruleIds = this.settings.colors.colorRules.map((rule) => rule.id);
+    const sectionIds = Array.from(this.sections.keys());
+    // Rules first (in order), then sections, the calendar and the default
+    const order = ({ type, id }: ColorSource) =>
+      type === "rule"
+        ? ruleIds.indexOf(id ?? "")
+        : type === "section"
+          ? ruleIds.length + sectionIds.indexOf(id ?? "")
+          : ruleIds.length + sectionIds.length + (type === "calendar" ? 0 : 1);
+
+    const entries: ColorLegendEntry[] = Array.from(sources.entries())
+      .map(([key, source]) => ({ key, source, count: counts.get(key) ?? 0 }))
+      .sort((a, b) => order(a.source) - order(b.source))
+      .map(({ key, count, source }) => ({
+        key,
+        label: this.getColorSourceLabel(source),
+        color: ColorService.resolveColor(source.theme, isDarkMode),
+        count,
+      }));
+
+    const active = this.legendFilter;
+    if (active && !counts.has(active.key)) {
+      entries.push({ ...active, count: 0 });
+    }
+
+    this.colorLegend.render(entries, active?.key ?? null);
+  }
+
+  /**
+   * Gets the legend label of a color source.
+   */
+  private getColorSourceLabel(source: ColorSource): string {
+    switch (source.type) {
+      case "rule":
+        return (
+          this.settings.colors.colorRules.find((rule) => rule.id === source.id)
+            ?.name ?? "Rule"
+        );
+      case "section":
+        return this.sections.get(source.id ?? "")?.name ?? "Section";
+      case "calendar":
+        return "Calendar color";
+      default:
+        return "Default color";
+    }
+  }
+
+  /**
+   * Renders the filter bar chips from the tasks shown before filtering.
+   */
+  private renderFilterBar(tasks: TaskLine[]): void {
+    if (!this.filterBar || !this.filterBarVisible) return;
+
+    const tags = new Set<string>();
+    const dateTypes = new Set<DateFieldType>();
+    for (const task of tasks) {
+      FilterService.extractTags(task.markdown).forEach((tag) => tags.add(tag));
+      dateTypes.add(task.dateType);
+    }
+
+    this.filterBar.render(this.taskFilter, {
+      tags: Array.from(tags),
+      statuses: this.settings.taskStatuses,
+      dateTypes: Object.values(DateFieldType).filter((type) =>
+        dateTypes.has(type),
+      ),
+      savedFilters: (this.fileConfig.filters ?? []).map((f) => f.name),
+      canSave: !!this.file,
+    });
+  }
+
+  /**
+   * Switches the calendar to a section (or all sections).
+   */
+  private setActiveSection(sectionId: string): void {
+    this.activeSectionId = sectionId;
+    this.pendingSectionId = null;
+    this.updateSectionMenuButton();
+    this.updateCalendarEvents();
+    this.app.workspace.requestSaveLayout();
+  }
+
+  /**
+   * Updates the section menu button text to show current section name.
+   */
+  protected updateSectionMenuButton(): void {
+    // Check if Default section has tasks
+    const defaultSection = this.sections.get(DEFAULT_SECTION_ID);
+    const defaultHasTasks =
+      defaultSection &&
+      (defaultSection.tasks.length > 0 ||
+        defaultSection.unscheduledTasks.length > 0);
+
+    if (this.pendingSectionId && this.sections.has(this.pendingSectionId)) {
+      this.activeSectionId = this.pendingSectionId;
+      this.pendingSectionId = null;
+    }
+
+    // Validate active section still exists (but allow ALL_SECTIONS_ID)
+    if (
+      this.activeSectionId !== ALL_SECTIONS_ID &&
+      !this.sections.has(this.activeSectionId)
+    ) {
+      this.activeSectionId = DEFAULT_SECTION_ID;
+    }
+
+    // If active is Default but Default has no tasks, switch to first non-Default section
+    if (this.activeSectionId === DEFAULT_SECTION_ID && !defaultHasTasks) {
+      const firstNonDefault = Array.from(this.sections.values())
+        .filter((s) => s.id !== DEFAULT_SECTION_ID)
+        .sort((a, b) => a.startLine - b.startLine)[0];
+      if (firstNonDefault) {
+        this.activeSectionId = firstNonDefault.id;
+      }
+    }
+
+    if (!this.sectionMenuBtnEl) return;
+
+    // Determine display name
+    let displayName: string;
+    if (this.activeSectionId === ALL_SECTIONS_ID) {
+      displayName = "All Calendars";
+    } else {
+      const activeSection = this.sections.get(this.activeSectionId);
+      displayName = activeSection?.name ?? "Default";
+    }
+
+    this.sectionMenuBtnEl.empty();
+    this.sectionMenuBtnEl.createSpan({
+      text: displayName,
+      cls: "calendar-section-name",
+    });
+    const chevron = this.sectionMenuBtnEl.createSpan({
+      cls: "calendar-section-chevron",
     });
+    setIcon(chevron, "chevron-down");
+  }
+
+  /**
+   * Shows the section selection menu with hierarchical structure.
+   */
+  private showSectionMenu(evt: MouseEvent): void {
+    const menu = new Menu();
+
+    // Build hierarchical menu from sections
+    this.buildSectionMenu(menu);
+
+    // Add separator and "New Calendar" option (calendar files only)
+    if (this.file) {
+      menu.addSeparator();
+      menu.addItem((item) => {
+        item
+          .setTitle("New Calendar...")
+          .setIcon("plus")
+          .onClick(() => {
+            this.createNewSection();
+          });
+      });
+    }
 
     menu.showAtMouseEvent(evt);
   }
@@ -967,9 +1952,7 @@ export class CalendarView extends TextFileView {
           .setIcon("layers")
           .setChecked(isAllActive)
           .onClick(() => {
-            this.activeSectionId = ALL_SECTIONS_ID;
-            this.updateSectionMenuButton();
-            this.updateCalendarEvents();
+            this.setActiveSection(ALL_SECTIONS_ID);
           });
       });
       menu.addSeparator();
@@ -981,7 +1964,10 @@ export class CalendarView extends TextFileView {
 
     // Check if Default section has any tasks
     const defaultSection = this.sections.get(DEFAULT_SECTION_ID);
-    const defaultHasTasks = defaultSection && defaultSection.tasks.length > 0;
+    const defaultHasTasks =
+      defaultSection &&
+      (defaultSection.tasks.length > 0 ||
+        defaultSection.unscheduledTasks.length > 0);
 
     this.sections.forEach((section) => {
       // Skip Default section unless it has tasks
@@ -1010,8 +1996,7 @@ export class CalendarView extends TextFileView {
       const children = childrenByParent.get(section.id);
       const isActive = this.activeSectionId === section.id;
       // Check if this is the "Done" section (completed tasks section)
-      const isDoneSection =
-        section.name === this.plugin.settings.completedSectionName;
+      const isDoneSection = section.name === this.settings.completedSectionName;
 
       if (children && children.length > 0) {
         // Has children - create submenu
@@ -1029,9 +2014,7 @@ export class CalendarView extends TextFileView {
                   .setTitle(`All in "${section.name}"`)
                   .setChecked(isActive)
                   .onClick(() => {
-                    this.activeSectionId = section.id;
-                    this.updateSectionMenuButton();
-                    this.updateCalendarEvents();
+                    this.setActiveSection(section.id);
                   });
               });
 
@@ -1042,16 +2025,14 @@ export class CalendarView extends TextFileView {
               children.forEach((child) => {
                 const isChildActive = this.activeSectionId === child.id;
                 const isChildDone =
-                  child.name === this.plugin.settings.completedSectionName;
+                  child.name === this.settings.completedSectionName;
                 submenu.addItem((subItem) => {
                   subItem
                     .setTitle(child.name)
                     .setIcon(isChildDone ? "check-circle" : "")
                     .setChecked(isChildActive)
                     .onClick(() => {
-                      this.activeSectionId = child.id;
-                      this.updateSectionMenuButton();
-                      this.updateCalendarEvents();
+                      this.setActiveSection(child.id);
                     });
                 });
               });
@@ -1065,9 +2046,7 @@ export class CalendarView extends TextFileView {
             .setIcon(isDoneSection ? "check-circle" : "")
             .setChecked(isActive)
             .onClick(() => {
-              this.activeSectionId = section.id;
-              this.updateSectionMenuButton();
-              this.updateCalendarEvents();
+              this.setActiveSection(section.id);
             });
         });
       }
@@ -1079,15 +2058,17 @@ export class CalendarView extends TextFileView {
    * Uses MomentAdapter for seamless integration with Obsidian's moment.js
    */
   private initializeCalendar(container: HTMLElement): void {
-    const settings = this.plugin.settings;
+    const settings = this.settings;
 
     // Use MomentAdapter for proper date/time handling with Obsidian's moment
     const dateAdapter = new MomentAdapter(moment);
 
+    this.calendarWeekStart = settings.weekStart;
     this.calendar = new Calendar(container, {
       dateAdapter,
       view: {
-        type: settings.defaultView as ViewType,
+        type: isCalendarView(this.currentView) ? this.currentView : "month",
+        firstDayOfWeek: settings.weekStart as 0 | 1,
       },
       onEventClick: (event: CalendarEvent, jsEvent?: MouseEvent) =>
         this.handleEventClick(event, jsEvent),
@@ -1179,20 +2160,55 @@ export class CalendarView extends TextFileView {
       this.eventElementMap.set(ctx.event.id, ctx.el);
     });
 
-    const { showEventCheckbox } = this.plugin.settings;
+    const { showEventCheckbox } = this.settings;
     const task = this.currentEvents.get(ctx.event.id);
 
+    // Virtual occurrences of recurring tasks are rendered without checkbox
+    if (this.isOccurrenceEvent(ctx.event)) {
+      ctx.el.addClass("is-recurrence-occurrence");
+    }
+    if (this.selectedIds.has(ctx.event.id)) {
+      ctx.el.addClass("is-selected");
+    }
+
+    // Readable text on the event color (rules can still set their own)
+    const textColor = ctx.event.color && this.getTextColor(ctx.event.color);
+    if (textColor) {
+      ctx.el.style.color = textColor;
+    }
+
+    // Styling from color rules (occurrences are styled like their task)
+    const styledTask = this.getTaskForEvent(ctx.event);
+    if (styledTask && this.isLoaded()) {
+      this.applyRuleStyle(ctx.el, this.getTaskStyle(styledTask));
+    }
+
     if (showEventCheckbox && task) {
+      const status = this.getTaskStatus(task.status);
+
       // Create checkbox element matching Obsidian's task list format
-      const checkbox = createEl("input", {
-        type: "checkbox",
-        cls: "task-list-item-checkbox",
-        dataset: {
-          task: task.completed ? "x" : " ",
-        },
-      });
-      if (task.completed) {
-        checkbox.checked = true;
+      // (themes style custom statuses through data-task), or the status icon
+      let checkbox: HTMLElement;
+      if (status.icon) {
+        checkbox = createSpan({
+          cls: "calendar-status-icon",
+          attr: { role: "checkbox", "aria-label": status.name },
+          dataset: { task: task.status },
+        });
+        setIcon(checkbox, status.icon);
+      } else {
+        checkbox = createEl("input", {
+          type: "checkbox",
+          cls: "task-list-item-checkbox",
+          dataset: { task: task.status },
+        });
+        (checkbox as HTMLInputElement).checked = task.status !== " ";
+      }
+      if (status.color) {
+        checkbox.style.color = document.body.classList.contains("theme-dark")
+          ? status.color.dark
+          : status.color.light;
+        checkbox.style.accentColor = checkbox.style.color;
       }
 
       // Prevent checkbox click from bubbling to event click handler
@@ -1209,6 +2225,71 @@ export class CalendarView extends TextFileView {
       if (task.completed) {
         ctx.el.addClass("is-completed");
       }
+      if (status.type === TaskStatusType.Cancelled) {
+        ctx.el.addClass("is-cancelled");
+      }
+      if (status.icon) {
+        ctx.el.addClass("has-status-icon");
+      }
+    }
+  }
+
+  /**
+   * Gets the text color with the best WCAG contrast on an event color.
+   * Translucent colors are blended over the view background.
+   *
+   * @returns The text color, or null if the color can't be parsed
+   */
+  private getTextColor(color: string): string | null {
+    const cached = this.textColorCache.get(color);
+    if (cached !== undefined) return cached;
+
+    // Events are not attached yet when rendered, so colors are resolved
+    // against the view
+    const background = parseCssColor(color, this.contentEl);
+    const backdrop =
+      background && background.a < 1
+        ? parseCssColor("var(--background-primary)", this.contentEl)
+        : null;
+    const textColor = background
+      ? getReadableTextColor(background, backdrop ?? undefined)
+      : null;
+
+    this.textColorCache.set(color, textColor);
+    return textColor;
+  }
+
+  /**
+   * Applies the styling from color rules to a rendered event.
+   * The icon goes before the title, after the checkbox.
+   */
+  private applyRuleStyle(el: HTMLElement, style: EventStyle): void {
+    if (style.textColor) {
+      el.style.color = style.textColor;
+    }
+    if (style.borderStyle) {
+      el.addClass("has-rule-border");
+      el.style.setProperty("--calendar-rule-border-style", style.borderStyle);
+    }
+    if (style.stripeColor) {
+      el.addClass("has-rule-stripe");
+      el.style.setProperty("--calendar-rule-stripe-color", style.stripeColor);
+    }
+    if (style.opacity !== undefined) {
+      el.style.opacity = String(style.opacity);
+    }
+    el.toggleClass("is-rule-strikethrough", !!style.strikethrough);
+    el.toggleClass("is-rule-bold", !!style.bold);
+
+    if (style.icon) {
+      const iconEl = createSpan({ cls: "calendar-rule-icon" });
+      setIcon(iconEl, style.icon);
+      const titleEl = el.querySelector(".tg-event-title");
+      if (titleEl) {
+        titleEl.insertBefore(iconEl, titleEl.firstChild);
+      } else {
+        el.insertBefore(iconEl, el.firstChild);
+      }
     }
   }
 
@@ -1222,7 +2303,7 @@ export class CalendarView extends TextFileView {
   private handleDateSelect(start: Date, end: Date): void {
     if (!this.file) return;
 
-    const dateFormat = this.plugin.settings.recognizedDateFormat;
+    const dateFormat = this.settings.writeDateFormat;
     const startMoment = moment(start);
     const endMoment = moment(end);
 
@@ -1255,15 +2336,61 @@ export class CalendarView extends TextFileView {
     }
     // Simple format: no time support (only date)
 
-    new TaskCreationModal(this.app, startDateStr, async (taskName: string) => {
-      await this.createTask(
-        taskName,
-        startDateStr,
-        isMultiDay ? endDateStr : undefined,
-        startTimeStr,
-        endTimeStr,
-      );
-    }).open();
+    this.openQuickAdd(
+      {
+        defaultDate: startDateStr,
+        defaultEndDate: isMultiDay ? endDateStr : undefined,
+        defaultStartTime: startTimeStr,
+        defaultEndTime: endTimeStr,
+      },
+      `Add Task for ${startDateStr}`,
+    );
+  }
+
+  /**
+   * Opens the task creation modal with natural-language parsing.
+   * @param defaults - Date and times used when the input has none
+   * @param heading - Modal heading
+   */
+  openQuickAdd(
+    defaults: QuickAddOptions = {},
+    heading = "Quick add task",
+  ): void {
+    if (!this.file) return;
+
+    const sectionInfos = Array.from(this.sections.values()).map((s) => ({
+      id: s.id,
+      name: s.filePath ? `${s.name} (${s.filePath})` : s.name,
+    }));
+    if (sectionInfos.length === 0) return;
+
+    // In the "All" view, default to the calendar file's last section
+    const ownSections = Array.from(this.sections.values()).filter(
+      (s) => !s.filePath,
+    );
+    const sectionId = this.sections.has(this.activeSectionId)
+      ? this.activeSectionId
+      : (ownSections[ownSections.length - 1]?.id ?? sectionInfos[0].id);
+
+    new TaskCreationModal(
+      this.app,
+      { heading, defaults, sections: sectionInfos, sectionId },
+      async (result, targetSectionId) => {
+        await this.createTask(
+          result.title,
+          result.date,
+          result.endDate,
+          result.startTime,
+          result.endTime,
+          {
+            recurrence: result.recurrence,
+            priority: result.priority,
+            durationMinutes: result.durationMinutes,
+            sectionId: targetSectionId,
+          },
+        );
+      },
+    ).open();
   }
 
   /**
@@ -1276,19 +2403,17 @@ export class CalendarView extends TextFileView {
 
       try {
         // Append a new ## heading at the end of the file
-        const prefix = this.data.endsWith("\n") ? "\n" : "\n\n";
-        const newContent = `${this.data}${prefix}## ${name.trim()}\n`;
+        const lines = await this.readTaskLines({});
+        if (lines[lines.length - 1] !== "") lines.push("");
+        lines.push(`## ${name.trim()}`, "");
 
-        await this.app.vault.modify(this.file, newContent);
-        new Notice(`Calendar "${name}" created`);
+        await this.writeTaskLines({}, lines, `Calendar "${name}" created`);
 
         // Auto-select the new section after refresh (with delay for file watcher)
         const sectionName = name.trim();
         setTimeout(() => {
           if (this.sections.has(sectionName)) {
-            this.activeSectionId = sectionName;
-            this.updateSectionMenuButton();
-            this.updateCalendarEvents();
+            this.setActiveSection(sectionName);
           }
         }, 600);
       } catch (error) {
@@ -1374,69 +2499,114 @@ export class CalendarView extends TextFileView {
 
   /**
    * Creates a new task with the given name and date(s).
-   * Inserts the task at the end of the currently active section.
+   * Inserts the task at the end of the target (by default the active) section.
    * @param taskName - The task description
-   * @param startDate - The start/due date (used as 📅 for single-day, 🛫 for multi-day)
+   * @param startDate - The start/due date (used as 📅 for single-day, 🛫 for multi-day);
+   *                    tasks without a date go to the backlog
    * @param endDate - Optional end date for multi-day tasks (used as 📅)
    * @param startTime - Optional start time (HH:mm format, for Kanban/Dataview)
    * @param endTime - Optional end time (HH:mm format, for Dataview multi-day)
+   * @param options - Optional recurrence rule, priority, duration (written
+   *                  when the end time isn't) and target section
    */
   async createTask(
     taskName: string,
-    startDate: string,
+    startDate?: string,
     endDate?: string,
     startTime?: string,
     endTime?: string,
+    options: {
+      recurrence?: string;
+      priority?: QuickAddPriority;
+      durationMinutes?: number;
+      sectionId?: string;
+    } = {},
   ): Promise<void> {
     if (!this.file || !taskName.trim()) return;
 
     try {
-      const lines = this.data.split("\n");
-      const dateFormat = this.plugin.settings.recognizedDateFormat;
+      const section = this.sections.get(
+        options.sectionId ?? this.activeSectionId,
+      );
+      const lines = await this.readTaskLines(section ?? {});
+      const dateFormat = this.settings.writeDateFormat;
 
       // Build date part based on format
-      const datePart = this.buildDatePart(
-        dateFormat,
-        startDate,
-        endDate,
-        startTime,
-        endTime,
-      );
-      const newTaskLine = `- [ ] ${taskName.trim()} ${datePart}`;
-
-      // Determine insertion point based on active section
-      const section = this.sections.get(this.activeSectionId);
-      let insertIndex = lines.length;
-
-      if (section) {
-        // Insert at the end of the current section (before the next section starts)
-        insertIndex = section.endLine;
-
-        // If there are existing tasks in the section, insert after the last task
-        if (section.tasks.length > 0) {
-          const lastTask = section.tasks[section.tasks.length - 1];
-          insertIndex = lastTask.lineIndex + 1;
-        } else if (section.id !== DEFAULT_SECTION_ID) {
-          // For non-default sections without tasks, insert right after the heading
-          insertIndex = section.startLine;
-        }
+      const datePart = startDate
+        ? " " +
+          this.buildDatePart(dateFormat, startDate, endDate, startTime, endTime)
+        : "";
+
+      // Priority and recurrence precede the dates, as in the Tasks plugin
+      const isDataview = dateFormat === "dataview";
+      let metadata = "";
+      if (options.priority) {
+        metadata += isDataview
+          ? ` [priority:: ${options.priority}]`
+          : ` ${PRIORITY_EMOJIS[options.priority]}`;
+      }
+      if (options.recurrence) {
+        metadata += isDataview
+          ? ` [repeat:: ${options.recurrence}]`
+          : ` 🔁 ${options.recurrence}`;
+      }
+      // Kanban and simple dates can't hold an end time, so keep the length
+      const writesEndTime =
+        !!startDate &&
+        !!endTime &&
+        dateFormat !== "kanban" &&
+        dateFormat !== "simple";
+      if (options.durationMinutes && !writesEndTime) {
+        metadata += ` ${formatDurationField(
+          options.durationMinutes,
+          isDataview ? "dataview-bracket" : "tasks",
+        )}`;
       }
 
-      // Ensure we don't insert beyond the file
-      insertIndex = Math.min(insertIndex, lines.length);
+      const newTaskLine = `- [ ] ${taskName.trim()}${metadata}${datePart}`;
 
       // Insert the new task line
-      lines.splice(insertIndex, 0, newTaskLine);
+      lines.splice(this.getInsertIndex(section, lines), 0, newTaskLine);
 
-      await this.app.vault.modify(this.file, lines.join("\n"));
-
-      new Notice("Task created!");
+      await this.writeTaskLines(section ?? {}, lines, "Task created!");
     } catch (error) {
       console.error("CalendarView: Failed to create task", error);
       new Notice("Failed to create task");
     }
   }
 
+  /**
+   * Gets the line index where new tasks are inserted into a section.
+   * @param section - Target section (undefined appends to the file)
+   * @param lines - Current lines of the section's file
+   */
+  private getInsertIndex(
+    section: CalendarSection | undefined,
+    lines: string[],
+  ): number {
+    let insertIndex = lines.length;
+
+    if (section) {
+      // Insert at the end of the current section (before the next section starts)
+      insertIndex = section.endLine;
+
+      // If there are existing tasks in the section, insert after the last task
+      if (section.tasks.length > 0) {
+        const lastTask = section.tasks[section.tasks.length - 1];
+        insertIndex = lastTask.lineIndex + 1;
+      } else if (section.filePath) {
+        // Source notes without tasks: append at the end of the note
+        insertIndex = lines.length;
+      } else if (section.id !== DEFAULT_SECTION_ID) {
+        // For non-default sections without tasks, insert right after the heading
+        insertIndex = section.startLine;
+      }
+    }
+
+    // Ensure we don't insert beyond the file
+    return Math.min(insertIndex, lines.length);
+  }
+
   /**
    * Refreshes the calendar with current file content.
    * Called externally when file changes are detected.
@@ -1447,6 +2617,12 @@ export class CalendarView extends TextFileView {
     try {
       const content = await this.app.vault.read(this.file);
       this.data = content;
+      this.applyFileConfig(content);
+      this.syncCalendarWeekStart();
+      this.sources = SourceService.parseSources(
+        getCalendarFrontmatter(content),
+      );
+      await this.loadSourceContents();
       this.parseMarkdown(content);
       this.updateSectionMenuButton();
       this.updateCalendarEvents();
@@ -1457,160 +2633,1118 @@ export class CalendarView extends TextFileView {
   }
 
   /**
-   * Updates calendar events based on the currently active section.
-   * Event rendering (including checkbox) is handled by onRenderEvent callback.
+   * Debounced refresh, used when a source note changes.
    */
-  private updateCalendarEvents(): void {
-    if (!this.calendar) return;
+  requestSourceRefresh = debounce(() => this.refresh(), 500, true);
 
-    this.eventElementMap.clear();
+  /**
+   * Checks if a file is (or would become) one of this calendar's sources.
+   *
+   * @param oldPath - Previous path, for renamed files
+   */
+  isSourceFile(file: TFile, oldPath?: string): boolean {
+    if (!this.file || file.path === this.file.path) return false;
+    if (this.sourceContents.has(file.path)) return true;
+    if (oldPath && this.sourceContents.has(oldPath)) return true;
+    return SourceService.matchesAny(
+      this.app,
+      this.sources,
+      file,
+      this.file.path,
+    );
+  }
 
-    // Determine which tasks to show based on active section
-    let tasksToShow: TaskLine[];
-    if (this.activeSectionId === ALL_SECTIONS_ID) {
-      // Collect all tasks from all sections
-      tasksToShow = [];
-      this.sections.forEach((section) => {
-        tasksToShow.push(...section.tasks);
-      });
-    } else {
-      const activeSection = this.sections.get(this.activeSectionId);
-      tasksToShow = activeSection?.tasks ?? [];
+  /**
+   * Re-reads the source notes listed in the frontmatter and re-renders.
+   * Skipped when the calendar has no sources and none were loaded before.
+   */
+  private async reloadSources(): Promise<void> {
+    if (!this.file) return;
+
+    this.sources = SourceService.parseSources(
+      getCalendarFrontmatter(this.data),
+    );
+    if (this.sources.length === 0 && this.sourceContents.size === 0) return;
+
+    try {
+      await this.loadSourceContents();
+      this.parseMarkdown(this.data);
+      this.updateViewState();
+      this.updateSectionMenuButton();
+      this.pendingSectionId = null;
+      this.updateCalendarEvents();
+    } catch (error) {
+      console.error("CalendarView: Failed to load calendar sources", error);
+      new Notice("Failed to load calendar sources");
     }
+  }
 
-    const events: CalendarEvent[] = tasksToShow.map((task) => {
-      // Determine start and end times
-      let startStr: string;
-      let endStr: string;
+  /**
+   * Reads the content of every note matched by the calendar's sources.
+   */
+  private async loadSourceContents(): Promise<void> {
+    const files = this.file
+      ? SourceService.resolveFiles(this.app, this.sources, this.file.path)
+      : [];
+
+    const contents = new Map<string, string>();
+    for (const file of files) {
+      contents.set(file.path, await this.app.vault.cachedRead(file));
+    }
+    this.sourceContents = contents;
+  }
 
-      // @taskgenius/calendar expects format: "YYYY-MM-DD HH:mm" (space, not T)
-      const DATE_TIME_FORMAT = "YYYY-MM-DD HH:mm";
+  /**
+   * Gets the file a task or section belongs to: a source note or this calendar.
+   */
+  private getTaskFile(item: { filePath?: string }): TFile | null {
+    if (!item.filePath) return this.file;
+    const file = this.app.vault.getAbstractFileByPath(item.filePath);
+    return file instanceof TFile ? file : null;
+  }
 
-      if (task.isKanban && task.hasTime) {
-        // Kanban with time: default 30 min duration
-        startStr = task.date.format(DATE_TIME_FORMAT);
-        endStr = moment(task.date).add(30, "minutes").format(DATE_TIME_FORMAT);
-      } else {
-        // Check for explicit start/due dates for multi-day or timed tasks
-        const startField = task.allDates.find(
-          (d) => d.type === DateFieldType.Start,
-        );
-        const dueField = task.allDates.find(
-          (d) => d.type === DateFieldType.Due,
-        );
+  /**
+   * Reads the current lines of the file a task or section belongs to from
+   * disk, so edits apply to changes the view hasn't reloaded yet.
+   */
+  private async readTaskLines(item: { filePath?: string }): Promise<string[]> {
+    const file = this.getTaskFile(item);
+    if (!file) {
+      throw new Error(
+        item.filePath
+          ? `Source note not found: ${item.filePath}`
+          : "Calendar file not found",
+      );
+    }
+    return (await this.app.vault.read(file)).split("\n");
+  }
 
-        const DATE_ONLY_FORMAT = "YYYY-MM-DD";
-
-        if (startField && dueField) {
-          // Task with both start and due dates
-          if (startField.hasTime || dueField.hasTime) {
-            startStr = startField.date.format(DATE_TIME_FORMAT);
-            // If due has no explicit time, set to end of day (23:59) to include
-            // the full day in calendar rendering
-            if (dueField.hasTime) {
-              endStr = dueField.date.format(DATE_TIME_FORMAT);
-            } else {
-              endStr = dueField.date
-                .clone()
-                .hour(23)
-                .minute(59)
-                .format(DATE_TIME_FORMAT);
-            }
-          } else {
-            // Date-only format
-            startStr = startField.date.format(DATE_ONLY_FORMAT);
-            endStr = dueField.date.format(DATE_ONLY_FORMAT);
-          }
-        } else if (startField) {
-          // Only start date: use it for both start and end
-          if (startField.hasTime) {
-            startStr = startField.date.format(DATE_TIME_FORMAT);
-            endStr = moment(startField.date)
-              .add(30, "minutes")
-              .format(DATE_TIME_FORMAT);
-          } else {
-            startStr = startField.date.format(DATE_ONLY_FORMAT);
-            endStr = startField.date.format(DATE_ONLY_FORMAT);
-          }
-        } else if (dueField) {
-          // Only due date: use it for both start and end
-          if (dueField.hasTime) {
-            startStr = dueField.date.format(DATE_TIME_FORMAT);
-            endStr = moment(dueField.date)
-              .add(30, "minutes")
-              .format(DATE_TIME_FORMAT);
+  /**
+   * Writes lines back to the file a task or section belongs to, records
+   * the edit for undo and shows the message with an Undo action.
+   *
+   * @param message - Notice text, also the edit's name in the history
+   */
+  private async writeTaskLines(
+    item: { filePath?: string },
+    lines: string[],
+    message: string,
+  ): Promise<void> {
+    await this.writeEdits(message, [{ item, lines }]);
+  }
+
+  /**
+   * Writes the lines of one or more files as a single undoable edit and
+   * shows the message with an Undo action.
+   *
+   * @param edits - New lines per file (one entry per file)
+   */
+  private async writeEdits(
+    message: string,
+    edits: { item: { filePath?: string }; lines: string[] }[],
+  ): Promise<void> {
+    const entry = { label: message, changes: [] as LineChange[] };
+
+    try {
+      for (const { item, lines } of edits) {
+        const file = this.getTaskFile(item);
+        if (!file) throw new Error(`Source note not found: ${item.filePath}`);
+
+        const change = EditHistory.diffLines(
+          await this.readTaskLines(item),
+          lines,
+        );
+        if (!change) continue;
+
+        await this.app.vault.modify(file, lines.join("\n"));
+        entry.changes.push({ filePath: item.filePath, ...change });
+      }
+    } finally {
+      // Files written before a failure can still be undone
+      this.history.record(entry);
+    }
+
+    this.showHistoryNotice(
+      message,
+      "undo",
+      entry.changes.length > 0 ? entry : undefined,
+    );
+  }
+
+  /**
+   * Reverts the last edit made from this view.
+   */
+  async undo(): Promise<void> {
+    await this.stepHistory("undo");
+  }
+
+  /**
+   * Re-applies the last undone edit.
+   */
+  async redo(): Promise<void> {
+    await this.stepHistory("redo");
+  }
+
+  /**
+   * Checks if there is an edit to undo.
+   */
+  canUndo(): boolean {
+    return !!this.history.peekUndo();
+  }
+
+  /**
+   * Checks if there is an undone edit to redo.
+   */
+  canRedo(): boolean {
+    return !!this.history.peekRedo();
+  }
+
+  /**
+   * Undoes or redoes the next edit in the history. Every file is checked
+   * before any is written, so an edit is never partly undone.
+   *
+   * @param expected - Only step if this is the next edit (notice actions)
+   */
+  private async stepHistory(
+    direction: "undo" | "redo",
+    expected?: HistoryEntry,
+  ): Promise<void> {
+    const entry =
+      direction === "undo" ? this.history.peekUndo() : this.history.peekRedo();
+    if (!entry) {
+      new Notice(`Nothing to ${direction}`);
+      return;
+    }
+    if (expected && entry !== expected) {
+      new Notice(
+        direction === "undo"
+          ? "Undo the newer edits first"
+          : "Redo the earlier edits first",
+      );
+      return;
+    }
+
+    try {
+      const writes: { file: TFile; lines: string[] }[] = [];
+      for (const change of entry.changes) {
+        const file = this.getTaskFile(change);
+        const lines = file
+          ? EditHistory.applyChange(
+              (await this.app.vault.read(file)).split("\n"),
+              change,
+              direction,
+            )
+          : null;
+        if (!file || !lines) {
+          // The edited lines changed since, so older edits can't be trusted
+          this.history.clear();
+          new Notice(
+            `Can't ${direction} "${entry.label}": the note has changed since`,
+          );
+          return;
+        }
+        writes.push({ file, lines });
+      }
+
+      for (const { file, lines } of writes) {
+        await this.app.vault.modify(file, lines.join("\n"));
+      }
+
+      if (direction === "undo") {
+        this.history.markUndone();
+        this.showHistoryNotice(`Undone: ${entry.label}`, "redo", entry);
+      } else {
+        this.history.markRedone();
+        this.showHistoryNotice(`Redone: ${entry.label}`, "undo", entry);
+      }
+    } catch (error) {
+      console.error(`CalendarView: Failed to ${direction} edit`, error);
+      new Notice(`Failed to ${direction} edit`);
+    }
+  }
+
+  /**
+   * Shows a notice with an Undo or Redo action for the edit just made.
+   *
+   * @param entry - The edit the action applies to (no action if unset)
+   */
+  private showHistoryNotice(
+    message: string,
+    action: "undo" | "redo",
+    entry?: HistoryEntry,
+  ): void {
+    const fragment = createFragment((el) => {
+      el.createSpan({ text: message });
+      if (!entry) return;
+      const actionBtn = el.createEl("button", {
+        cls: "calendar-notice-action",
+        text: action === "undo" ? "Undo" : "Redo",
+      });
+      actionBtn.addEventListener("click", () =>
+        this.stepHistory(action, entry),
+      );
+    });
+    new Notice(fragment);
+  }
+
+  /**
+   * Handles shortcuts while the calendar has focus: undo (Ctrl+Z), redo
+   * (Ctrl+Shift+Z) and clearing the selection (Escape).
+   * Text fields keep their own shortcuts.
+   */
+  private handleViewKeydown(e: KeyboardEvent): void {
+    const target = e.target;
+    if (
+      target instanceof HTMLElement &&
+      (target.isContentEditable || target.closest("input, textarea, select"))
+    ) {
+      return;
+    }
+
+    if (e.key === "Escape" && this.selectedIds.size > 0) {
+      e.preventDefault();
+      this.clearSelection();
+      return;
+    }
+
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "z") {
+      return;
+    }
+    e.preventDefault();
+    this.stepHistory(e.shiftKey ? "redo" : "undo");
+  }
+
+  /**
+   * Finds the current line of a task before writing it back.
+   * Refreshes the view when the task line itself was changed or removed.
+   *
+   * @returns The line index, or -1 if the task could not be found
+   */
+  private async locateTaskLine(
+    task: { lineIndex: number; markdown: string; id?: string },
+    lines: string[],
+  ): Promise<number> {
+    const lineIndex = relocateTaskLine(lines, task);
+    if (lineIndex === -1) {
+      new Notice("Task has changed in the file, refreshing");
+      await this.refresh();
+    }
+    return lineIndex;
+  }
+
+  /**
+   * Re-applies plugin settings (and the calendar's overrides) to this view.
+   * Called by the plugin whenever settings are saved.
+   */
+  onSettingsChanged(): void {
+    if (!this.calendar || !this.calendarMainContainer) return;
+
+    this.applyFileConfig(this.data);
+    this.syncCalendarWeekStart();
+
+    // Re-parse in case date format or priority changed
+    if (this.isLoaded()) {
+      this.parseMarkdown(this.data);
+      this.updateSectionMenuButton();
+    }
+    this.updateRevealCompletedButton();
+    this.updateDateDisplay();
+    this.updateCalendarEvents();
+  }
+
+  /**
+   * Merges the calendar's frontmatter overrides over the plugin settings.
+   *
+   * @param content - Calendar file content
+   */
+  private applyFileConfig(content: string): void {
+    this.fileConfig = ConfigService.parseConfig(
+      getCalendarFrontmatter(content),
+    );
+    this.settings = ConfigService.applyConfig(
+      this.plugin.settings,
+      this.fileConfig,
+      this.file?.path ?? "",
+    );
+  }
+
+  /**
+   * Recreates the calendar when the effective week start changed, since the
+   * underlying calendar only reads it at construction time.
+   */
+  private syncCalendarWeekStart(): void {
+    if (!this.calendar || !this.calendarMainContainer) return;
+    if (this.calendarWeekStart === this.settings.weekStart) return;
+
+    this.calendar.destroy();
+    this.dragThresholdPatched = false;
+    this.calendarMainContainer.empty();
+    this.initializeCalendar(this.calendarMainContainer);
+    this.calendar.goToDate(this.currentDate);
+  }
+
+  /**
+   * Updates calendar events based on the currently active section.
+   * Event rendering (including checkbox) is handled by onRenderEvent callback.
+   */
+  protected updateCalendarEvents(): void {
+    if (!this.calendar) return;
+
+    this.eventElementMap.clear();
+
+    // Determine which tasks to show based on active section
+    let tasksToShow = this.getActiveSectionTasks();
+
+    // Hide completed tasks unless enabled in settings or revealed in this view
+    if (!this.settings.showCompleted && !this.revealCompleted) {
+      tasksToShow = tasksToShow.filter((task) => !task.completed);
+    }
+
+    // Filter bar chips offer what the unfiltered tasks contain
+    this.renderFilterBar(tasksToShow);
+    if (isFilterActive(this.taskFilter)) {
+      tasksToShow = tasksToShow.filter((task) =>
+        FilterService.matches(task, this.taskFilter),
+      );
+    }
+
+    let events: CalendarEvent[] = tasksToShow.map((task) =>
+      this.buildEvent(task),
+    );
+
+    // Expand virtual occurrences of recurring tasks across the visible range
+    const range = this.getVisibleRange();
+    tasksToShow.forEach((task, index) => {
+      events.push(...this.expandRecurringEvent(task, events[index], range));
+    });
+
+    // The legend counts the events in view by what colors them, and can
+    // narrow the calendar to one of its entries
+    if (this.legendVisible) {
+      const keys = new Map<string, string>();
+      const sources = new Map<string, ColorSource>();
+      for (const task of tasksToShow) {
+        const source = this.getTaskColorSource(task);
+        const key = ColorService.getColorSourceKey(source);
+        keys.set(task.id, key);
+        sources.set(key, source);
+      }
+      const keyOf = (event: CalendarEvent) =>
+        keys.get(this.getTaskForEvent(event)?.id ?? "");
+
+      const counts = new Map<string, number>();
+      for (const event of events) {
+        const start = moment(event.start, "YYYY-MM-DD");
+        const end = moment(event.end, "YYYY-MM-DD");
+        const inView =
+          !start.isAfter(range.end, "day") && !end.isBefore(range.start, "day");
+        const key = keyOf(event);
+        if (inView && key) counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      this.renderLegend(counts, sources);
+
+      if (this.legendFilter) {
+        const { key } = this.legendFilter;
+        events = events.filter((event) => keyOf(event) === key);
+        tasksToShow = tasksToShow.filter((task) => keys.get(task.id) === key);
+      }
+    }
+
+    // Only shown tasks stay selected (others were removed, hidden or moved)
+    if (this.selectedIds.size > 0) {
+      const shownIds = new Set(tasksToShow.map((task) => task.id));
+      this.selectedIds.forEach((id) => {
+        if (!shownIds.has(id)) this.selectedIds.delete(id);
+      });
+    }
+    this.renderSelectionToolbar();
+
+    this.calendar.setEvents(events);
+    this.renderOverview(events);
+
+    if (this.agendaList && this.currentView === "agenda") {
+      this.agendaList.render(events, {
+        rangeStart: range.start,
+        rangeEnd: range.end,
+        weekStart: this.settings.weekStart,
+      });
+    }
+
+    this.renderBacklog();
+  }
+
+  /**
+   * Collects unscheduled tasks, hiding completed ones like the calendar does.
+   *
+   * @param allSections - Ignore the backlog section filter
+   */
+  private getUnscheduledTasks(allSections = false): UnscheduledTaskLine[] {
+    const filter = allSections
+      ? ALL_SECTIONS_ID
+      : (this.backlogSectionFilter ?? this.activeSectionId);
+
+    let tasks: UnscheduledTaskLine[] = [];
+    if (filter === ALL_SECTIONS_ID) {
+      this.sections.forEach((section) => {
+        tasks.push(...section.unscheduledTasks);
+      });
+    } else {
+      tasks = [...(this.sections.get(filter)?.unscheduledTasks ?? [])];
+    }
+
+    if (!this.settings.showCompleted && !this.revealCompleted) {
+      tasks = tasks.filter((task) => !task.completed);
+    }
+    return tasks;
+  }
+
+  /**
+   * Renders the backlog sidebar. Hidden when the file has no unscheduled tasks.
+   */
+  private renderBacklog(): void {
+    if (!this.backlogContainer || !this.backlogPanel) return;
+
+    const hasAny = this.getUnscheduledTasks(true).length > 0;
+    const isVisible = this.toolbarEl?.style.display !== "none";
+    this.backlogContainer.style.display = hasAny && isVisible ? "flex" : "none";
+    if (!hasAny) return;
+
+    // Drop a stale filter (e.g. section renamed or removed)
+    if (
+      this.backlogSectionFilter !== null &&
+      this.backlogSectionFilter !== ALL_SECTIONS_ID &&
+      !this.sections.has(this.backlogSectionFilter)
+    ) {
+      this.backlogSectionFilter = null;
+    }
+
+    const sectionOptions = [
+      { value: "", label: "Current section" },
+      { value: ALL_SECTIONS_ID, label: "All sections" },
+    ];
+    this.sections.forEach((section) => {
+      if (section.unscheduledTasks.length > 0) {
+        sectionOptions.push({ value: section.id, label: section.name });
+      }
+    });
+
+    const filter = this.backlogSectionFilter ?? this.activeSectionId;
+    const items: BacklogItem[] = this.getUnscheduledTasks().map((task) => ({
+      id: task.id,
+      title: task.title,
+      sectionName: this.sections.get(task.sectionId)?.name ?? task.sectionId,
+      completed: task.completed,
+    }));
+
+    this.backlogPanel.render(items, {
+      collapsed: this.backlogCollapsed,
+      sectionOptions,
+      sectionFilter: this.backlogSectionFilter ?? "",
+      showSectionNames: filter === ALL_SECTIONS_ID,
+    });
+  }
+
+  /**
+   * Accepts backlog tasks dropped onto calendar days, time slots or overview days.
+   */
+  private registerBacklogDropTarget(el: HTMLElement): void {
+    let highlightEl: HTMLElement | null = null;
+    const setHighlight = (target: HTMLElement | null) => {
+      if (highlightEl === target) return;
+      highlightEl?.removeClass("is-backlog-drop-target");
+      highlightEl = target;
+      highlightEl?.addClass("is-backlog-drop-target");
+    };
+
+    this.registerDomEvent(el, "dragover", (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes(BACKLOG_DRAG_TYPE)) return;
+      const target = this.getBacklogDropTarget(e);
+      setHighlight(target?.el ?? null);
+      if (!target) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+    });
+
+    this.registerDomEvent(el, "dragleave", (e: DragEvent) => {
+      if (!el.contains(e.relatedTarget as Node | null)) setHighlight(null);
+    });
+
+    this.registerDomEvent(el, "drop", (e: DragEvent) => {
+      setHighlight(null);
+      const id = e.dataTransfer?.getData(BACKLOG_DRAG_TYPE);
+      const target = this.getBacklogDropTarget(e);
+      if (!id || !target) return;
+      e.preventDefault();
+      this.scheduleBacklogTask(id, target.date, target.hasTime);
+    });
+  }
+
+  /**
+   * Resolves the date (and time, in week/day views) under a drag pointer.
+   * Mirrors how @taskgenius/calendar maps month rows and day columns to dates.
+   */
+  private getBacklogDropTarget(
+    e: DragEvent,
+  ): { el: HTMLElement; date: moment.Moment; hasTime: boolean } | null {
+    const target = e.target instanceof Element ? e.target : null;
+    if (!target) return null;
+
+    // Year / multi-month overview day
+    const overviewDay = target.closest<HTMLElement>(
+      ".calendar-overview-day[data-date]",
+    );
+    if (overviewDay?.dataset.date) {
+      return {
+        el: overviewDay,
+        date: moment(overviewDay.dataset.date, "YYYY-MM-DD"),
+        hasTime: false,
+      };
+    }
+
+    // Week / day view time column (spans the whole day vertically)
+    const column = target.closest<HTMLElement>(".tg-day-column[data-date]");
+    if (column?.dataset.date) {
+      const rect = column.getBoundingClientRect();
+      const rawMinutes = ((e.clientY - rect.top) / (rect.height || 1)) * 1440;
+      const minutes = Math.max(
+        0,
+        Math.min(1440 - 15, Math.round(rawMinutes / 15) * 15),
+      );
+      return {
+        el: column,
+        date: moment(column.dataset.date, "YYYY-MM-DD").add(minutes, "minute"),
+        hasTime: true,
+      };
+    }
+
+    // Month view row (7 equal-width day cells)
+    const row = target.closest<HTMLElement>(".tg-month-row[data-date]");
+    if (row?.dataset.date) {
+      const rect = row.getBoundingClientRect();
+      const cellIndex = Math.floor(
+        (e.clientX - rect.left) / (rect.width / 7 || 1),
+      );
+      const dayIndex = Math.max(0, Math.min(6, cellIndex));
+      const cells = row.querySelectorAll<HTMLElement>(".tg-month-cell");
+      return {
+        el: cells[dayIndex] ?? row,
+        date: moment(row.dataset.date, "YYYY-MM-DD").add(dayIndex, "day"),
+        hasTime: false,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Schedules a backlog task by appending a date in the recognized format.
+   */
+  private async scheduleBacklogTask(
+    id: string,
+    date: moment.Moment,
+    hasTime: boolean,
+  ): Promise<void> {
+    if (!this.file) return;
+
+    const task = this.getUnscheduledTasks(true).find((t) => t.id === id);
+    if (!task) return;
+
+    try {
+      const lines = await this.readTaskLines(task);
+
+      const lineIndex = await this.locateTaskLine(task, lines);
+      if (lineIndex === -1) return;
+
+      const datePart = this.buildDatePart(
+        this.settings.writeDateFormat,
+        date.format("YYYY-MM-DD"),
+        undefined,
+        hasTime ? date.format("HH:mm") : undefined,
+      );
+      lines[lineIndex] = appendToTaskLine(task.markdown, datePart);
+
+      const timeStr = hasTime ? ` ${date.format("HH:mm")}` : "";
+      await this.writeTaskLines(
+        task,
+        lines,
+        `Scheduled for ${date.format("YYYY-MM-DD")}${timeStr}`,
+      );
+    } catch (error) {
+      console.error("CalendarView: Failed to schedule task", error);
+      new Notice("Failed to schedule task");
+    }
+  }
+
+  /**
+   * Gets the tasks of the active section (all sections in the "All" view).
+   */
+  protected getActiveSectionTasks(): TaskLine[] {
+    if (this.activeSectionId === ALL_SECTIONS_ID) {
+      // Collect all tasks from all sections
+      const tasks: TaskLine[] = [];
+      this.sections.forEach((section) => {
+        tasks.push(...section.tasks);
+      });
+      return tasks;
+    }
+
+    return this.sections.get(this.activeSectionId)?.tasks ?? [];
+  }
+
+  /**
+   * Exports the active section's tasks (or all tasks in the "All" view) to
+   * an .ics file next to the calendar file. Re-exporting overwrites the file,
+   * and stable UIDs let subscribed calendars update instead of duplicating
+   * (unanchored tasks get a new UID when their text changes).
+   */
+  async exportToIcs(): Promise<void> {
+    if (!this.file) return;
+
+    const section =
+      this.activeSectionId === ALL_SECTIONS_ID
+        ? null
+        : this.sections.get(this.activeSectionId);
+
+    const events: IcsExportEvent[] = this.getActiveSectionTasks().map(
+      (task) => {
+        const event = this.buildEvent(task);
+        return {
+          id: task.id,
+          title: task.title,
+          start: event.start,
+          end: event.end,
+          completed: task.completed,
+          category: this.sections.get(task.sectionId)?.name,
+          color: this.resolveCssColor(event.color),
+          description: task.filePath ? `From ${task.filePath}` : undefined,
+          modified: this.getTaskFile(task)?.stat.mtime,
+        };
+      },
+    );
+
+    // Only name the file after the section when the calendar has several
+    const hasSections = this.sections.size > 1;
+    const suffix =
+      section && hasSections
+        ? ` - ${section.name.replace(/[\\/:*?"<>|#^[\]]/g, "")}`
+        : "";
+    const folder = this.file.parent?.path ?? "";
+    const path = normalizePath(`${folder}/${this.file.basename}${suffix}.ics`);
+
+    try {
+      const content = IcsService.exportEvents(
+        events,
+        section && hasSections
+          ? `${this.file.basename} - ${section.name}`
+          : this.file.basename,
+        section ? `${this.file.path}#${section.id}` : this.file.path,
+      );
+
+      const existing = this.app.vault.getAbstractFileByPath(path);
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, content);
+      } else {
+        await this.app.vault.create(path, content);
+      }
+
+      new Notice(`Exported ${events.length} tasks to ${path}`);
+    } catch (error) {
+      console.error("CalendarView: Failed to export calendar", error);
+      new Notice("Failed to export calendar");
+    }
+  }
+
+  /**
+   * Opens the import modal for choosing an .ics file and target section.
+   */
+  openIcsImport(): void {
+    if (!this.file) return;
+
+    // Only headings of the calendar file itself can receive imported tasks
+    const sectionInfos = Array.from(this.sections.values())
+      .filter((section) => !section.filePath)
+      .map((section) => ({ id: section.id, name: section.name }));
+    if (sectionInfos.length === 0) return;
+
+    const defaultSectionId = sectionInfos.some(
+      (section) => section.id === this.activeSectionId,
+    )
+      ? this.activeSectionId
+      : sectionInfos[0].id;
+
+    new IcsImportModal(
+      this.app,
+      sectionInfos,
+      defaultSectionId,
+      (content, sectionId) => this.importIcsEvents(content, sectionId),
+    ).open();
+  }
+
+  /**
+   * Writes the events of an .ics file as task lines at the end of a section.
+   * Events already present (same UID, or same title on the same date) are
+   * skipped, so importing an updated file only adds the new events.
+   * @param content - The .ics content
+   * @param sectionId - Target section of the calendar file
+   */
+  private async importIcsEvents(
+    content: string,
+    sectionId: string,
+  ): Promise<void> {
+    const section = this.sections.get(sectionId);
+    if (!this.file || !section) return;
+
+    try {
+      const events = IcsService.parseEvents(content);
+      if (events.length === 0) {
+        new Notice("No events found in the file");
+        return;
+      }
+
+      // Collect block IDs and title/date pairs of the existing tasks
+      const blockIds = new Set<string>();
+      const titleDates = new Set<string>();
+      this.sections.forEach((s) => {
+        for (const task of s.tasks) {
+          const blockId = splitBlockId(task.markdown).blockId;
+          if (blockId) blockIds.add(blockId);
+          for (const field of task.allDates) {
+            titleDates.add(
+              `${task.title.toLowerCase()}|${field.date.format("YYYY-MM-DD")}`,
+            );
+          }
+        }
+      });
+
+      const dateFormat = this.settings.writeDateFormat;
+      const newLines: string[] = [];
+      let skipped = 0;
+      let unsupportedRules = 0;
+
+      for (const event of events) {
+        const blockId = event.uid ? `ics-${hashString(event.uid)}` : undefined;
+        const titleDate = `${event.title.toLowerCase()}|${event.startDate}`;
+        if ((blockId && blockIds.has(blockId)) || titleDates.has(titleDate)) {
+          skipped++;
+          continue;
+        }
+        if (blockId) blockIds.add(blockId);
+        titleDates.add(titleDate);
+        if (event.unsupportedRecurrence) unsupportedRules++;
+
+        const datePart = this.buildDatePart(
+          dateFormat,
+          event.startDate,
+          event.endDate,
+          event.startTime,
+          event.endTime,
+        );
+        const recurrencePart = event.recurrence
+          ? dateFormat === "dataview"
+            ? ` [repeat:: ${event.recurrence}]`
+            : ` 🔁 ${event.recurrence}`
+          : "";
+        const blockIdPart = blockId ? ` ^${blockId}` : "";
+        newLines.push(
+          `- [${event.completed ? "x" : " "}] ${event.title}${recurrencePart} ${datePart}${blockIdPart}`,
+        );
+      }
+
+      let message = `Imported ${newLines.length} events into ${section.name}`;
+      if (skipped > 0) message += `, skipped ${skipped} already present`;
+      if (unsupportedRules > 0) {
+        message += `. ${unsupportedRules} repeat rules could not be converted and were imported as single events`;
+      }
+
+      if (newLines.length > 0) {
+        const lines = await this.readTaskLines(section);
+        lines.splice(this.getInsertIndex(section, lines), 0, ...newLines);
+        await this.writeTaskLines(section, lines, message);
+      } else {
+        new Notice(message);
+      }
+    } catch (error) {
+      console.error("CalendarView: Failed to import calendar", error);
+      new Notice("Failed to import calendar");
+    }
+  }
+
+  /**
+   * Resolves CSS variable colors (e.g. the theme accent) to their value.
+   */
+  private resolveCssColor(color?: string): string | undefined {
+    return color ? resolveCssVariables(color) || undefined : undefined;
+  }
+
+  /**
+   * Converts a task into a calendar event.
+   * Start/end strings use "YYYY-MM-DD HH:mm" for timed tasks and
+   * "YYYY-MM-DD" (inclusive end) for all-day tasks.
+   */
+  private buildEvent(
+    task: TaskLine,
+  ): CalendarEvent & { durationEditable?: boolean } {
+    // Determine start and end times
+    let startStr: string;
+    let endStr: string;
+
+    // @taskgenius/calendar expects format: "YYYY-MM-DD HH:mm" (space, not T)
+    const DATE_TIME_FORMAT = "YYYY-MM-DD HH:mm";
+
+    if (task.isKanban && task.hasTime) {
+      // Kanban with time: ends after its duration (30 min by default)
+      const timed = resolveTimeBlock(task.date, true, task.timeBlock);
+      startStr = task.date.format(DATE_TIME_FORMAT);
+      endStr = (timed?.end ?? task.date).format(DATE_TIME_FORMAT);
+    } else {
+      // Check for explicit start/due dates for multi-day or timed tasks
+      const startField = task.allDates.find(
+        (d) => d.type === DateFieldType.Start,
+      );
+      const dueField = task.allDates.find((d) => d.type === DateFieldType.Due);
+
+      const DATE_ONLY_FORMAT = "YYYY-MM-DD";
+
+      if (startField && dueField) {
+        // Task with both start and due dates
+        if (startField.hasTime || dueField.hasTime) {
+          startStr = startField.date.format(DATE_TIME_FORMAT);
+          // If due has no explicit time, set to end of day (23:59) to include
+          // the full day in calendar rendering
+          if (dueField.hasTime) {
+            endStr = dueField.date.format(DATE_TIME_FORMAT);
           } else {
-            startStr = dueField.date.format(DATE_ONLY_FORMAT);
-            endStr = dueField.date.format(DATE_ONLY_FORMAT);
+            endStr = dueField.date
+              .clone()
+              .hour(23)
+              .minute(59)
+              .format(DATE_TIME_FORMAT);
           }
-        } else if (task.hasTime) {
-          // Single date with time (from primary date): use 30 min default duration
-          startStr = task.date.format(DATE_TIME_FORMAT);
-          endStr = moment(task.date)
-            .add(30, "minutes")
-            .format(DATE_TIME_FORMAT);
+        } else {
+          // Date-only format
+          startStr = startField.date.format(DATE_ONLY_FORMAT);
+          endStr = dueField.date.format(DATE_ONLY_FORMAT);
+        }
+      } else {
+        // Single date (start, else due, else primary): timed by its own time
+        // or the task's time range / leading time, lasting until the range's
+        // end, for its duration, or 30 min by default
+        const field = startField ?? dueField;
+        const date = field?.date ?? task.date;
+        const hasTime = !!(field ? field.hasTime : task.hasTime);
+        const timed = resolveTimeBlock(date, hasTime, task.timeBlock);
+        if (timed) {
+          startStr = timed.start.format(DATE_TIME_FORMAT);
+          endStr = timed.end.format(DATE_TIME_FORMAT);
         } else {
           // Single-day task without time: start and end are the same
-          startStr = task.date.format("YYYY-MM-DD");
-          endStr = task.date.format("YYYY-MM-DD");
+          startStr = date.format(DATE_ONLY_FORMAT);
+          endStr = date.format(DATE_ONLY_FORMAT);
         }
       }
+    }
+
+    return {
+      id: task.id,
+      title: task.title,
+      start: startStr,
+      end: endStr,
+      color: this.getTaskColor(task),
+      metadata: {
+        lineIndex: task.lineIndex,
+        completed: task.completed,
+        status: task.status,
+      },
+      // Disable resize for Kanban format
+      durationEditable: !task.isKanban,
+    };
+  }
+
+  /**
+   * Renders the year / multi-month overview from the computed events.
+   * Multi-day events count towards every day they span.
+   */
+  private renderOverview(events: CalendarEvent[]): void {
+    if (!this.monthOverview || !isOverviewView(this.currentView)) return;
+
+    const days = new Map<string, OverviewDayData>();
+    for (const event of events) {
+      const start = moment(event.start, "YYYY-MM-DD");
+      const end = moment(event.end, "YYYY-MM-DD");
+      const day = start.clone();
+      // Cap span to a year to guard against malformed ranges
+      for (let i = 0; i < 366 && !day.isAfter(end, "day"); i++) {
+        const key = day.format("YYYY-MM-DD");
+        const data = days.get(key) ?? { count: 0, colors: [] };
+        data.count++;
+        if (event.color) data.colors.push(event.color);
+        days.set(key, data);
+        day.add(1, "day");
+      }
+    }
 
-      return {
-        id: task.id,
-        title: task.title,
-        start: startStr,
-        end: endStr,
-        color: this.getTaskColor(task),
-        metadata: {
-          lineIndex: task.lineIndex,
-          completed: task.completed,
-        },
-        // Disable resize for Kanban format
-        durationEditable: !task.isKanban,
-      };
-    });
+    const { start } = this.getVisibleRange();
+    const isYear = this.currentView === "year";
+    this.monthOverview.render(
+      start,
+      isYear ? 12 : this.settings.multiMonthCount,
+      this.settings.weekStart,
+      days,
+      isYear ? "year" : "strip",
+    );
+  }
 
-    this.calendar.setEvents(events);
+  /**
+   * Creates virtual events for the future occurrences of a recurring task.
+   * Occurrences follow the recurrence reference date, as completion does
+   * (see buildNextOccurrenceLine), and each keeps the duration of the
+   * original event, shifted by the reference date's day offset.
+   * Completed tasks and "when done" rules are not expanded, since their next
+   * occurrence only exists once the task is completed.
+   */
+  private expandRecurringEvent(
+    task: TaskLine,
+    baseEvent: CalendarEvent,
+    range: { start: moment.Moment; end: moment.Moment },
+  ): CalendarEvent[] {
+    const rule = task.recurrence;
+    const reference = this.getRecurrenceReference(task)?.date;
+    if (!rule || !reference || rule.whenDone || task.completed) return [];
+
+    const format =
+      baseEvent.start.length > 10 ? "YYYY-MM-DD HH:mm" : "YYYY-MM-DD";
+    const baseStart = moment(baseEvent.start, format);
+    const baseEnd = moment(baseEvent.end, format);
+    const anchorDay = reference.clone().startOf("day");
+
+    // The event may start before or end after its reference date, so widen
+    // the range to include occurrences whose event overlaps it
+    const rangeStart = range.start
+      .clone()
+      .add(anchorDay.diff(baseEnd.clone().startOf("day"), "days"), "days");
+    const rangeEnd = range.end
+      .clone()
+      .add(anchorDay.diff(baseStart.clone().startOf("day"), "days"), "days");
+
+    return expandOccurrences(rule, reference, rangeStart, rangeEnd).map(
+      (occurrence) => {
+        const dayOffset = occurrence
+          .clone()
+          .startOf("day")
+          .diff(anchorDay, "days");
+        const occurrenceDate = occurrence.format("YYYY-MM-DD");
+
+        return {
+          ...baseEvent,
+          id: `${task.id}${OCCURRENCE_ID_SEPARATOR}${occurrenceDate}`,
+          start: baseStart.clone().add(dayOffset, "days").format(format),
+          end: baseEnd.clone().add(dayOffset, "days").format(format),
+          metadata: {
+            ...baseEvent.metadata,
+            recurrenceOf: task.id,
+            occurrenceDate,
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Checks whether a calendar event is a virtual recurrence occurrence.
+   */
+  private isOccurrenceEvent(event: CalendarEvent): boolean {
+    return typeof event.metadata?.recurrenceOf === "string";
+  }
+
+  /**
+   * Resolves the task backing a calendar event.
+   * Virtual recurrence occurrences resolve to their originating task.
+   */
+  private getTaskForEvent(event: CalendarEvent): TaskLine | undefined {
+    const taskId = this.isOccurrenceEvent(event)
+      ? (event.metadata?.recurrenceOf as string)
+      : event.id;
+    return this.currentEvents.get(taskId);
   }
 
   /**
    * Gets the color for a task based on color rules and settings
    */
   private getTaskColor(task: TaskLine): string {
-    if (!this.file) {
+    if (!this.isLoaded()) {
       return task.completed ? "var(--text-muted)" : "var(--interactive-accent)";
     }
 
     // Determine if dark mode is active
     const isDarkMode = document.body.classList.contains("theme-dark");
 
-    // Convert sections map to format expected by ColorService
-    const sectionsForColor = new Map<string, { id: string; name: string }>();
-    this.sections.forEach((section, id) => {
-      sectionsForColor.set(id, { id: section.id, name: section.name });
-    });
-
     // Get color from service
-    const isAllSectionsView = this.activeSectionId === ALL_SECTIONS_ID;
-    return ColorService.getEventColor(
-      {
-        title: task.title,
-        markdown: task.markdown,
-        date: task.date,
-        dateType: task.dateType,
-        allDates: task.allDates,
-        completed: task.completed,
-        sectionId: task.sectionId,
-      },
-      this.file.path,
-      sectionsForColor,
-      this.plugin.settings,
+    return ColorService.resolveColor(
+      this.getTaskColorSource(task).theme,
       isDarkMode,
+    );
+  }
+
+  /**
+   * Gets what gives a task its color (a rule, section, calendar or default)
+   */
+  private getTaskColorSource(task: TaskLine): ColorSource {
+    const isAllSectionsView = this.activeSectionId === ALL_SECTIONS_ID;
+    return ColorService.getColorSource(
+      this.getTaskColorData(task),
+      this.file?.path ?? "",
+      this.getColorSections(),
+      this.settings,
       isAllSectionsView,
     );
   }
 
+  /**
+   * Gets the styling color rules give a task (text color, border, icon...)
+   */
+  private getTaskStyle(task: TaskLine): EventStyle {
+    return ColorService.getEventStyle(
+      this.getTaskColorData(task),
+      this.file?.path ?? "",
+      this.getColorSections(),
+      this.settings,
+      document.body.classList.contains("theme-dark"),
+    );
+  }
+
+  /**
+   * Converts a task to the data color rule conditions are checked against
+   */
+  private getTaskColorData(task: TaskLine): TaskColorData {
+    return {
+      title: task.title,
+      markdown: task.markdown,
+      date: task.date,
+      dateType: task.dateType,
+      allDates: task.allDates,
+      completed: task.completed,
+      status: task.status,
+      statusName: this.getTaskStatus(task.status).name,
+      sectionId: task.sectionId,
+      hasTime:
+        !!task.hasTime ||
+        !!task.timeBlock?.startTime ||
+        task.allDates.some((d) => d.hasTime),
+      filePath: task.filePath ?? this.file?.path ?? "",
+    };
+  }
+
+  /**
+   * Converts the sections map to the format expected by ColorService
+   */
+  private getColorSections(): Map<string, SectionColorData> {
+    const sectionsForColor = new Map<string, SectionColorData>();
+    this.sections.forEach((section, id) => {
+      sectionsForColor.set(id, { id: section.id, name: section.name });
+    });
+    return sectionsForColor;
+  }
+
   /**
    * Parses markdown content to extract sections and task lines with dates.
    * Tasks are grouped by their preceding heading (# or ##).
@@ -1622,7 +3756,7 @@ export class CalendarView extends TextFileView {
    * - Dataview inline: [due:: YYYY-MM-DD] (start:: YYYY-MM-DD)
    * - Simple: @ YYYY-MM-DD
    */
-  private parseMarkdown(content: string): void {
+  protected parseMarkdown(content: string): void {
     const lines = content.split("\n");
     this.currentEvents.clear();
     this.sections.clear();
@@ -1639,8 +3773,11 @@ export class CalendarView extends TextFileView {
       startLine: 0,
       endLine: lines.length,
       tasks: [],
+      unscheduledTasks: [],
     });
 
+    const ids = new TaskIdGenerator();
+
     lines.forEach((line, index) => {
       // Check for heading (section boundary)
       const headingMatch = line.match(this.SECTION_REGEX);
@@ -1680,171 +3817,624 @@ export class CalendarView extends TextFileView {
           startLine: index + 1,
           endLine: lines.length,
           tasks: [],
+          unscheduledTasks: [],
         });
         currentSectionId = uniqueId;
         return;
       }
 
-      // Check for task line (must have checkbox prefix)
-      const prefixMatch = line.match(this.TASK_PREFIX_REGEX);
-      if (!prefixMatch) return;
+      this.parseTaskLine(line, index, currentSectionId, ids);
+    });
 
-      const checkMark = prefixMatch[2];
-      const contentAfterCheckbox = line.slice(prefixMatch[0].length);
+    // Append tasks aggregated from source notes, one section per note
+    this.sourceContents.forEach((sourceContent, path) =>
+      this.parseSourceFile(path, sourceContent),
+    );
+  }
 
-      // Extract dates using the new parser with configured priority and format filter
-      const formatFilter = this.plugin.settings.recognizedDateFormat;
-      const primaryDate = getPrimaryDate(
-        contentAfterCheckbox,
-        this.plugin.settings.datePriority,
-        formatFilter,
-      );
-      if (!primaryDate) return; // Skip tasks without dates
+  /**
+   * Parses a note listed in the calendar's sources into its own section.
+   * Headings in source notes are not split into sub-sections.
+   */
+  private parseSourceFile(path: string, content: string): void {
+    const lines = content.split("\n");
+    const name = path.split("/").pop()?.replace(/\.md$/, "") || path;
 
-      // Get all dates for metadata (with same format filter)
-      const allDates = extractAllDates(contentAfterCheckbox, formatFilter);
+    this.sections.set(path, {
+      id: path,
+      name,
+      level: 1,
+      parentId: null,
+      startLine: 0,
+      endLine: lines.length,
+      tasks: [],
+      unscheduledTasks: [],
+      filePath: path,
+    });
+
+    const ids = new TaskIdGenerator();
+    lines.forEach((line, index) =>
+      this.parseTaskLine(line, index, path, ids, path),
+    );
+  }
 
-      // Extract clean title (remove all date metadata)
-      const cleanTitle =
-        stripDates(contentAfterCheckbox).trim() || "Untitled Task";
+  /**
+   * Re-parses a single source note from the source contents, or drops its
+   * section and tasks when it is no longer a source. The re-parsed section
+   * is added after the others.
+   */
+  protected reparseSourceFile(path: string): void {
+    this.sections.delete(path);
+    this.currentEvents.forEach((task, id) => {
+      if (task.filePath === path) this.currentEvents.delete(id);
+    });
+
+    const content = this.sourceContents.get(path);
+    if (content !== undefined) this.parseSourceFile(path, content);
+  }
 
-      const task: TaskLine = {
-        id: index.toString(),
+  /**
+   * Parses a single line and, if it is a task, adds it to the given section.
+   * Tasks without a recognized date are collected for the backlog.
+   *
+   * @param ids - ID generator for the file being parsed
+   * @param filePath - Source note path, for tasks outside the calendar file
+   */
+  private parseTaskLine(
+    line: string,
+    index: number,
+    sectionId: string,
+    ids: TaskIdGenerator,
+    filePath?: string,
+  ): void {
+    // Check for task line (must have checkbox prefix)
+    const prefixMatch = line.match(this.TASK_PREFIX_REGEX);
+    if (!prefixMatch) return;
+
+    const checkMark = prefixMatch[2];
+    const completed = isDoneStatusType(this.getTaskStatus(checkMark).type);
+    const contentAfterCheckbox = line.slice(prefixMatch[0].length);
+    // Block IDs are hidden in reading view, so keep them out of titles
+    const titleContent = splitBlockId(contentAfterCheckbox).content;
+    const localId = ids.next(line);
+    const id = filePath
+      ? `${filePath}${SOURCE_ID_SEPARATOR}${localId}`
+      : localId;
+    const section = this.sections.get(sectionId);
+
+    // Extract dates using the new parser with configured priority and format filter
+    const formatFilter = this.settings.recognizedDateFormats;
+    const primaryDate = getPrimaryDate(
+      contentAfterCheckbox,
+      this.settings.datePriority,
+      formatFilter,
+    );
+    if (!primaryDate) {
+      // Collect tasks without dates for the backlog
+      section?.unscheduledTasks.push({
+        id,
         lineIndex: index,
         markdown: line,
-        title: cleanTitle,
-        date: primaryDate.date,
-        dateType: primaryDate.type,
-        allDates,
-        hasTime: primaryDate.hasTime,
-        isKanban: primaryDate.format === "kanban",
-        completed: checkMark !== " ",
-        sectionId: currentSectionId,
+        title:
+          stripTimeBlock(stripRecurrence(titleContent)).trim() ||
+          "Untitled Task",
+        completed,
+        status: checkMark,
+        sectionId,
+        filePath,
+      });
+      return;
+    }
+
+    // Get all dates for metadata (with same format filter)
+    const allDates = extractAllDates(contentAfterCheckbox, formatFilter);
+
+    // Extract recurrence rule (🔁 every ...), if any
+    const recurrence = parseRecurrence(contentAfterCheckbox) ?? undefined;
+
+    // Extract time range / leading time and duration (dates can carry
+    // times of their own, so look at the text without them)
+    const timeBlock = parseTimeBlock(stripDates(titleContent)) ?? undefined;
+
+    // Extract clean title (remove all date, time and recurrence metadata)
+    const cleanTitle =
+      stripTimeBlock(stripRecurrence(stripDates(titleContent))).trim() ||
+      "Untitled Task";
+
+    const task: TaskLine = {
+      id,
+      lineIndex: index,
+      markdown: line,
+      title: cleanTitle,
+      date: primaryDate.date,
+      dateType: primaryDate.type,
+      allDates,
+      hasTime: primaryDate.hasTime,
+      isKanban: primaryDate.format === "kanban",
+      completed,
+      status: checkMark,
+      sectionId,
+      recurrence,
+      timeBlock,
+      filePath,
+    };
+
+    this.currentEvents.set(task.id, task);
+    section?.tasks.push(task);
+  }
+
+  /**
+   * Handles event click - opens popover for editing task.
+   * Checkbox clicks are handled separately by the checkbox element's own event listener.
+   */
+  private handleEventClick(event: CalendarEvent, jsEvent?: MouseEvent): void {
+    if (!this.isLoaded()) return;
+
+    const task = this.getTaskForEvent(event);
+    if (!task) return;
+
+    // Shift/ctrl-click adds or removes the event from the selection
+    const multiSelect = jsEvent
+      ? jsEvent.shiftKey || jsEvent.ctrlKey || jsEvent.metaKey
+      : this.lastPointerMultiSelect;
+    if (multiSelect) {
+      this.toggleSelection(event);
+      return;
+    }
+    if (this.selectedIds.size > 0) this.clearSelection();
+
+    // Close existing popover if any
+    if (this.activePopover) {
+      this.activePopover.close();
+      this.activePopover = null;
+    }
+
+    const clickPosition = jsEvent
+      ? { x: jsEvent.clientX, y: jsEvent.clientY }
+      : this.lastPointerPosition
+        ? {
+            x: this.lastPointerPosition.x,
+            y: this.lastPointerPosition.y,
+          }
+        : null;
+
+    const anchorElFromEvent =
+      jsEvent?.currentTarget instanceof HTMLElement
+        ? jsEvent.currentTarget
+        : null;
+    const anchorEl =
+      anchorElFromEvent ?? this.eventElementMap.get(event.id) ?? null;
+    const anchorPosition =
+      anchorEl !== null
+        ? (() => {
+            const rect = anchorEl.getBoundingClientRect();
+            return {
+              x: rect.left + rect.width / 2,
+              y: rect.top + rect.height + 8,
+            };
+          })()
+        : null;
+
+    // Determine click position (fallback to event anchor or center of screen if unavailable)
+    const position = clickPosition ??
+      anchorPosition ?? { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+
+    // Open new popover
+    this.activePopover = new TaskPopover(
+      task,
+      position,
+      this.settings.taskStatuses,
+      (id, updates) => this.updateTask(id, updates),
+      (id) => this.deleteTask(id),
+      (lineIndex) => this.jumpToLine(lineIndex, task.filePath),
+    );
+  }
+
+  /**
+   * Adds an event's task to the selection, or removes it.
+   */
+  private toggleSelection(event: CalendarEvent): void {
+    if (this.isOccurrenceEvent(event)) {
+      new Notice("Select the original recurring task instead");
+      return;
+    }
+
+    if (this.selectedIds.has(event.id)) {
+      this.selectedIds.delete(event.id);
+    } else {
+      this.selectedIds.add(event.id);
+    }
+    this.activePopover?.close();
+    this.activePopover = null;
+    this.updateCalendarEvents();
+  }
+
+  /**
+   * Deselects every task.
+   */
+  clearSelection(): void {
+    if (this.selectedIds.size === 0) return;
+    this.selectedIds.clear();
+    this.updateCalendarEvents();
+  }
+
+  /**
+   * Shows the selection toolbar while tasks are selected.
+   */
+  private renderSelectionToolbar(): void {
+    if (!this.selectionBarContainer || !this.selectionToolbar) return;
+
+    const toolbarVisible = this.toolbarEl?.style.display !== "none";
+    const visible = this.selectedIds.size > 0 && toolbarVisible;
+    this.selectionBarContainer.style.display = visible ? "flex" : "none";
+    if (visible) this.selectionToolbar.render(this.selectedIds.size);
+  }
+
+  /**
+   * Reads the files of the selected tasks and finds each task's line.
+   * Tasks whose line changed since are left out.
+   *
+   * @returns The lines and located tasks per file (keyed by source path,
+   *   "" for the calendar file)
+   */
+  private async locateSelection(): Promise<Map<string, SelectedFileLines>> {
+    const files = new Map<string, SelectedFileLines>();
+    for (const id of this.selectedIds) {
+      const task = this.currentEvents.get(id);
+      if (!task) continue;
+
+      const key = task.filePath ?? "";
+      let file = files.get(key);
+      if (!file) {
+        file = {
+          item: { filePath: task.filePath },
+          lines: await this.readTaskLines(task),
+          tasks: [],
+        };
+        files.set(key, file);
+      }
+
+      const index = relocateTaskLine(file.lines, task);
+      if (index !== -1) file.tasks.push({ task, index });
+    }
+    return files;
+  }
+
+  /**
+   * Edits every selected task, writing each file once as a single
+   * undoable edit.
+   *
+   * @param transform - Returns the lines replacing the task's line (none
+   *   deletes it), or null to skip the task
+   * @param describe - Builds the notice from the number of edited tasks
+   */
+  private async editSelection(
+    transform: (task: TaskLine, line: string) => string[] | null,
+    describe: (count: number) => string,
+  ): Promise<void> {
+    if (!this.isLoaded() || this.selectedIds.size === 0) return;
+
+    try {
+      const files = await this.locateSelection();
+      let edited = 0;
+      for (const file of files.values()) {
+        // Bottom-up, so added or removed lines don't move the others
+        const tasks = [...file.tasks].sort((a, b) => b.index - a.index);
+        for (const { task, index } of tasks) {
+          const replacement = transform(task, file.lines[index]);
+          if (!replacement) continue;
+          file.lines.splice(index, 1, ...replacement);
+          edited++;
+        }
+      }
+
+      if (edited === 0) {
+        new Notice("None of the selected tasks could be changed");
+        return;
+      }
+
+      const skipped = this.selectedIds.size - edited;
+      const message =
+        describe(edited) + (skipped > 0 ? ` (${skipped} skipped)` : "");
+      await this.writeEdits(message, Array.from(files.values()));
+    } catch (error) {
+      console.error("CalendarView: Failed to update selected tasks", error);
+      new Notice("Failed to update tasks");
+    }
+  }
+
+  /**
+   * Shifts the selected tasks by an offset, or moves them to a date.
+   * All start, scheduled and due dates move together, so multi-day tasks
+   * keep their span; times of day are kept.
+   */
+  private async rescheduleSelection(reschedule: BulkReschedule): Promise<void> {
+    await this.editSelection(
+      (task, line) => {
+        const { amount, unit } =
+          reschedule.type === "offset"
+            ? reschedule
+            : {
+                amount: reschedule.date.diff(
+                  task.date.clone().startOf("day"),
+                  "days",
+                ),
+                unit: "days" as const,
+              };
+        return [this.shiftTaskDates(task, line, amount, unit)];
+      },
+      (count) => {
+        if (reschedule.type === "date") {
+          return `Moved ${pluralize(count, "task")} to ${reschedule.date.format("YYYY-MM-DD")}`;
+        }
+        const { amount, unit } = reschedule;
+        const offset = pluralize(Math.abs(amount), unit.slice(0, -1));
+        const direction = amount < 0 ? "back" : "forward";
+        return `Moved ${pluralize(count, "task")} ${direction} ${offset}`;
+      },
+    );
+  }
+
+  /**
+   * Marks the selected tasks as done (in place, with completion dates and
+   * next occurrences like the checkbox). Completed tasks are skipped.
+   */
+  private async completeSelection(): Promise<void> {
+    const done =
+      this.settings.taskStatuses.find((s) => s.type === TaskStatusType.Done)
+        ?.symbol ?? "x";
+    await this.editSelection(
+      (task, line) =>
+        task.completed ? null : this.buildStatusLines(task, line, done),
+      (count) => `Completed ${pluralize(count, "task")}`,
+    );
+  }
+
+  /**
+   * Deletes the selected tasks.
+   */
+  private async deleteSelection(): Promise<void> {
+    await this.editSelection(
+      () => [],
+      (count) => `Deleted ${pluralize(count, "task")}`,
+    );
+  }
+
+  /**
+   * Changes the type of the date the selected tasks are shown by
+   * (e.g. due to scheduled). Tasks that already have a date of that type,
+   * and simple or Kanban dates (which have no type), are skipped.
+   */
+  private async changeSelectionDateType(type: DateFieldType): Promise<void> {
+    await this.editSelection(
+      (task, line) => {
+        const field = task.allDates.find((d) => d.type === task.dateType);
+        if (
+          !field ||
+          field.format === "simple" ||
+          field.format === "kanban" ||
+          task.allDates.some((d) => d.type === type)
+        ) {
+          return null;
+        }
+
+        const dateUpdates = new Map<DateFieldType, string>();
+        for (const date of task.allDates) {
+          const dateType = date === field ? type : date.type;
+          dateUpdates.set(
+            dateType,
+            formatDate(dateType, date.date, date.format, date.hasTime),
+          );
+        }
+        return [this.reconstructLine(stripDates(line), dateUpdates)];
+      },
+      (count) => `Changed ${pluralize(count, "task")} to ${type} dates`,
+    );
+  }
+
+  /**
+   * Moves the selected tasks to the end of a section, possibly in another
+   * note, writing every affected file once as a single undoable edit.
+   * Tasks already in the section stay where they are.
+   */
+  private async moveSelectionToSection(sectionId: string): Promise<void> {
+    const section = this.sections.get(sectionId);
+    if (!section || !this.isLoaded() || this.selectedIds.size === 0) return;
+
+    try {
+      const files = await this.locateSelection();
+      const targetKey = section.filePath ?? "";
+      const target = files.get(targetKey) ?? {
+        item: { filePath: section.filePath },
+        lines: await this.readTaskLines(section),
+        tasks: [],
       };
+      files.set(targetKey, target);
+
+      // Insertion point in the target file's current lines
+      const insertIndex = this.getInsertIndex(section, target.lines);
+
+      const movedLines: string[] = [];
+      const removed = new Map<string, Set<number>>();
+      for (const [key, file] of files) {
+        const moving = file.tasks
+          .filter(({ task }) => task.sectionId !== sectionId)
+          .sort((a, b) => a.index - b.index);
+        movedLines.push(...moving.map(({ index }) => file.lines[index]));
+        removed.set(key, new Set(moving.map(({ index }) => index)));
+      }
 
-      this.currentEvents.set(task.id, task);
+      if (movedLines.length === 0) {
+        new Notice(`The selected tasks are already in ${section.name}`);
+        return;
+      }
 
-      const section = this.sections.get(currentSectionId);
-      if (section) {
-        section.tasks.push(task);
+      // Rebuild each file without the moved lines, inserting them into the
+      // target at the insertion point (taken before any removal)
+      for (const [key, file] of files) {
+        const skip = removed.get(key) ?? new Set<number>();
+        const lines: string[] = [];
+        file.lines.forEach((line, index) => {
+          if (key === targetKey && index === insertIndex) {
+            lines.push(...movedLines);
+          }
+          if (!skip.has(index)) lines.push(line);
+        });
+        if (key === targetKey && insertIndex >= file.lines.length) {
+          lines.push(...movedLines);
+        }
+        file.lines = lines;
       }
+
+      await this.writeEdits(
+        `Moved ${pluralize(movedLines.length, "task")} to ${section.name}`,
+        Array.from(files.values()),
+      );
+      this.clearSelection();
+    } catch (error) {
+      console.error("CalendarView: Failed to move selected tasks", error);
+      new Notice("Failed to move tasks");
+    }
+  }
+
+  /**
+   * Shows the sections the selected tasks can be moved to.
+   */
+  private showMoveSelectionMenu(evt: MouseEvent): void {
+    const menu = new Menu();
+    this.sections.forEach((section) => {
+      // Only sections backed by a file (not the vault calendar's folders)
+      if (!this.getTaskFile(section)) return;
+      menu.addItem((item) => {
+        item
+          .setTitle(section.name)
+          .setIcon(section.filePath ? "file-text" : "heading")
+          .onClick(() => this.moveSelectionToSection(section.id));
+      });
     });
+    menu.showAtMouseEvent(evt);
+  }
+
+  /**
+   * Shows the date types the selected tasks' dates can be changed to.
+   */
+  private showSelectionDateTypeMenu(evt: MouseEvent): void {
+    const menu = new Menu();
+    for (const type of [
+      DateFieldType.Due,
+      DateFieldType.Scheduled,
+      DateFieldType.Start,
+    ]) {
+      menu.addItem((item) => {
+        item
+          .setTitle(type.charAt(0).toUpperCase() + type.slice(1))
+          .onClick(() => this.changeSelectionDateType(type));
+      });
+    }
+    menu.showAtMouseEvent(evt);
   }
 
   /**
-   * Handles event click - opens popover for editing task.
-   * Checkbox clicks are handled separately by the checkbox element's own event listener.
+   * Shifts a task's start, scheduled and due dates, keeping their format
+   * and time of day. Created, done and cancelled dates are kept.
+   *
+   * @param line - The task's current line
    */
-  private handleEventClick(event: CalendarEvent, jsEvent?: MouseEvent): void {
-    if (!this.file) return;
-
-    const task = this.currentEvents.get(event.id);
-    if (!task) return;
+  private shiftTaskDates(
+    task: TaskLine,
+    line: string,
+    amount: number,
+    unit: "days" | "weeks" | "months",
+  ): string {
+    if (amount === 0) return line;
 
-    // Close existing popover if any
-    if (this.activePopover) {
-      this.activePopover.close();
-      this.activePopover = null;
+    const shifted = [
+      DateFieldType.Start,
+      DateFieldType.Scheduled,
+      DateFieldType.Due,
+    ];
+    const dateUpdates = new Map<DateFieldType, string>();
+    for (const date of task.allDates) {
+      const newDate = shifted.includes(date.type)
+        ? date.date.clone().add(amount, unit)
+        : date.date;
+      dateUpdates.set(
+        date.type,
+        formatDate(date.type, newDate, date.format, date.hasTime),
+      );
     }
-
-    const clickPosition = jsEvent
-      ? { x: jsEvent.clientX, y: jsEvent.clientY }
-      : this.lastPointerPosition
-        ? {
-            x: this.lastPointerPosition.x,
-            y: this.lastPointerPosition.y,
-          }
-        : null;
-
-    const anchorElFromEvent =
-      jsEvent?.currentTarget instanceof HTMLElement
-        ? jsEvent.currentTarget
-        : null;
-    const anchorEl =
-      anchorElFromEvent ?? this.eventElementMap.get(event.id) ?? null;
-    const anchorPosition =
-      anchorEl !== null
-        ? (() => {
-            const rect = anchorEl.getBoundingClientRect();
-            return {
-              x: rect.left + rect.width / 2,
-              y: rect.top + rect.height + 8,
-            };
-          })()
-        : null;
-
-    // Determine click position (fallback to event anchor or center of screen if unavailable)
-    const position = clickPosition ??
-      anchorPosition ?? { x: window.innerWidth / 2, y: window.innerHeight / 2 };
-
-    // Open new popover
-    this.activePopover = new TaskPopover(
-      task,
-      position,
-      (id, updates) => this.updateTask(id, updates),
-      (id) => this.deleteTask(id),
-      (lineIndex) => this.jumpToLine(lineIndex),
-    );
+    return this.reconstructLine(stripDates(line), dateUpdates);
   }
 
   /**
-   * Handles checkbox click - toggles completion and optionally moves task.
+   * Handles checkbox click - switches to the status's next status
+   * (see TaskStatus.nextSymbol) and optionally moves completed tasks.
    * Separated from handleEventClick for clarity and maintainability.
    */
   private async handleCheckboxClick(task: TaskLine): Promise<void> {
-    const { moveOnComplete } = this.plugin.settings;
-    const isCompleting = !task.completed;
+    const { moveOnComplete } = this.settings;
+    const next = this.getTaskStatus(this.getTaskStatus(task.status).nextSymbol);
+    const isCompleting = next.type === TaskStatusType.Done && !task.completed;
 
     // If completing and move-on-complete is enabled, move the task
     if (moveOnComplete && isCompleting) {
-      await this.moveTaskToCompletedSection(task);
+      await this.moveTaskToCompletedSection(task, next.symbol);
     } else {
-      // Standard in-place toggle
-      await this.toggleTaskCompletion(task);
+      // Standard in-place status change
+      await this.setTaskStatus(task, next.symbol);
     }
   }
 
+  /**
+   * Gets the configured status for a checkbox character.
+   */
+  private getTaskStatus(symbol: string): TaskStatus {
+    return findTaskStatus(this.settings.taskStatuses, symbol);
+  }
+
   /**
    * Updates a task in the markdown file.
    * Preserves the original date format (emoji, dataview, or simple).
    */
   private async updateTask(
     id: string,
-    updates: Partial<Pick<TaskLine, "title" | "date" | "completed">>,
+    updates: Partial<Pick<TaskLine, "title" | "date" | "status">>,
   ): Promise<void> {
-    if (!this.file) return;
+    if (!this.isLoaded()) return;
 
     const task = this.currentEvents.get(id);
     if (!task) return;
 
     try {
-      const lines = this.data.split("\n");
+      const lines = await this.readTaskLines(task);
 
-      // Validate line content hasn't changed
-      if (lines[task.lineIndex] !== task.markdown) {
-        new Notice("File has changed, please refresh");
-        await this.refresh();
-        return;
-      }
+      const lineIndex = await this.locateTaskLine(task, lines);
+      if (lineIndex === -1) return;
 
       // Construct new line preserving indentation and date format
       const indentation = task.markdown.match(/^(\s*)/)?.[1] || "";
-      const checkMark =
-        updates.completed !== undefined
-          ? updates.completed
-            ? "x"
-            : " "
-          : task.completed
-            ? "x"
-            : " ";
+      const oldStatus = this.getTaskStatus(task.status);
+      const newStatus = this.getTaskStatus(updates.status ?? task.status);
+      const checkMark = newStatus.symbol;
       const title = updates.title ?? task.title;
 
       // Build date string preserving original format
       let dateMetadata = "";
-      const isCompletionChange = updates.completed !== undefined;
-      const isCompleting = updates.completed === true && !task.completed;
-      const isUncompleting = updates.completed === false && task.completed;
-      const dateFormat = this.plugin.settings.recognizedDateFormat;
+      const isDone = (status: TaskStatus) =>
+        status.type === TaskStatusType.Done;
+      const isCancelled = (status: TaskStatus) =>
+        status.type === TaskStatusType.Cancelled;
+      const isCompleting = isDone(newStatus) && !isDone(oldStatus);
+      const isUncompleting = isDone(oldStatus) && !isDone(newStatus);
+      const isCancelling = isCancelled(newStatus) && !isCancelled(oldStatus);
+      const isUncancelling = isCancelled(oldStatus) && !isCancelled(newStatus);
+      // Completion and cancellation dates are added fresh below
+      const statusDates = [
+        isCompleting ? this.buildStatusDate(task, DateFieldType.Done) : null,
+        isCancelling
+          ? this.buildStatusDate(task, DateFieldType.Cancelled)
+          : null,
+      ].filter((date): date is string => date !== null);
 
       if (task.allDates.length > 0) {
         // Clone to avoid mutating original; restore time if needed
@@ -1866,18 +4456,16 @@ export class CalendarView extends TextFileView {
         }
 
         for (const dateField of task.allDates) {
-          // Handle Done date field specially during completion changes
+          // Handle Done and Cancelled date fields specially during status
+          // changes: drop them when leaving the status, and skip old ones
+          // when entering it (a fresh one is added below)
           if (dateField.type === DateFieldType.Done) {
-            if (isUncompleting) {
-              // Remove completion date when uncompleting
-              continue;
-            }
-            if (isCompleting) {
-              // Skip old done date; we'll add a fresh one below
-              continue;
-            }
+            if (isUncompleting || isCompleting) continue;
             // Keep existing done date if not changing completion status
             dateMetadata += " " + dateField.raw;
+          } else if (dateField.type === DateFieldType.Cancelled) {
+            if (isUncancelling || isCancelling) continue;
+            dateMetadata += " " + dateField.raw;
           } else if (dateField === primaryDateField) {
             // Update the primary date, preserving time if original had it
             const includeTime =
@@ -1896,42 +4484,47 @@ export class CalendarView extends TextFileView {
           }
         }
 
-        // Add completion date if newly completed (tasks/dataview formats)
-        if (
-          isCompleting &&
-          (dateFormat === "tasks" || dateFormat === "dataview")
-        ) {
-          const doneDate = formatDate(
-            DateFieldType.Done,
-            moment(),
-            dateFormat === "tasks" ? "tasks" : "dataview-bracket",
-          );
-          dateMetadata += " " + doneDate;
+        // Add completion / cancellation date (tasks/dataview formats)
+        for (const statusDate of statusDates) {
+          dateMetadata += " " + statusDate;
         }
       } else {
         // Fallback: use emoji format for due date
         const dateStr = (updates.date ?? task.date).format("YYYY-MM-DD");
         dateMetadata = ` 📅 ${dateStr}`;
 
-        // Add completion date if newly completed
-        if (
-          isCompleting &&
-          (dateFormat === "tasks" || dateFormat === "dataview")
-        ) {
-          const doneDate = formatDate(
-            DateFieldType.Done,
-            moment(),
-            dateFormat === "tasks" ? "tasks" : "dataview-bracket",
-          );
-          dateMetadata += " " + doneDate;
+        // Add completion / cancellation date
+        for (const statusDate of statusDates) {
+          dateMetadata += " " + statusDate;
         }
       }
 
-      const newLine = `${indentation}- [${checkMark}] ${title}${dateMetadata}`;
-      lines[task.lineIndex] = newLine;
+      // Keep the time block where it was written (leading time first)
+      const timeBlock = task.timeBlock;
+      const leadingPart =
+        timeBlock?.timeFormat === "leading" ? `${timeBlock.timeRaw} ` : "";
+      const timeBlockPart = [
+        timeBlock?.timeFormat === "range" ? timeBlock.timeRaw : undefined,
+        timeBlock?.durationRaw,
+      ]
+        .filter((part): part is string => !!part)
+        .map((part) => ` ${part}`)
+        .join("");
+      const recurrencePart = task.recurrence ? ` ${task.recurrence.raw}` : "";
+      const blockId = splitBlockId(task.markdown).blockId;
+      const blockIdPart = blockId ? ` ^${blockId}` : "";
+      const newLine = `${indentation}- [${checkMark}] ${leadingPart}${title}${timeBlockPart}${recurrencePart}${dateMetadata}${blockIdPart}`;
+      lines[lineIndex] = newLine;
+
+      // Recurring task completed: insert its next occurrence above it
+      const nextOccurrenceLine = isCompleting
+        ? this.buildNextOccurrenceLine(task)
+        : null;
+      if (nextOccurrenceLine) {
+        lines.splice(lineIndex, 0, nextOccurrenceLine);
+      }
 
-      await this.app.vault.modify(this.file, lines.join("\n"));
-      new Notice("Task updated");
+      await this.writeTaskLines(task, lines, "Task updated");
     } catch (error) {
       console.error("CalendarView: Failed to update task", error);
       new Notice("Failed to update task");
@@ -1942,23 +4535,19 @@ export class CalendarView extends TextFileView {
    * Deletes a task from the markdown file.
    */
   private async deleteTask(id: string): Promise<void> {
-    if (!this.file) return;
+    if (!this.isLoaded()) return;
 
     const task = this.currentEvents.get(id);
     if (!task) return;
 
     try {
-      const lines = this.data.split("\n");
+      const lines = await this.readTaskLines(task);
 
-      // Validate line content before deletion
-      if (lines[task.lineIndex] === task.markdown) {
-        lines.splice(task.lineIndex, 1);
-        await this.app.vault.modify(this.file, lines.join("\n"));
-        new Notice("Task deleted");
-      } else {
-        new Notice("Could not delete: content mismatch");
-        await this.refresh();
-      }
+      const lineIndex = await this.locateTaskLine(task, lines);
+      if (lineIndex === -1) return;
+
+      lines.splice(lineIndex, 1);
+      await this.writeTaskLines(task, lines, "Task deleted");
     } catch (error) {
       console.error("CalendarView: Failed to delete task", error);
       new Notice("Failed to delete task");
@@ -2015,15 +4604,154 @@ export class CalendarView extends TextFileView {
     return moment(newEnd);
   }
 
+  /**
+   * Gets the notation a task's dates are written in (that of its primary
+   * date), so edits never convert a Dataview task to emoji or vice versa.
+   */
+  private getLineDateFormat(task: TaskLine): ParsedDateField["format"] {
+    const field =
+      task.allDates.find((d) => d.type === task.dateType) ?? task.allDates[0];
+    if (field) return field.format;
+    const writeFormat = this.settings.writeDateFormat;
+    return writeFormat === "dataview" ? "dataview-bracket" : writeFormat;
+  }
+
+  /**
+   * Gets the notation for a date field added to a task (e.g. the start date
+   * added by resizing). Simple and Kanban dates have no field types, so
+   * those lines get the Tasks notation.
+   */
+  private getAddedFieldFormat(
+    task: TaskLine,
+  ): "tasks" | "dataview-bracket" | "dataview-paren" {
+    const format = this.getLineDateFormat(task);
+    return format === "simple" || format === "kanban" ? "tasks" : format;
+  }
+
+  /**
+   * Moves a task's leading time or time range to a new start, keeping the
+   * range's length. Tasks whose date carries the time are left unchanged.
+   *
+   * @param line - The task line with its dates already updated
+   * @param start - New start time
+   */
+  private moveTimeBlock(
+    task: TaskLine,
+    line: string,
+    start: moment.Moment,
+  ): string {
+    const timeBlock = task.timeBlock;
+    const field = task.allDates.find((d) => d.type === task.dateType);
+    if (!timeBlock?.startTime || !field || field.hasTime) return line;
+
+    const timed = resolveTimeBlock(field.date, false, timeBlock);
+    const end =
+      timed && timeBlock.endTime
+        ? start.clone().add(timed.end.diff(timed.start, "minutes"), "minutes")
+        : undefined;
+    return replaceBlockTime(line, timeBlock, start, end);
+  }
+
+  /**
+   * Writes a timed single-date task's new start and end back in the
+   * task's own notation instead of adding start/due fields:
+   * - Leading time or time range: rewritten as a range
+   *   (or start time and duration, if the task has a duration)
+   * - Time on the date: the date's time and a duration (⏱ / [duration::])
+   *
+   * @param line - The current task line
+   * @returns The updated line, or null if the task isn't a single-date
+   *   timed task or the new range doesn't fit within its day
+   */
+  private resizeTimeBlock(
+    task: TaskLine,
+    line: string,
+    newStart: moment.Moment,
+    newEnd: moment.Moment,
+  ): string | null {
+    const startField = task.allDates.find(
+      (d) => d.type === DateFieldType.Start,
+    );
+    const dueField = task.allDates.find((d) => d.type === DateFieldType.Due);
+    if (startField && dueField) return null;
+
+    // Same field buildEvent times the event from
+    const field =
+      startField ??
+      dueField ??
+      task.allDates.find((d) => d.type === task.dateType);
+    const timeBlock = task.timeBlock;
+    if (!field || (!field.hasTime && !timeBlock?.startTime)) return null;
+
+    const dayEnd = field.date.clone().startOf("day").add(1, "day");
+    if (
+      !newStart.isSame(field.date, "day") ||
+      !newEnd.isAfter(newStart) ||
+      newEnd.isAfter(dayEnd)
+    ) {
+      return null;
+    }
+
+    const minutes = newEnd.diff(newStart, "minutes");
+    const setDuration = (text: string) =>
+      timeBlock?.durationRaw && timeBlock.durationFormat
+        ? text.replace(
+            timeBlock.durationRaw,
+            formatDurationField(minutes, timeBlock.durationFormat),
+          )
+        : appendToTaskLine(
+            text,
+            formatDurationField(minutes, this.getAddedFieldFormat(task)),
+          );
+
+    if (!field.hasTime && timeBlock?.timeRaw) {
+      return timeBlock.endTime || !timeBlock.durationRaw
+        ? replaceBlockTime(line, timeBlock, newStart, newEnd)
+        : setDuration(replaceBlockTime(line, timeBlock, newStart));
+    }
+
+    let updatedLine = line;
+    if (!newStart.isSame(field.date, "minute")) {
+      const dateUpdates = new Map<DateFieldType, string>();
+      for (const date of task.allDates) {
+        dateUpdates.set(
+          date.type,
+          date === field
+            ? formatDate(date.type, newStart, date.format, true)
+            : formatDate(date.type, date.date, date.format, date.hasTime),
+        );
+      }
+      updatedLine = this.reconstructLine(stripDates(line), dateUpdates);
+    }
+    return timeBlock?.endTime && timeBlock.timeRaw
+      ? replaceBlockTime(updatedLine, timeBlock, newStart, newEnd)
+      : setDuration(updatedLine);
+  }
+
+  /**
+   * Builds today's completion (or cancellation) date in the task line's
+   * notation. Returns null for notations without these dates (simple, Kanban).
+   */
+  private buildStatusDate(
+    task: TaskLine,
+    type: DateFieldType.Done | DateFieldType.Cancelled = DateFieldType.Done,
+  ): string | null {
+    const format = this.getLineDateFormat(task);
+    if (format === "simple" || format === "kanban") return null;
+    return formatDate(type, moment(), format);
+  }
+
   /**
    * Reconstructs a task line with date fields in canonical order.
    * Order: Start → Scheduled → Due → Created → Done → Cancelled
+   * A trailing block ID (^id) is kept at the end of the line.
    */
   private reconstructLine(
     baseLine: string,
     dateUpdates: Map<DateFieldType, string>,
   ): string {
-    let result = baseLine.trimEnd();
+    const { content, blockId } = splitBlockId(baseLine);
+    let result = content.trimEnd();
     const order = [
       DateFieldType.Start,
       DateFieldType.Scheduled,
@@ -2039,7 +4767,73 @@ export class CalendarView extends TextFileView {
         result += " " + formatted;
       }
     }
-    return result;
+    return blockId ? `${result} ^${blockId}` : result;
+  }
+
+  /**
+   * Gets the date a recurring task's rule advances: due, else scheduled,
+   * else start (as in the Tasks plugin).
+   */
+  private getRecurrenceReference(task: TaskLine): ParsedDateField | undefined {
+    return (
+      task.allDates.find((d) => d.type === DateFieldType.Due) ??
+      task.allDates.find((d) => d.type === DateFieldType.Scheduled) ??
+      task.allDates.find((d) => d.type === DateFieldType.Start)
+    );
+  }
+
+  /**
+   * Builds the markdown line for the next occurrence of a recurring task,
+   * following the Tasks plugin behaviour:
+   * - The reference date (due, else scheduled, else start) advances per the rule
+   *   ("when done" rules advance from today instead)
+   * - Other dates shift by the same number of days; created date is kept
+   * - Done and cancelled dates are dropped and the checkbox is reset
+   *
+   * @returns The new task line, or null if the task does not recur
+   */
+  private buildNextOccurrenceLine(task: TaskLine): string | null {
+    const rule = task.recurrence;
+    if (!rule) return null;
+
+    const referenceField = this.getRecurrenceReference(task);
+    if (!referenceField) return null;
+
+    const reference = referenceField.date;
+    const from = rule.whenDone
+      ? moment().hour(reference.hour()).minute(reference.minute()).second(0)
+      : reference;
+    const nextReference = getNextOccurrence(rule, from, reference);
+    const dayOffset = nextReference
+      .clone()
+      .startOf("day")
+      .diff(reference.clone().startOf("day"), "days");
+
+    const dateUpdates = new Map<DateFieldType, string>();
+    for (const field of task.allDates) {
+      if (
+        field.type === DateFieldType.Done ||
+        field.type === DateFieldType.Cancelled
+      ) {
+        continue;
+      }
+      const date =
+        field.type === DateFieldType.Created
+          ? field.date
+          : field.date.clone().add(dayOffset, "days");
+      dateUpdates.set(
+        field.type,
+        formatDate(field.type, date, field.format, field.hasTime),
+      );
+    }
+
+    const indentation = task.markdown.match(/^(\s*)/)?.[1] || "";
+    // The block ID stays with the completed occurrence
+    const baseLine = stripDates(splitBlockId(task.markdown).content).replace(
+      /^(-\s*\[).\]/,
+      "$1 ]",
+    );
+    return indentation + this.reconstructLine(baseLine, dateUpdates);
   }
 
   /**
@@ -2051,7 +4845,13 @@ export class CalendarView extends TextFileView {
     newStart: Date,
     newEnd: Date,
   ): Promise<void> {
-    if (!this.file) return;
+    if (!this.isLoaded()) return;
+
+    if (this.isOccurrenceEvent(event)) {
+      new Notice("Reschedule the original recurring task instead");
+      this.updateCalendarEvents();
+      return;
+    }
 
     const task = this.currentEvents.get(event.id);
     if (!task) {
@@ -2060,7 +4860,6 @@ export class CalendarView extends TextFileView {
     }
 
     const newStartMoment = moment(newStart);
-    const oldDateStr = task.date.format("YYYY-MM-DD");
 
     // Check if time component is present (not midnight)
     const startHasTime =
@@ -2068,22 +4867,10 @@ export class CalendarView extends TextFileView {
     const endHasTime = newEnd.getHours() !== 0 || newEnd.getMinutes() !== 0;
 
     try {
-      const lines = this.data.split("\n");
-
-      // Verify line content hasn't changed
-      let targetLineIndex = task.lineIndex;
-      if (lines[targetLineIndex] !== task.markdown) {
-        // Fallback: search for the line by content
-        const found = lines.findIndex(
-          (l) => l.includes(task.title) && l.includes(oldDateStr),
-        );
-        if (found === -1) {
-          new Notice("Sync conflict: Task line not found. Please refresh.");
-          await this.refresh();
-          return;
-        }
-        targetLineIndex = found;
-      }
+      const lines = await this.readTaskLines(task);
+
+      const targetLineIndex = await this.locateTaskLine(task, lines);
+      if (targetLineIndex === -1) return;
 
       // Strip dates and prepare for reconstruction with canonical order
       const baseLine = stripDates(lines[targetLineIndex]);
@@ -2182,7 +4969,12 @@ export class CalendarView extends TextFileView {
         );
 
         if (primaryDateField) {
-          const includeTime = startHasTime || primaryDateField.hasTime;
+          // Tasks timed by a leading time or range keep a date-only field
+          const timeBlock = task.timeBlock;
+          const movesTimeBlock =
+            !primaryDateField.hasTime && !!timeBlock?.startTime;
+          const includeTime =
+            !movesTimeBlock && (startHasTime || primaryDateField.hasTime);
           dateUpdates.set(
             primaryDateField.type,
             formatDate(
@@ -2197,18 +4989,31 @@ export class CalendarView extends TextFileView {
           const typeToAdd = task.dateType || DateFieldType.Due;
           dateUpdates.set(
             typeToAdd,
-            formatDate(typeToAdd, newStartMoment, "tasks", startHasTime),
+            formatDate(
+              typeToAdd,
+              newStartMoment,
+              this.getAddedFieldFormat(task),
+              startHasTime,
+            ),
           );
         }
       }
 
       // Reconstruct line with dates in canonical order
-      const updatedLine = this.reconstructLine(baseLine, dateUpdates);
+      let updatedLine = this.reconstructLine(baseLine, dateUpdates);
+
+      // Move a leading time or time range to the drop time, keeping its length
+      if (!(startField && dueField) && startHasTime) {
+        updatedLine = this.moveTimeBlock(task, updatedLine, newStartMoment);
+      }
       lines[targetLineIndex] = updatedLine;
 
-      await this.app.vault.modify(this.file, lines.join("\n"));
       const timeStr = startHasTime ? ` ${newStartMoment.format("HH:mm")}` : "";
-      new Notice(`Rescheduled to ${newStartDateStr}${timeStr}`);
+      await this.writeTaskLines(
+        task,
+        lines,
+        `Rescheduled to ${newStartDateStr}${timeStr}`,
+      );
     } catch (error) {
       console.error("CalendarView: Failed to update task date", error);
       new Notice("Failed to update task date");
@@ -2218,7 +5023,9 @@ export class CalendarView extends TextFileView {
 
   /**
    * Handles event resize - ensures multi-day events have both start and due dates.
-   * When resizing creates a date range (start != end), adds missing date fields:
+   * Timed single-date tasks resized within their day keep their notation
+   * (see resizeTimeBlock). Otherwise, when resizing creates a date range
+   * (start != end), adds missing date fields:
    * - If missing start date -> add 🛫 with start date
    * - If missing due date -> add 📅 with end date
    */
@@ -2234,7 +5041,13 @@ export class CalendarView extends TextFileView {
       newEnd: newEnd.toISOString(),
     });
 
-    if (!this.file) return;
+    if (!this.isLoaded()) return;
+
+    if (this.isOccurrenceEvent(event)) {
+      new Notice("Resize the original recurring task instead");
+      this.updateCalendarEvents();
+      return;
+    }
 
     const task = this.currentEvents.get(event.id);
     if (!task) {
@@ -2249,17 +5062,29 @@ export class CalendarView extends TextFileView {
     }
 
     try {
-      const lines = this.data.split("\n");
+      const lines = await this.readTaskLines(task);
+
+      const lineIndex = await this.locateTaskLine(task, lines);
+      if (lineIndex === -1) return;
+
+      const newStartMoment = moment(newStart);
 
-      // Verify line content hasn't changed
-      if (lines[task.lineIndex] !== task.markdown) {
-        new Notice("File has changed, please refresh");
-        await this.refresh();
+      // Timed single-date task resized within its day: write the new time
+      // range or duration in the task's own notation
+      const timeBlockLine = this.resizeTimeBlock(
+        task,
+        lines[lineIndex],
+        newStartMoment,
+        moment(newEnd),
+      );
+      if (timeBlockLine !== null) {
+        lines[lineIndex] = timeBlockLine;
+        await this.writeTaskLines(task, lines, "Task time updated");
         return;
       }
 
       // Strip dates and prepare for reconstruction with canonical order
-      const baseLine = stripDates(lines[task.lineIndex]);
+      const baseLine = stripDates(lines[lineIndex]);
       const dateUpdates = new Map<DateFieldType, string>();
 
       // Preserve all existing dates first
@@ -2270,8 +5095,6 @@ export class CalendarView extends TextFileView {
         );
       }
 
-      const newStartMoment = moment(newStart);
-
       // Check if time component is present (not midnight)
       const startHasTime =
         newStart.getHours() !== 0 || newStart.getMinutes() !== 0;
@@ -2362,7 +5185,7 @@ export class CalendarView extends TextFileView {
             formatDate(
               DateFieldType.Start,
               finalStartMoment,
-              "tasks",
+              this.getAddedFieldFormat(task),
               startHasTime,
             ),
           );
@@ -2370,7 +5193,12 @@ export class CalendarView extends TextFileView {
         if (!dueField) {
           dateUpdates.set(
             DateFieldType.Due,
-            formatDate(DateFieldType.Due, finalEndMoment, "tasks", endHasTime),
+            formatDate(
+              DateFieldType.Due,
+              finalEndMoment,
+              this.getAddedFieldFormat(task),
+              endHasTime,
+            ),
           );
         }
       } else if (!startField && !dueField && primaryField) {
@@ -2389,9 +5217,8 @@ export class CalendarView extends TextFileView {
 
       // Reconstruct line with dates in canonical order
       const updatedLine = this.reconstructLine(baseLine, dateUpdates);
-      lines[task.lineIndex] = updatedLine;
-      await this.app.vault.modify(this.file, lines.join("\n"));
-      new Notice("Task date updated");
+      lines[lineIndex] = updatedLine;
+      await this.writeTaskLines(task, lines, "Task date updated");
     } catch (error) {
       console.error("CalendarView: Failed to resize task", error);
       new Notice("Failed to update task date");
@@ -2400,106 +5227,125 @@ export class CalendarView extends TextFileView {
   }
 
   /**
-   * Toggles task completion status in-place (without moving).
-   * For tasks and dataview formats, automatically adds/removes completion date.
+   * Sets a task's checkbox status in-place (without moving).
+   * For tasks and dataview formats, adds the completion (✅) or
+   * cancellation (❌) date when entering that status, and removes it
+   * when leaving it.
+   *
+   * @param symbol - Checkbox character of the new status
    */
-  async toggleTaskCompletion(task: TaskLine): Promise<void> {
-    if (!this.file) return;
+  async setTaskStatus(task: TaskLine, symbol: string): Promise<void> {
+    if (!this.isLoaded()) return;
 
     try {
-      const lines = this.data.split("\n");
-      const isCompleting = !task.completed;
-      const newMark = isCompleting ? "x" : " ";
-      const dateFormat = this.plugin.settings.recognizedDateFormat;
-
-      let updatedLine = lines[task.lineIndex].replace(
-        /^(\s*-\s*\[).\]/,
-        `$1${newMark}]`,
+      const lines = await this.readTaskLines(task);
+      const lineIndex = await this.locateTaskLine(task, lines);
+      if (lineIndex === -1) return;
+
+      const newStatus = this.getTaskStatus(symbol);
+      lines.splice(
+        lineIndex,
+        1,
+        ...this.buildStatusLines(task, lines[lineIndex], symbol),
       );
 
-      // Handle completion date for tasks and dataview formats
-      if (dateFormat === "tasks" || dateFormat === "dataview") {
-        if (isCompleting) {
-          // Add completion date
-          const today = moment();
-          const doneDate = formatDate(
-            DateFieldType.Done,
-            today,
-            dateFormat === "tasks" ? "tasks" : "dataview-bracket",
-          );
-          updatedLine = updatedLine.trimEnd() + " " + doneDate;
-        } else {
-          // Remove existing completion date when uncompleting
-          if (dateFormat === "tasks") {
-            // Remove ✅ YYYY-MM-DD (with optional time)
-            updatedLine = updatedLine.replace(
-              /\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}(?:\s+\d{1,2}:\d{2})?/g,
-              "",
-            );
-          } else {
-            // Remove [done:: ...] or (done:: ...) or [completed:: ...] etc.
-            updatedLine = updatedLine.replace(
-              /\s*[\[(](?:done|completed|completion|done date|completion date)::\s*\d{4}-\d{2}-\d{2}(?:T\d{1,2}:\d{2})?[\])]/gi,
-              "",
-            );
-          }
-        }
-      }
-
-      lines[task.lineIndex] = updatedLine;
-
-      await this.app.vault.modify(this.file, lines.join("\n"));
-      new Notice(task.completed ? "Task uncompleted" : "Task completed");
+      await this.writeTaskLines(
+        task,
+        lines,
+        `Task marked as ${newStatus.name.toLowerCase()}`,
+      );
     } catch (error) {
-      console.error("CalendarView: Failed to toggle task completion", error);
+      console.error("CalendarView: Failed to update task status", error);
       new Notice("Failed to update task");
     }
   }
 
+  /**
+   * Builds a task's lines after switching its status: the updated line,
+   * preceded by the next occurrence when a recurring task is completed.
+   *
+   * @param line - The task's current line
+   * @param symbol - Checkbox character of the new status
+   */
+  private buildStatusLines(
+    task: TaskLine,
+    line: string,
+    symbol: string,
+  ): string[] {
+    const oldType = this.getTaskStatus(task.status).type;
+    const newStatus = this.getTaskStatus(symbol);
+    const statusDateTypes = [
+      [TaskStatusType.Done, DateFieldType.Done],
+      [TaskStatusType.Cancelled, DateFieldType.Cancelled],
+    ] as const;
+
+    let updatedLine = line.replace(/^(\s*-\s*\[).\]/, `$1${symbol}]`);
+
+    // Handle status dates in the line's own format (tasks/dataview)
+    for (const [statusType, dateType] of statusDateTypes) {
+      if (newStatus.type === statusType && oldType !== statusType) {
+        const date = this.buildStatusDate(task, dateType);
+        if (date) updatedLine = appendToTaskLine(updatedLine, date);
+      } else if (newStatus.type !== statusType && oldType === statusType) {
+        updatedLine = removeStatusDate(updatedLine, dateType);
+      }
+    }
+
+    // Recurring task completed: insert its next occurrence above it
+    const nextOccurrenceLine =
+      newStatus.type === TaskStatusType.Done && oldType !== TaskStatusType.Done
+        ? this.buildNextOccurrenceLine(task)
+        : null;
+    return nextOccurrenceLine
+      ? [nextOccurrenceLine, updatedLine]
+      : [updatedLine];
+  }
+
   /**
    * Moves a task to the configured completed section.
    * Marks the task as complete and relocates it under the target heading.
    * Creates the target heading if it doesn't exist.
    * For tasks and dataview formats, automatically adds completion date.
+   *
+   * @param symbol - Checkbox character of the done status
    */
-  private async moveTaskToCompletedSection(task: TaskLine): Promise<void> {
-    if (!this.file) return;
+  private async moveTaskToCompletedSection(
+    task: TaskLine,
+    symbol = "x",
+  ): Promise<void> {
+    if (!this.isLoaded()) return;
 
-    const { completedSectionName } = this.plugin.settings;
+    const { completedSectionName } = this.settings;
     if (!completedSectionName) {
-      // Fallback to simple toggle if no section name configured
-      await this.toggleTaskCompletion(task);
+      // Fallback to in-place status change if no section name configured
+      await this.setTaskStatus(task, symbol);
       return;
     }
 
     try {
-      const lines = this.data.split("\n");
+      const lines = await this.readTaskLines(task);
 
-      // Validate the task line hasn't changed
-      if (lines[task.lineIndex] !== task.markdown) {
-        new Notice("File has changed, please refresh");
-        await this.refresh();
-        return;
-      }
+      const lineIndex = await this.locateTaskLine(task, lines);
+      if (lineIndex === -1) return;
 
       // Extract and mark the task as completed
-      let taskLine = lines[task.lineIndex];
-      taskLine = taskLine.replace(/^(\s*-\s*\[).\]/, "$1x]");
+      let taskLine = lines[lineIndex];
+      taskLine = taskLine.replace(/^(\s*-\s*\[).\]/, `$1${symbol}]`);
 
       // Add completion date for tasks and dataview formats
-      const dateFormat = this.plugin.settings.recognizedDateFormat;
-      if (dateFormat === "tasks" || dateFormat === "dataview") {
-        const today = moment();
-        const doneDate = formatDate(
-          DateFieldType.Done,
-          today,
-          dateFormat === "tasks" ? "tasks" : "dataview-bracket",
-        );
-        taskLine = taskLine.trimEnd() + " " + doneDate;
+      const doneDate = this.buildStatusDate(task);
+      if (doneDate) {
+        taskLine = appendToTaskLine(taskLine, doneDate);
       }
 
-      // Remove the task from its current position
-      lines.splice(task.lineIndex, 1);
+      // Remove the task from its current position; a recurring task leaves
+      // its next occurrence in place
+      const nextOccurrenceLine = this.buildNextOccurrenceLine(task);
+      if (nextOccurrenceLine) {
+        lines.splice(lineIndex, 1, nextOccurrenceLine);
+      } else {
+        lines.splice(lineIndex, 1);
+      }
 
       // Find the target section heading (## SectionName)
       const targetHeader = `## ${completedSectionName}`;
@@ -2520,8 +5366,11 @@ export class CalendarView extends TextFileView {
         lines.push(taskLine);
       }
 
-      await this.app.vault.modify(this.file, lines.join("\n"));
-      new Notice(`Moved to "${completedSectionName}"`);
+      await this.writeTaskLines(
+        task,
+        lines,
+        `Moved to "${completedSectionName}"`,
+      );
     } catch (error) {
       console.error(
         "CalendarView: Failed to move task to completed section",
@@ -2533,12 +5382,18 @@ export class CalendarView extends TextFileView {
 
   /**
    * Jumps to a specific line in the markdown editor.
+   *
+   * @param filePath - Source note path, for tasks outside the calendar file
    */
-  private async jumpToLine(lineIndex: number): Promise<void> {
-    if (!this.file) return;
+  private async jumpToLine(
+    lineIndex: number,
+    filePath?: string,
+  ): Promise<void> {
+    const file = this.getTaskFile({ filePath });
+    if (!file) return;
 
     const leaf = this.app.workspace.getLeaf("tab");
-    await leaf.openFile(this.file, {
+    await leaf.openFile(file, {
       eState: { line: lineIndex },
     });
   }
@@ -2570,36 +5425,81 @@ export class CalendarView extends TextFileView {
 }
 
 /**
- * Modal for creating a new task.
+ * Options for the task creation modal
+ */
+interface TaskCreationOptions {
+  /** Modal heading */
+  heading: string;
+  /** Date and times used when the input has none */
+  defaults: QuickAddOptions;
+  /** Sections the task can be added to */
+  sections: SectionInfo[];
+  /** Initially selected section */
+  sectionId: string;
+}
+
+/**
+ * Modal for creating a new task from natural-language input
+ * (e.g. "Dentist tomorrow 3pm for 1h #health !high"), with a live preview
+ * of the parsed date, time, recurrence, priority and section.
  */
 class TaskCreationModal extends Modal {
-  private taskName: string = "";
-  private dateStr: string;
-  private onSubmit: (taskName: string) => void;
+  private input: string = "";
+  private sectionId: string;
+  /** Whether the user picked a section (stops tags from selecting one) */
+  private sectionChosen = false;
+  private previewEl: HTMLElement | null = null;
+  private sectionDropdown: DropdownComponent | null = null;
+  private options: TaskCreationOptions;
+  private onSubmit: (result: QuickAddResult, sectionId: string) => void;
 
-  constructor(app: App, dateStr: string, onSubmit: (taskName: string) => void) {
+  constructor(
+    app: App,
+    options: TaskCreationOptions,
+    onSubmit: (result: QuickAddResult, sectionId: string) => void,
+  ) {
     super(app);
-    this.dateStr = dateStr;
+    this.options = options;
+    this.sectionId = options.sectionId;
     this.onSubmit = onSubmit;
   }
 
   onOpen(): void {
     const { contentEl } = this;
+    contentEl.addClass("calendar-quick-add-modal");
 
-    contentEl.createEl("h2", { text: `Add Task for ${this.dateStr}` });
+    contentEl.createEl("h2", { text: this.options.heading });
 
-    new Setting(contentEl).setName("Task name").addText((text) => {
-      text.setPlaceholder("Enter task name...");
-      text.onChange((value) => {
-        this.taskName = value;
+    new Setting(contentEl)
+      .setName("Task")
+      .setDesc("Dates, times, durations, repeats and !priority are recognized.")
+      .addText((text) => {
+        text.setPlaceholder("e.g. Dentist tomorrow 3pm for 1h #health !high");
+        text.onChange((value) => {
+          this.input = value;
+          this.updatePreview();
+        });
+        // Focus and handle Enter key
+        text.inputEl.focus();
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter" && this.input.trim()) {
+            this.submit();
+          }
+        });
       });
-      // Focus and handle Enter key
-      text.inputEl.focus();
-      text.inputEl.addEventListener("keydown", (e) => {
-        if (e.key === "Enter" && this.taskName.trim()) {
-          this.submit();
-        }
+
+    this.previewEl = contentEl.createDiv({ cls: "calendar-quick-add-preview" });
+
+    new Setting(contentEl).setName("Section").addDropdown((dropdown) => {
+      for (const section of this.options.sections) {
+        dropdown.addOption(section.id, section.name);
+      }
+      dropdown.setValue(this.sectionId);
+      dropdown.onChange((value) => {
+        this.sectionId = value;
+        this.sectionChosen = true;
       });
+      this.sectionDropdown = dropdown;
     });
 
     new Setting(contentEl)
@@ -2612,12 +5512,92 @@ class TaskCreationModal extends Modal {
       .addButton((btn) => {
         btn.setButtonText("Cancel").onClick(() => this.close());
       });
+
+    this.updatePreview();
+  }
+
+  /**
+   * Parses the current input with the modal's defaults.
+   */
+  private parse(): QuickAddResult {
+    return parseQuickAdd(this.input, this.options.defaults);
+  }
+
+  /**
+   * Renders the parsed fields and selects a section matching a tag.
+   */
+  private updatePreview(): void {
+    const { previewEl } = this;
+    if (!previewEl) return;
+    const result = this.parse();
+
+    // A tag naming a section (#health -> "Health") selects it
+    if (!this.sectionChosen) {
+      const normalize = (name: string) =>
+        name.toLowerCase().replace(/\s+/g, "-");
+      const tags = result.tags.map((tag) => normalize(tag));
+      const match = this.options.sections.find((section) =>
+        tags.includes(normalize(section.name)),
+      );
+      const sectionId = match?.id ?? this.options.sectionId;
+      if (sectionId !== this.sectionId) {
+        this.sectionId = sectionId;
+        this.sectionDropdown?.setValue(sectionId);
+      }
+    }
+
+    previewEl.empty();
+    const addRow = (label: string, value: string) => {
+      const row = previewEl.createDiv({
+        cls: "calendar-quick-add-row",
+      });
+      row.createSpan({ cls: "calendar-quick-add-label", text: label });
+      row.createSpan({ cls: "calendar-quick-add-value", text: value });
+    };
+
+    addRow("Title", result.title || "—");
+
+    let dateText = "None (unscheduled)";
+    if (result.date) {
+      dateText = moment(result.date).format("ddd, MMM D, YYYY");
+      if (result.endDate && result.endDate !== result.date) {
+        dateText += ` → ${moment(result.endDate).format("ddd, MMM D")}`;
+      }
+    }
+    addRow("Date", dateText);
+
+    if (result.startTime) {
+      addRow(
+        "Time",
+        result.endTime
+          ? `${result.startTime}–${result.endTime}`
+          : result.startTime,
+      );
+    }
+    if (result.durationMinutes) {
+      const hours = Math.floor(result.durationMinutes / 60);
+      const minutes = result.durationMinutes % 60;
+      addRow(
+        "Duration",
+        [hours ? `${hours}h` : "", minutes ? `${minutes}m` : ""].join(""),
+      );
+    }
+    if (result.recurrence) addRow("Repeats", result.recurrence);
+    if (result.priority) {
+      addRow(
+        "Priority",
+        `${PRIORITY_EMOJIS[result.priority]} ${result.priority}`,
+      );
+    }
   }
 
   private submit(): void {
-    if (this.taskName.trim()) {
+    const result = this.parse();
+    if (result.title.trim()) {
       this.close();
-      this.onSubmit(this.taskName);
+      this.onSubmit(result, this.sectionId);
+    } else {
+      new Notice("Please enter a task name");
     }
   }
 
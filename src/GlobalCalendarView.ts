@@ -0,0 +1,441 @@
+/**
+ * Vault Calendar View
+ *
+ * A calendar of every dated task in the vault, not bound to a calendar file.
+ * Notes with tasks are found through the metadata cache's list items; each
+ * note becomes a section, nested under a section for its folder. Tasks are
+ * edited in their notes with the same drag, resize and popover editing as
+ * calendar files. When a note changes, only that note is re-read and
+ * re-parsed.
+ *
+ * The view can be limited to folders and tags (kept in the view state).
+ *
+ * It extends CalendarView with `allowNoFile` instead of being a separate
+ * ItemView (a TextFileView is one): rendering, editing, undo, selection,
+ * filters and the legend all work on CalendarView's sections and source
+ * notes, so this view only supplies the notes. CalendarView guards what
+ * needs a calendar file with isLoaded() and `this.file` checks.
+ */
+import {
+  Menu,
+  Notice,
+  TAbstractFile,
+  TFile,
+  debounce,
+  type ViewStateResult,
+} from "obsidian";
+
+import {
+  CalendarView,
+  ALL_SECTIONS_ID,
+  type CalendarSection,
+  type TaskLine,
+} from "./CalendarView";
+import { getPrimaryDate } from "./parsers/dateParser";
+import { SourceService } from "./services/SourceService";
+import type { CalendarSource } from "./types/sourceTypes";
+import {
+  SourceSuggestModal,
+  formatSource,
+} from "./components/SourceSuggestModal";
+
+export const VIEW_TYPE_GLOBAL_CALENDAR = "calendar-md-global-view";
+
+/** Prefix of folder section IDs (note sections use the note path) */
+const FOLDER_SECTION_PREFIX = "folder:";
+
+/**
+ * Parses folder and tag filters saved in the view state.
+ */
+function parseFilters(value: unknown): CalendarSource[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (filter): filter is CalendarSource =>
+      !!filter &&
+      (filter.type === "folder" || filter.type === "tag") &&
+      typeof filter.value === "string",
+  );
+}
+
+/**
+ * GlobalCalendarView - Calendar of every dated task in the vault.
+ * Reuses CalendarView with the indexed notes as its sources and no file.
+ */
+export class GlobalCalendarView extends CalendarView {
+  allowNoFile = true;
+
+  /** Folder and tag filters (a note matching any is shown; none shows all) */
+  private filters: CalendarSource[] = [];
+  private limitBtnEl: HTMLButtonElement | null = null;
+  /** Whether the vault has been indexed */
+  private indexed = false;
+  /** Notes changed since the last render, re-parsed on their own */
+  private changedPaths = new Set<string>();
+
+  getViewType(): string {
+    return VIEW_TYPE_GLOBAL_CALENDAR;
+  }
+
+  getDisplayText(): string {
+    return "Vault calendar";
+  }
+
+  getIcon(): string {
+    return "calendar-range";
+  }
+
+  protected isLoaded(): boolean {
+    return this.indexed;
+  }
+
+  /**
+   * Adds the folder and tag filters to the view state.
+   */
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), filters: this.filters };
+  }
+
+  /**
+   * Restores the filters, then the view, date and section.
+   * Re-indexes when the filters changed.
+   */
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const saved = (state ?? {}) as Record<string, unknown>;
+    const filters = parseFilters(saved.filters);
+    const filtersChanged =
+      JSON.stringify(filters) !== JSON.stringify(this.filters);
+    this.filters = filters;
+
+    await super.setState(state, result);
+
+    // Note sections only exist once the vault is indexed
+    const { section } = saved;
+    if (
+      typeof section === "string" &&
+      section !== ALL_SECTIONS_ID &&
+      !this.sections.has(section)
+    ) {
+      this.pendingSectionId = section;
+    }
+
+    if (filtersChanged && this.indexed) {
+      await this.refresh();
+    } else {
+      this.updateLimitButton();
+    }
+  }
+
+  async onOpen(): Promise<void> {
+    await super.onOpen();
+
+    const sectionGroup = this.toolbarEl?.querySelector(
+      ".calendar-section-group",
+    );
+    if (sectionGroup instanceof HTMLElement) {
+      this.limitBtnEl = this.createButton(
+        sectionGroup,
+        "",
+        "folder-search",
+        () => this.showLimitMenu(),
+      );
+      this.updateLimitButton();
+    }
+
+    // Keep the index up to date note by note. Uses metadata "changed" so
+    // list items and tags are current.
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => this.updateFile(file)),
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => this.removeFile(file.path)),
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.removeFile(oldPath);
+        this.updateFile(file);
+      }),
+    );
+
+    this.app.workspace.onLayoutReady(() => this.refresh());
+  }
+
+  async onClose(): Promise<void> {
+    await super.onClose();
+    this.sourceContents.clear();
+    this.indexed = false;
+  }
+
+  /**
+   * Re-indexes every note with dated tasks and re-renders.
+   */
+  async refresh(): Promise<void> {
+    if (!this.calendar) return;
+
+    try {
+      const contents = new Map<string, string>();
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        const content = await this.readTaskFile(file);
+        if (content !== null) contents.set(file.path, content);
+      }
+      this.sourceContents = contents;
+      this.indexed = true;
+      this.renderIndex();
+    } catch (error) {
+      console.error("GlobalCalendarView: Failed to index vault tasks", error);
+      new Notice("Failed to load vault tasks");
+    }
+  }
+
+  /**
+   * Re-applies settings, then re-indexes since the recognized date formats
+   * decide which notes have dated tasks.
+   */
+  onSettingsChanged(): void {
+    super.onSettingsChanged();
+    if (this.indexed) this.refresh();
+  }
+
+  /**
+   * Parses all indexed notes.
+   */
+  protected parseMarkdown(): void {
+    super.parseMarkdown("");
+
+    // Only dated tasks are indexed, so there is no backlog
+    this.sections.forEach((section) => (section.unscheduledTasks = []));
+    this.nestSections();
+  }
+
+  /**
+   * Nests each note's section under a section for its folder, listing
+   * folders and notes by path. Folders without notes are dropped.
+   */
+  private nestSections(): void {
+    const nested = new Map<string, CalendarSection>();
+    const notes: CalendarSection[] = [];
+    this.sections.forEach((section, id) => {
+      if (section.filePath) {
+        notes.push(section);
+      } else if (!id.startsWith(FOLDER_SECTION_PREFIX)) {
+        nested.set(id, section);
+      }
+    });
+    notes.sort((a, b) => a.id.localeCompare(b.id));
+
+    for (const note of notes) {
+      const folder = note.id.includes("/")
+        ? note.id.slice(0, note.id.lastIndexOf("/"))
+        : "";
+      const folderId = `${FOLDER_SECTION_PREFIX}${folder}`;
+      if (!nested.has(folderId)) {
+        nested.set(folderId, {
+          id: folderId,
+          name: folder || "Vault root",
+          level: 1,
+          parentId: null,
+          startLine: 0,
+          endLine: 0,
+          tasks: [],
+          unscheduledTasks: [],
+        });
+      }
+      note.level = 2;
+      note.parentId = folderId;
+      nested.set(note.id, note);
+    }
+
+    this.sections = nested;
+  }
+
+  /**
+   * Gets the tasks of the active section, including the notes of a
+   * folder section.
+   */
+  protected getActiveSectionTasks(): TaskLine[] {
+    if (!this.activeSectionId.startsWith(FOLDER_SECTION_PREFIX)) {
+      return super.getActiveSectionTasks();
+    }
+
+    const tasks: TaskLine[] = [];
+    this.sections.forEach((section) => {
+      if (section.parentId === this.activeSectionId) {
+        tasks.push(...section.tasks);
+      }
+    });
+    return tasks;
+  }
+
+  /**
+   * Re-parses the whole index and updates the sections and events.
+   */
+  private renderIndex(): void {
+    this.changedPaths.clear();
+    this.parseMarkdown();
+    this.renderSections();
+  }
+
+  /**
+   * Re-parses the notes changed since the last render and updates the
+   * sections and events.
+   */
+  private renderChanges(): void {
+    if (!this.indexed) return;
+
+    this.changedPaths.forEach((path) => {
+      this.reparseSourceFile(path);
+      const section = this.sections.get(path);
+      if (section) section.unscheduledTasks = [];
+    });
+    this.changedPaths.clear();
+    this.nestSections();
+    this.renderSections();
+  }
+
+  /**
+   * Updates the section menu and events after the index was parsed.
+   */
+  private renderSections(): void {
+    this.updateViewState();
+    this.updateSectionMenuButton();
+    this.pendingSectionId = null;
+    this.updateCalendarEvents();
+  }
+
+  /**
+   * Debounced re-render, used when notes change.
+   */
+  private requestRender = debounce(() => this.renderChanges(), 300, true);
+
+  /**
+   * Reads a note if it matches the filters and has at least one dated task.
+   *
+   * @returns The note content, or null if the note isn't indexed
+   */
+  private async readTaskFile(file: TFile): Promise<string | null> {
+    if (
+      this.filters.length > 0 &&
+      !SourceService.matchesAny(this.app, this.filters, file, "")
+    ) {
+      return null;
+    }
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    const taskLines = (cache?.listItems ?? [])
+      .filter((item) => item.task !== undefined)
+      .map((item) => item.position.start.line);
+    if (taskLines.length === 0) return null;
+
+    const content = await this.app.vault.cachedRead(file);
+    const lines = content.split("\n");
+    const { datePriority, recognizedDateFormats } = this.settings;
+    const hasDatedTask = taskLines.some(
+      (line) =>
+        lines[line] !== undefined &&
+        getPrimaryDate(lines[line], datePriority, recognizedDateFormats) !==
+          null,
+    );
+    return hasDatedTask ? content : null;
+  }
+
+  /**
+   * Re-indexes a single note after it changed or was renamed.
+   */
+  private async updateFile(file: TAbstractFile): Promise<void> {
+    if (!this.indexed || !(file instanceof TFile) || file.extension !== "md") {
+      return;
+    }
+
+    try {
+      const content = await this.readTaskFile(file);
+      if (content === null && !this.sourceContents.has(file.path)) return;
+
+      if (content === null) {
+        this.sourceContents.delete(file.path);
+      } else {
+        this.sourceContents.set(file.path, content);
+      }
+      this.changedPaths.add(file.path);
+      this.requestRender();
+    } catch (error) {
+      console.error("GlobalCalendarView: Failed to index note", error);
+    }
+  }
+
+  /**
+   * Drops a deleted (or renamed) note from the index.
+   */
+  private removeFile(path: string): void {
+    if (!this.sourceContents.delete(path)) return;
+    this.changedPaths.add(path);
+    this.requestRender();
+  }
+
+  /**
+   * Shows the folder and tag filter menu below its button.
+   */
+  private showLimitMenu(): void {
+    const menu = new Menu();
+
+    menu.addItem((item) => {
+      item
+        .setTitle("All notes")
+        .setChecked(this.filters.length === 0)
+        .onClick(() => this.setFilters([]));
+    });
+
+    // Active filters; clicking one removes it
+    for (const filter of this.filters) {
+      menu.addItem((item) => {
+        item
+          .setTitle(formatSource(filter))
+          .setIcon(filter.type === "tag" ? "tag" : "folder")
+          .setChecked(true)
+          .onClick(() =>
+            this.setFilters(this.filters.filter((f) => f !== filter)),
+          );
+      });
+    }
+
+    menu.addSeparator();
+    menu.addItem((item) => {
+      item
+        .setTitle("Add folder or tag filter...")
+        .setIcon("plus")
+        .onClick(() => {
+          new SourceSuggestModal(this.app, (source) => {
+            const exists = this.filters.some(
+              (f) => f.type === source.type && f.value === source.value,
+            );
+            if (!exists) this.setFilters([...this.filters, source]);
+          }).open();
+        });
+    });
+
+    const rect = this.limitBtnEl?.getBoundingClientRect();
+    if (rect) menu.showAtPosition({ x: rect.left, y: rect.bottom });
+  }
+
+  /**
+   * Changes the folder and tag filters and re-indexes the vault.
+   */
+  private async setFilters(filters: CalendarSource[]): Promise<void> {
+    this.filters = filters;
+    this.updateLimitButton();
+    this.app.workspace.requestSaveLayout();
+    await this.refresh();
+  }
+
+  /**
+   * Updates the folder and tag filter button's label and active state.
+   */
+  private updateLimitButton(): void {
+    if (!this.limitBtnEl) return;
+
+    const label =
+      this.filters.length > 0
+        ? `Limited to ${this.filters.map(formatSource).join(", ")}`
+        : "Limit to folders or tags";
+    this.limitBtnEl.setAttr("aria-label", label);
+    this.limitBtnEl.toggleClass("is-active", this.filters.length > 0);
+  }
+}
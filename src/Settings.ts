@@ -9,6 +9,7 @@ import {
   TextComponent,
   DropdownComponent,
   ExtraButtonComponent,
+  Notice,
 } from "obsidian";
 
 import type CalendarPlugin from "./main";
@@ -22,17 +23,25 @@ import {
   type ColorRule,
   type ColorTheme,
   ColorConditionType,
-  getConditionTypeLabel,
-  conditionRequiresValue,
   DEFAULT_COLOR_SETTINGS,
 } from "./types/colorTypes";
+import {
+  type TaskStatus,
+  TaskStatusType,
+  getStatusTypeLabel,
+  DEFAULT_TASK_STATUSES,
+} from "./types/statusTypes";
+import { ConditionGroupEditor } from "./components/ConditionGroupEditor";
+import { RuleStyleEditor } from "./components/RuleStyleEditor";
 
 /**
  * Plugin settings interface
  */
 export interface CalendarSettings {
-  /** Default calendar view: 'month' | 'week' | 'day' */
+  /** Default calendar view: 'month' | 'week' | 'day' | 'year' | 'multi-month' | 'agenda' */
   defaultView: string;
+  /** Number of months shown in the multi-month view (2-6) */
+  multiMonthCount: number;
   /** Week start day: 0 = Sunday, 1 = Monday */
   weekStart: number;
   /** Whether to show completed tasks */
@@ -45,12 +54,38 @@ export interface CalendarSettings {
   completedSectionName: string;
   /** Priority order for date field types (first = highest priority) */
   datePriority: DateFieldType[];
-  /** Which date format to recognize (single selection) */
-  recognizedDateFormat: DateFormatType;
+  /** Which date formats to recognize (any combination) */
+  recognizedDateFormats: DateFormatType[];
+  /** Date format used when writing new tasks */
+  writeDateFormat: DateFormatType;
+  /** Checkbox statuses, keyed by their character */
+  taskStatuses: TaskStatus[];
   /** Color configuration */
   colors: ColorSettings;
 }
 
+/**
+ * Calendar views and their labels, in display order
+ */
+export const VIEW_OPTIONS: [string, string][] = [
+  ["month", "Month"],
+  ["week", "Week"],
+  ["day", "Day"],
+  ["year", "Year"],
+  ["multi-month", "Multi-month"],
+  ["agenda", "Agenda"],
+];
+
+/**
+ * Date formats and their labels, in display order
+ */
+export const DATE_FORMAT_OPTIONS: [DateFormatType, string][] = [
+  ["tasks", "Tasks (📅 2025-01-15)"],
+  ["dataview", "Dataview ([due:: 2025-01-15])"],
+  ["simple", "Simple (@ 2025-01-15)"],
+  ["kanban", "Kanban (@{2025-01-15} @@{14:30})"],
+];
+
 /**
  * Default date priority order
  */
@@ -70,13 +105,19 @@ export const DEFAULT_DATE_PRIORITY: DateFieldType[] = [
 export function createDefaultSettings(): CalendarSettings {
   return {
     defaultView: "month",
+    multiMonthCount: 3,
     weekStart: 1, // Monday
     showCompleted: true,
     showEventCheckbox: false,
     moveOnComplete: false,
     completedSectionName: "Done",
     datePriority: [...DEFAULT_DATE_PRIORITY],
-    recognizedDateFormat: "tasks",
+    recognizedDateFormats: ["tasks", "dataview"],
+    writeDateFormat: "tasks",
+    taskStatuses: DEFAULT_TASK_STATUSES.map((status) => ({
+      ...status,
+      color: status.color && { ...status.color },
+    })),
     colors: {
       defaultEventColor: {
         light: "#6366f1", // Indigo 500
@@ -116,15 +157,30 @@ export class CalendarSettingsTab extends PluginSettingTab {
     new Setting(containerEl)
       .setName("Default view")
       .setDesc("The calendar view to display when opening a file.")
-      .addDropdown((dropdown) =>
+      .addDropdown((dropdown) => {
+        for (const [view, label] of VIEW_OPTIONS) {
+          dropdown.addOption(view, label);
+        }
         dropdown
-          .addOption("month", "Month")
-          .addOption("week", "Week")
-          .addOption("day", "Day")
           .setValue(this.plugin.settings.defaultView)
           .onChange(async (value) => {
             this.plugin.settings.defaultView = value;
             await this.plugin.saveSettings();
+          });
+      });
+
+    // Multi-month Count
+    new Setting(containerEl)
+      .setName("Months in multi-month view")
+      .setDesc("How many consecutive months the multi-month view displays.")
+      .addSlider((slider) =>
+        slider
+          .setLimits(2, 6, 1)
+          .setDynamicTooltip()
+          .setValue(this.plugin.settings.multiMonthCount)
+          .onChange(async (value) => {
+            this.plugin.settings.multiMonthCount = value;
+            await this.plugin.saveSettings();
           }),
       );
 
@@ -146,7 +202,10 @@ export class CalendarSettingsTab extends PluginSettingTab {
     // Show Completed Tasks
     new Setting(containerEl)
       .setName("Show completed tasks")
-      .setDesc("Display completed tasks in the calendar.")
+      .setDesc(
+        "Display completed tasks in the calendar. When disabled, the eye button " +
+          "in the toolbar reveals them temporarily.",
+      )
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.showCompleted)
@@ -215,6 +274,25 @@ export class CalendarSettingsTab extends PluginSettingTab {
         );
     }
 
+    // Task Statuses
+    new Setting(containerEl)
+      .setName("Task statuses")
+      .setDesc(
+        "Checkbox characters and what they mean. Clicking a checkbox switches " +
+          "to the status in the 'Next' column. Done statuses get a ✅ date, " +
+          "cancelled statuses a ❌ date.",
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Add Status").onClick(async () => {
+          await this.addNewStatus();
+        }),
+      );
+
+    const statusesContainer = containerEl.createDiv({
+      cls: "calendar-status-list",
+    });
+    this.renderStatusList(statusesContainer);
+
     // =================================================================
     // Appearance (Color) Settings
     // =================================================================
@@ -253,24 +331,61 @@ export class CalendarSettingsTab extends PluginSettingTab {
       .setDesc("Configure how dates are detected and prioritized.")
       .setHeading();
 
-    // Recognized Format (single selection)
+    // Recognized Formats (multi-select)
+    new Setting(containerEl)
+      .setName("Recognized formats")
+      .setDesc(
+        "Date formats to recognize in your markdown files. Edits keep each " +
+          "task in the format it is written in.",
+      );
+
+    for (const [format, label] of DATE_FORMAT_OPTIONS) {
+      new Setting(containerEl)
+        .setName(label)
+        .setClass("calendar-format-toggle")
+        .addToggle((toggle) =>
+          toggle
+            .setValue(
+              this.plugin.settings.recognizedDateFormats.includes(format),
+            )
+            .onChange(async (value) => {
+              const formats = this.plugin.settings.recognizedDateFormats;
+              if (!value && format === this.plugin.settings.writeDateFormat) {
+                new Notice("New tasks are written in this format");
+                toggle.setValue(true);
+                return;
+              }
+              this.plugin.settings.recognizedDateFormats = value
+                ? [...formats.filter((f) => f !== format), format]
+                : formats.filter((f) => f !== format);
+              await this.plugin.saveSettings();
+            }),
+        );
+    }
+
+    // Write Format (single selection)
     new Setting(containerEl)
-      .setName("Recognized format")
+      .setName("Format for new tasks")
       .setDesc(
-        "Select which date format pattern to recognize in your markdown files.",
+        "Date format used when creating, importing or scheduling tasks. " +
+          "It is always recognized.",
       )
-      .addDropdown((dropdown) =>
+      .addDropdown((dropdown) => {
+        for (const [format, label] of DATE_FORMAT_OPTIONS) {
+          dropdown.addOption(format, label);
+        }
         dropdown
-          .addOption("tasks", "Tasks (📅 2025-01-15)")
-          .addOption("dataview", "Dataview ([due:: 2025-01-15])")
-          .addOption("simple", "Simple (@ 2025-01-15)")
-          .addOption("kanban", "Kanban (@{2025-01-15} @@{14:30})")
-          .setValue(this.plugin.settings.recognizedDateFormat)
+          .setValue(this.plugin.settings.writeDateFormat)
           .onChange(async (value) => {
-            this.plugin.settings.recognizedDateFormat = value as DateFormatType;
+            const format = value as DateFormatType;
+            this.plugin.settings.writeDateFormat = format;
+            if (!this.plugin.settings.recognizedDateFormats.includes(format)) {
+              this.plugin.settings.recognizedDateFormats.push(format);
+            }
             await this.plugin.saveSettings();
-          }),
-      );
+            this.display();
+          });
+      });
 
     // Date Priority Order
     new Setting(containerEl)
@@ -367,6 +482,149 @@ export class CalendarSettingsTab extends PluginSettingTab {
     });
   }
 
+  /**
+   * Adds a new status with an unused character
+   */
+  private async addNewStatus(): Promise<void> {
+    const statuses = this.plugin.settings.taskStatuses;
+    const symbol =
+      ["?", "!", "*", "<", "i", "b"].find(
+        (s) => !statuses.some((status) => status.symbol === s),
+      ) ?? "";
+
+    statuses.push({
+      symbol,
+      name: "New Status",
+      type: TaskStatusType.Todo,
+      nextSymbol: "x",
+    });
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  /**
+   * Renders the list of task statuses
+   */
+  private renderStatusList(container: HTMLElement): void {
+    container.empty();
+
+    this.plugin.settings.taskStatuses.forEach((status, index) => {
+      this.renderStatusItem(container, status, index);
+    });
+  }
+
+  /**
+   * Renders a single task status row
+   */
+  private renderStatusItem(
+    container: HTMLElement,
+    status: TaskStatus,
+    index: number,
+  ): void {
+    const statuses = this.plugin.settings.taskStatuses;
+    const row = container.createDiv({ cls: "calendar-status-item" });
+
+    // Checkbox character (must be a single, unused character)
+    const symbolInput = new TextComponent(row)
+      .setPlaceholder("x")
+      .setValue(status.symbol);
+    symbolInput.inputEl.addClass("calendar-status-symbol");
+    symbolInput.inputEl.maxLength = 1;
+    symbolInput.inputEl.setAttr("aria-label", "Character");
+    symbolInput.onChange(async (value) => {
+      if (
+        value.length !== 1 ||
+        statuses.some((s) => s !== status && s.symbol === value)
+      ) {
+        return;
+      }
+      status.symbol = value;
+      await this.plugin.saveSettings();
+    });
+
+    // Status name
+    new TextComponent(row)
+      .setPlaceholder("Status name")
+      .setValue(status.name)
+      .onChange(async (value) => {
+        status.name = value || "Unnamed Status";
+        await this.plugin.saveSettings();
+      });
+
+    // Status type
+    const typeDropdown = new DropdownComponent(row);
+    Object.values(TaskStatusType).forEach((type) => {
+      typeDropdown.addOption(type, getStatusTypeLabel(type));
+    });
+    typeDropdown.setValue(status.type).onChange(async (value) => {
+      status.type = value as TaskStatusType;
+      await this.plugin.saveSettings();
+    });
+
+    // Next status on checkbox click
+    const nextInput = new TextComponent(row)
+      .setPlaceholder("x")
+      .setValue(status.nextSymbol);
+    nextInput.inputEl.addClass("calendar-status-symbol");
+    nextInput.inputEl.maxLength = 1;
+    nextInput.inputEl.setAttr("aria-label", "Next character");
+    nextInput.onChange(async (value) => {
+      if (value.length !== 1) return;
+      status.nextSymbol = value;
+      await this.plugin.saveSettings();
+    });
+
+    // Lucide icon shown instead of the checkbox
+    new TextComponent(row)
+      .setPlaceholder("Icon (optional)")
+      .setValue(status.icon ?? "")
+      .onChange(async (value) => {
+        status.icon = value.trim() || undefined;
+        await this.plugin.saveSettings();
+      });
+
+    // Color (optional)
+    if (status.color) {
+      const color = status.color;
+      new ColorComponent(row).setValue(color.light).onChange(async (value) => {
+        color.light = value;
+        await this.plugin.saveSettings();
+      });
+      new ColorComponent(row).setValue(color.dark).onChange(async (value) => {
+        color.dark = value;
+        await this.plugin.saveSettings();
+      });
+      new ExtraButtonComponent(row)
+        .setIcon("x")
+        .setTooltip("Remove color")
+        .onClick(async () => {
+          delete status.color;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+    } else {
+      new ExtraButtonComponent(row)
+        .setIcon("palette")
+        .setTooltip("Set color")
+        .onClick(async () => {
+          status.color = { light: "#6366f1", dark: "#818cf8" };
+          await this.plugin.saveSettings();
+          this.display();
+        });
+    }
+
+    // Delete button
+    const deleteBtn = new ExtraButtonComponent(row)
+      .setIcon("trash")
+      .setTooltip("Delete status")
+      .onClick(async () => {
+        statuses.splice(index, 1);
+        await this.plugin.saveSettings();
+        this.display();
+      });
+    deleteBtn.extraSettingsEl.addClass("calendar-rule-btn-danger");
+  }
+
   /**
    * Adds a new color rule with default values
    */
@@ -375,7 +633,10 @@ export class CalendarSettingsTab extends PluginSettingTab {
       id: Date.now().toString(),
       enabled: true,
       name: "New Rule",
-      conditionType: ColorConditionType.IsOverdue,
+      condition: {
+        operator: "and",
+        conditions: [{ type: ColorConditionType.IsOverdue }],
+      },
       color: {
         light: "#ef4444", // Red for overdue by default
         dark: "#f87171",
@@ -484,81 +745,19 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
     deleteBtn.extraSettingsEl.addClass("calendar-rule-btn-danger");
 
-    // Condition row
-    const conditionRow = ruleDiv.createDiv({ cls: "calendar-rule-condition" });
-
-    // Condition type dropdown
-    conditionRow.createDiv({ cls: "calendar-rule-type-wrapper" }, (el) => {
-      const dropdown = new DropdownComponent(el);
-      Object.values(ColorConditionType).forEach((type) => {
-        dropdown.addOption(type, getConditionTypeLabel(type));
-      });
-      dropdown.setValue(rule.conditionType).onChange(async (value) => {
-        rule.conditionType = value as ColorConditionType;
-        // Clear value if condition doesn't need it
-        if (!conditionRequiresValue(rule.conditionType)) {
-          rule.conditionValue = undefined;
-        }
-        await this.plugin.saveSettings();
-        this.display();
-      });
-    });
-
-    // Condition value input (only for certain condition types)
-    if (conditionRequiresValue(rule.conditionType)) {
-      conditionRow.createDiv({ cls: "calendar-rule-value-wrapper" }, (el) => {
-        new TextComponent(el)
-          .setPlaceholder(this.getValuePlaceholder(rule.conditionType))
-          .setValue(rule.conditionValue || "")
-          .onChange(async (value) => {
-            rule.conditionValue = value;
-            await this.plugin.saveSettings();
-          });
-      });
-    }
-
-    // Color row
-    const colorRow = ruleDiv.createDiv({ cls: "calendar-rule-colors" });
-
-    // Light mode color
-    const lightGroup = colorRow.createDiv({
-      cls: "calendar-color-picker-group",
-    });
-    lightGroup.createSpan({ text: "Light", cls: "calendar-color-label" });
-    new ColorComponent(lightGroup)
-      .setValue(rule.color.light)
-      .onChange(async (value) => {
-        rule.color.light = value;
-        await this.plugin.saveSettings();
-      });
-
-    // Dark mode color
-    const darkGroup = colorRow.createDiv({
-      cls: "calendar-color-picker-group",
-    });
-    darkGroup.createSpan({ text: "Dark", cls: "calendar-color-label" });
-    new ColorComponent(darkGroup)
-      .setValue(rule.color.dark)
-      .onChange(async (value) => {
-        rule.color.dark = value;
-        await this.plugin.saveSettings();
-      });
-  }
-
-  /**
-   * Gets placeholder text for condition value input
-   */
-  private getValuePlaceholder(type: ColorConditionType): string {
-    switch (type) {
-      case ColorConditionType.HasTag:
-        return "#tag or tag";
-      case ColorConditionType.TitleContains:
-        return "Search text...";
-      case ColorConditionType.SectionIs:
-        return "Section name";
-      default:
-        return "Value...";
-    }
+    // Conditions
+    new ConditionGroupEditor(
+      ruleDiv.createDiv({ cls: "calendar-rule-conditions" }),
+      rule.condition,
+      () => void this.plugin.saveSettings(),
+    );
+
+    // Colors and style
+    new RuleStyleEditor(
+      ruleDiv.createDiv({ cls: "calendar-rule-style" }),
+      rule,
+      () => void this.plugin.saveSettings(),
+    );
   }
 
   /**
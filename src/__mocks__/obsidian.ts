@@ -0,0 +1,22 @@
+/**
+ * Runtime stand-ins for the parts of the Obsidian API used by the tested
+ * modules. The obsidian package only ships type declarations.
+ */
+import moment from "moment";
+
+export { moment };
+
+/**
+ * Normalizes a vault path like Obsidian does: single forward slashes, no
+ * leading or trailing slash.
+ */
+export function normalizePath(path: string): string {
+  const normalized = path.replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "");
+  return normalized === "" ? "/" : normalized;
+}
+
+export class TFile {
+  path = "";
+  basename = "";
+  extension = "md";
+}
@@ -0,0 +1,345 @@
+import moment from "moment";
+import {
+  ColorService,
+  type SectionColorData,
+  type TaskColorData,
+} from "../services/ColorService";
+import { DateFieldType, type ParsedDateField } from "../parsers/dateParser";
+import type { CalendarSettings } from "../Settings";
+import {
+  ColorConditionType,
+  DEFAULT_COLOR_SETTINGS,
+  type ColorCondition,
+} from "../types/colorTypes";
+
+const sections = new Map<string, SectionColorData>([
+  ["work", { id: "work", name: "Work" }],
+]);
+
+/**
+ * Creates a task due on the given date (today by default).
+ */
+function makeTask(overrides: Partial<TaskColorData> = {}): TaskColorData {
+  const date = overrides.date ?? moment().startOf("day");
+  return {
+    title: "Write report",
+    markdown: "- [ ] Write report",
+    date,
+    dateType: DateFieldType.Due,
+    allDates: [dateField(DateFieldType.Due, date)],
+    completed: false,
+    status: " ",
+    statusName: "Todo",
+    sectionId: "work",
+    hasTime: false,
+    filePath: "Calendar.md",
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a parsed date field.
+ */
+function dateField(type: DateFieldType, date: moment.Moment): ParsedDateField {
+  return { type, date, raw: "", start: 0, end: 0, format: "tasks" };
+}
+
+/**
+ * Checks whether a rule with a single condition colors the task.
+ */
+function matches(task: TaskColorData, condition: ColorCondition): boolean {
+  const settings = {
+    colors: {
+      ...DEFAULT_COLOR_SETTINGS,
+      colorRules: [
+        {
+          id: "rule",
+          enabled: true,
+          name: "Rule",
+          condition: { operator: "and", conditions: [condition] },
+          color: { light: "#ff0000", dark: "#ff0000" },
+        },
+      ],
+    },
+  } as unknown as CalendarSettings;
+  const source = ColorService.getColorSource(
+    task,
+    task.filePath,
+    sections,
+    settings,
+  );
+  return source.type === "rule";
+}
+
+describe("ColorService conditions", () => {
+  const today = moment().startOf("day");
+
+  describe("DueWithinDays", () => {
+    const condition = (value: string): ColorCondition => ({
+      type: ColorConditionType.DueWithinDays,
+      value,
+    });
+
+    it("matches due dates from today up to the number of days ahead", () => {
+      expect(matches(makeTask({ date: today.clone() }), condition("3"))).toBe(
+        true,
+      );
+      expect(
+        matches(
+          makeTask({ date: today.clone().add(3, "days") }),
+          condition("3"),
+        ),
+      ).toBe(true);
+    });
+
+    it("does not match later or past due dates", () => {
+      expect(
+        matches(
+          makeTask({ date: today.clone().add(4, "days") }),
+          condition("3"),
+        ),
+      ).toBe(false);
+      expect(
+        matches(
+          makeTask({ date: today.clone().subtract(1, "day") }),
+          condition("3"),
+        ),
+      ).toBe(false);
+    });
+
+    it("does not match tasks without a due date or with an invalid value", () => {
+      expect(matches(makeTask({ allDates: [] }), condition("3"))).toBe(false);
+      expect(matches(makeTask(), condition("soon"))).toBe(false);
+    });
+  });
+
+  describe("DueToday", () => {
+    const condition: ColorCondition = { type: ColorConditionType.DueToday };
+
+    it("matches tasks due today", () => {
+      expect(matches(makeTask(), condition)).toBe(true);
+    });
+
+    it("does not match tasks due another day or without a due date", () => {
+      expect(
+        matches(makeTask({ date: today.clone().add(1, "day") }), condition),
+      ).toBe(false);
+      const scheduled = dateField(DateFieldType.Scheduled, today.clone());
+      expect(matches(makeTask({ allDates: [scheduled] }), condition)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("IsWeekend", () => {
+    const condition: ColorCondition = { type: ColorConditionType.IsWeekend };
+
+    it("matches Saturdays and Sundays", () => {
+      expect(matches(makeTask({ date: moment("2026-10-17") }), condition)).toBe(
+        true,
+      );
+      expect(matches(makeTask({ date: moment("2026-10-18") }), condition)).toBe(
+        true,
+      );
+    });
+
+    it("does not match weekdays", () => {
+      expect(matches(makeTask({ date: moment("2026-10-19") }), condition)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("DateTypeIs", () => {
+    it("matches the type of the task's displayed date", () => {
+      const task = makeTask({ dateType: DateFieldType.Scheduled });
+      expect(
+        matches(task, {
+          type: ColorConditionType.DateTypeIs,
+          value: DateFieldType.Scheduled,
+        }),
+      ).toBe(true);
+      expect(
+        matches(task, {
+          type: ColorConditionType.DateTypeIs,
+          value: DateFieldType.Due,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("TitleMatches", () => {
+    const condition = (value: string): ColorCondition => ({
+      type: ColorConditionType.TitleMatches,
+      value,
+    });
+
+    it("matches titles case-insensitively", () => {
+      expect(matches(makeTask(), condition("^write\\s+REPORT$"))).toBe(true);
+      expect(matches(makeTask(), condition("^report"))).toBe(false);
+    });
+
+    it("never matches invalid patterns", () => {
+      expect(matches(makeTask(), condition("(unclosed"))).toBe(false);
+      // Cached as invalid, still no match
+      expect(matches(makeTask(), condition("(unclosed"))).toBe(false);
+    });
+
+    it("gives the same result for a cached pattern", () => {
+      const other = makeTask({ title: "Call mom" });
+      expect(matches(makeTask(), condition("report|call"))).toBe(true);
+      expect(matches(other, condition("report|call"))).toBe(true);
+      expect(
+        matches(makeTask({ title: "Buy milk" }), condition("report|call")),
+      ).toBe(false);
+    });
+  });
+
+  describe("HasPriority", () => {
+    const condition: ColorCondition = {
+      type: ColorConditionType.HasPriority,
+      value: "high",
+    };
+
+    it("matches the Tasks plugin emoji", () => {
+      const task = makeTask({
+        markdown: "- [ ] Write report ⏫ 📅 2026-10-19",
+      });
+      expect(matches(task, condition)).toBe(true);
+    });
+
+    it("matches Dataview priority fields", () => {
+      expect(
+        matches(
+          makeTask({ markdown: "- [ ] Write report [priority:: high]" }),
+          condition,
+        ),
+      ).toBe(true);
+      expect(
+        matches(
+          makeTask({ markdown: "- [ ] Write report (priority:: High)" }),
+          condition,
+        ),
+      ).toBe(true);
+    });
+
+    it("does not match other priorities or unknown values", () => {
+      expect(
+        matches(makeTask({ markdown: "- [ ] Write report 🔼" }), condition),
+      ).toBe(false);
+      expect(
+        matches(makeTask({ markdown: "- [ ] Write report [priority:: low]" }), {
+          type: ColorConditionType.HasPriority,
+          value: "urgent",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("IsMultiDay", () => {
+    const condition: ColorCondition = { type: ColorConditionType.IsMultiDay };
+
+    it("matches tasks starting and due on different days", () => {
+      const task = makeTask({
+        allDates: [
+          dateField(DateFieldType.Start, today.clone()),
+          dateField(DateFieldType.Due, today.clone().add(2, "days")),
+        ],
+      });
+      expect(matches(task, condition)).toBe(true);
+    });
+
+    it("does not match same-day or single-date tasks", () => {
+      const sameDay = makeTask({
+        allDates: [
+          dateField(DateFieldType.Start, today.clone().hour(9)),
+          dateField(DateFieldType.Due, today.clone().hour(17)),
+        ],
+      });
+      expect(matches(sameDay, condition)).toBe(false);
+      expect(matches(makeTask(), condition)).toBe(false);
+    });
+  });
+
+  describe("HasTime", () => {
+    it("matches tasks with a time of day", () => {
+      const condition: ColorCondition = { type: ColorConditionType.HasTime };
+      expect(matches(makeTask({ hasTime: true }), condition)).toBe(true);
+      expect(matches(makeTask(), condition)).toBe(false);
+    });
+  });
+
+  describe("PathMatches", () => {
+    const condition = (value: string): ColorCondition => ({
+      type: ColorConditionType.PathMatches,
+      value,
+    });
+
+    it("matches single-segment wildcards within a folder", () => {
+      const task = makeTask({ filePath: "Projects/Alpha.md" });
+      expect(matches(task, condition("Projects/*.md"))).toBe(true);
+      expect(
+        matches(
+          makeTask({ filePath: "Projects/2026/Alpha.md" }),
+          condition("Projects/*.md"),
+        ),
+      ).toBe(false);
+    });
+
+    it("matches any depth with **", () => {
+      expect(
+        matches(
+          makeTask({ filePath: "Projects/2026/Q4/Alpha.md" }),
+          condition("Projects/**/*.md"),
+        ),
+      ).toBe(true);
+      expect(
+        matches(
+          makeTask({ filePath: "Projects/Alpha.md" }),
+          condition("Projects/**/*.md"),
+        ),
+      ).toBe(true);
+    });
+
+    it("matches ? as one character and dots literally", () => {
+      expect(
+        matches(
+          makeTask({ filePath: "Notes/a1.md" }),
+          condition("Notes/a?.md"),
+        ),
+      ).toBe(true);
+      expect(
+        matches(
+          makeTask({ filePath: "Notes/a1xmd" }),
+          condition("Notes/a?.md"),
+        ),
+      ).toBe(false);
+    });
+
+    it("anchors the pattern and ignores a leading slash", () => {
+      expect(
+        matches(
+          makeTask({ filePath: "Archive/Projects/Alpha.md" }),
+          condition("Projects/*.md"),
+        ),
+      ).toBe(false);
+      expect(
+        matches(
+          makeTask({ filePath: "Projects/Alpha.md" }),
+          condition("/Projects/*.md"),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("negation", () => {
+    it("inverts a new condition", () => {
+      const condition: ColorCondition = {
+        type: ColorConditionType.HasTime,
+        negate: true,
+      };
+      expect(matches(makeTask(), condition)).toBe(true);
+      expect(matches(makeTask({ hasTime: true }), condition)).toBe(false);
+    });
+  });
+});
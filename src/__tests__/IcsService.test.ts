@@ -0,0 +1,76 @@
+import { IcsService, type IcsExportEvent } from "../services/IcsService";
+
+/**
+ * Creates an all-day export event.
+ */
+function makeEvent(overrides: Partial<IcsExportEvent> = {}): IcsExportEvent {
+  return {
+    id: "h-abc123",
+    title: "Write report",
+    start: "2026-10-19",
+    end: "2026-10-19",
+    completed: false,
+    ...overrides,
+  };
+}
+
+describe("IcsService completion", () => {
+  it("exports completed tasks with a valid VEVENT status", () => {
+    const ics = IcsService.exportEvents(
+      [makeEvent({ completed: true })],
+      "Calendar",
+      "Calendar.md",
+    );
+    expect(ics).toContain("STATUS:CONFIRMED\r\n");
+    expect(ics).not.toContain("STATUS:COMPLETED");
+    expect(ics).toContain("X-CALENDAR-MD-COMPLETED:TRUE\r\n");
+  });
+
+  it("reads completion back on import", () => {
+    const ics = IcsService.exportEvents(
+      [makeEvent({ completed: true }), makeEvent({ id: "h-def456" })],
+      "Calendar",
+      "Calendar.md",
+    );
+    const events = IcsService.parseEvents(ics);
+    expect(events.map((event) => event.completed)).toEqual([true, false]);
+  });
+
+  it("still imports STATUS:COMPLETED from older exports", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:old@calendar-md",
+      "DTSTART;VALUE=DATE:20261019",
+      "SUMMARY:Write report",
+      "STATUS:COMPLETED",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect(IcsService.parseEvents(ics)[0].completed).toBe(true);
+  });
+});
+
+describe("IcsService export metadata", () => {
+  it("writes LAST-MODIFIED from the file modification time", () => {
+    const modified = Date.UTC(2026, 9, 19, 8, 30, 0);
+    const ics = IcsService.exportEvents(
+      [makeEvent({ modified })],
+      "Calendar",
+      "Calendar.md",
+    );
+    expect(ics).toContain("LAST-MODIFIED:20261019T083000Z\r\n");
+  });
+
+  it("keeps the UID stable across exports", () => {
+    const uid = (ics: string) => /UID:(.+)\r\n/.exec(ics)?.[1];
+    const first = IcsService.exportEvents([makeEvent()], "A", "Calendar.md");
+    const second = IcsService.exportEvents(
+      [makeEvent({ start: "2026-10-20", end: "2026-10-20" })],
+      "B",
+      "Calendar.md",
+    );
+    expect(uid(first)).toBeDefined();
+    expect(uid(second)).toBe(uid(first));
+  });
+});
@@ -0,0 +1,81 @@
+import { TaskIdGenerator, relocateTaskLine } from "../parsers/taskIdentity";
+
+/**
+ * Builds a task as parsed from the given lines.
+ */
+function parseTask(lines: string[], lineIndex: number) {
+  const ids = new TaskIdGenerator();
+  let id = "";
+  lines.forEach((line, index) => {
+    if (!line.startsWith("- [")) return;
+    const next = ids.next(line);
+    if (index === lineIndex) id = next;
+  });
+  return { lineIndex, markdown: lines[lineIndex], id };
+}
+
+describe("relocateTaskLine", () => {
+  const original = [
+    "## Work",
+    "- [ ] Write report 📅 2026-10-19",
+    "- [ ] Call Anna 📅 2026-10-20",
+  ];
+
+  it("finds the unchanged line after lines were inserted above it", () => {
+    const task = parseTask(original, 1);
+    expect(relocateTaskLine(["# Notes", "", ...original], task)).toBe(3);
+  });
+
+  it("finds an anchored task after its line was edited", () => {
+    const lines = ["- [ ] Write report 📅 2026-10-19 ^report"];
+    const task = parseTask(lines, 0);
+    const edited = ["Intro", "- [ ] Write the report 📅 2026-10-21 ^report"];
+    expect(relocateTaskLine(edited, task)).toBe(1);
+  });
+
+  it("finds an unanchored task after its date or checkbox changed", () => {
+    const task = parseTask(original, 1);
+    const edited = [
+      "## Work",
+      "- [ ] Call Anna 📅 2026-10-20",
+      "- [x] Write report 📅 2026-10-22 ✅ 2026-10-22",
+    ];
+    expect(relocateTaskLine(edited, task)).toBe(2);
+  });
+
+  it("reports an unanchored task whose text changed as missing", () => {
+    const task = parseTask(original, 1);
+    const edited = ["## Work", "- [ ] Write the report 📅 2026-10-19"];
+    expect(relocateTaskLine(edited, task)).toBe(-1);
+  });
+
+  it("reports edited duplicates as missing", () => {
+    const duplicates = [
+      "- [ ] Water plants 📅 2026-10-19",
+      "- [ ] Water plants 📅 2026-10-19",
+    ];
+    const second = parseTask(duplicates, 1);
+    expect(second.id).toMatch(/-1$/);
+    expect(
+      relocateTaskLine(
+        [
+          "- [x] Water plants 📅 2026-10-19",
+          "- [ ] Water plants 📅 2026-10-26",
+        ],
+        second,
+      ),
+    ).toBe(-1);
+
+    // A hash shared by several lines after the edit is ambiguous
+    const single = parseTask(["- [ ] Water plants 📅 2026-10-19"], 0);
+    expect(
+      relocateTaskLine(
+        [
+          "- [ ] Water plants 📅 2026-10-20",
+          "- [ ] Water plants 📅 2026-10-27",
+        ],
+        single,
+      ),
+    ).toBe(-1);
+  });
+});
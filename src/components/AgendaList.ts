@@ -0,0 +1,247 @@
+/**
+ * Agenda List Component
+ * Renders calendar events as a chronological list grouped by relative day
+ * (overdue, today, tomorrow, this week, later). Readable on narrow panes and mobile.
+ */
+import { moment } from "obsidian";
+import type { CalendarEvent } from "@taskgenius/calendar";
+
+/**
+ * Relative day group of an agenda item
+ */
+type AgendaGroupId = "overdue" | "today" | "tomorrow" | "this-week" | "later";
+
+/** Group display order and labels */
+const AGENDA_GROUPS: { id: AgendaGroupId; label: string }[] = [
+  { id: "overdue", label: "Overdue" },
+  { id: "today", label: "Today" },
+  { id: "tomorrow", label: "Tomorrow" },
+  { id: "this-week", label: "This week" },
+  { id: "later", label: "Later" },
+];
+
+/**
+ * Callbacks invoked by agenda items
+ */
+export interface AgendaListCallbacks {
+  /** Called when an item is clicked (opens the task popover) */
+  onEventClick: (event: CalendarEvent, jsEvent: MouseEvent) => void;
+  /** Called when an item's checkbox is clicked */
+  onCheckboxClick: (event: CalendarEvent) => void;
+  /** Whether an item shows a checkbox (e.g. not for virtual occurrences) */
+  canToggle: (event: CalendarEvent) => boolean;
+  /** Whether an item is multi-selected (shift/ctrl-click) */
+  isSelected: (event: CalendarEvent) => boolean;
+}
+
+/**
+ * Options for rendering the agenda
+ */
+export interface AgendaRenderOptions {
+  /** First day of the listed range (overdue items are always listed) */
+  rangeStart: moment.Moment;
+  /** Last day of the listed range */
+  rangeEnd: moment.Moment;
+  /** First day of week (0 = Sunday, 1 = Monday) */
+  weekStart: number;
+}
+
+/**
+ * An event placed on the agenda, with its parsed dates
+ */
+interface AgendaEntry {
+  event: CalendarEvent;
+  day: moment.Moment;
+  start: moment.Moment;
+  hasTime: boolean;
+  completed: boolean;
+}
+
+/**
+ * Renders calendar events as a grouped, chronological list.
+ */
+export class AgendaList {
+  constructor(
+    private containerEl: HTMLElement,
+    private callbacks: AgendaListCallbacks,
+  ) {}
+
+  /**
+   * Renders the agenda.
+   *
+   * @param events - Events to list (including recurrence occurrences)
+   * @param options - Range and week settings
+   */
+  render(events: CalendarEvent[], options: AgendaRenderOptions): void {
+    this.containerEl.empty();
+
+    const today = moment().startOf("day");
+    const groups = new Map<AgendaGroupId, AgendaEntry[]>();
+
+    for (const event of events) {
+      const entry = this.toEntry(event, today, options);
+      if (!entry) continue;
+
+      const groupId = this.getGroupId(entry, today, options.weekStart);
+      const group = groups.get(groupId) ?? [];
+      group.push(entry);
+      groups.set(groupId, group);
+    }
+
+    const listEl = this.containerEl.createDiv({ cls: "calendar-agenda-list" });
+
+    if (groups.size === 0) {
+      listEl.createDiv({
+        cls: "calendar-agenda-empty",
+        text: "No upcoming tasks",
+      });
+      return;
+    }
+
+    for (const { id, label } of AGENDA_GROUPS) {
+      const entries = groups.get(id);
+      if (!entries || entries.length === 0) continue;
+
+      entries.sort(
+        (a, b) =>
+          a.day.valueOf() - b.day.valueOf() ||
+          Number(a.hasTime) - Number(b.hasTime) ||
+          a.start.valueOf() - b.start.valueOf(),
+      );
+      this.renderGroup(listEl, id, label, entries);
+    }
+  }
+
+  /**
+   * Converts an event into an agenda entry, or null if it falls outside the
+   * listed range. Incomplete past events are kept as overdue.
+   */
+  private toEntry(
+    event: CalendarEvent,
+    today: moment.Moment,
+    options: AgendaRenderOptions,
+  ): AgendaEntry | null {
+    const start = moment(event.start, ["YYYY-MM-DD HH:mm", "YYYY-MM-DD"]);
+    const end = moment(event.end, ["YYYY-MM-DD HH:mm", "YYYY-MM-DD"]);
+    if (!start.isValid()) return null;
+
+    const completed = event.metadata?.completed === true;
+    const startDay = start.clone().startOf("day");
+    const endDay = end.isValid() ? end.clone().startOf("day") : startDay;
+
+    if (endDay.isBefore(today)) {
+      // Past events are only listed while still open
+      return completed
+        ? null
+        : { event, day: startDay, start, hasTime: false, completed };
+    }
+
+    // Multi-day events in progress are listed on today
+    const day = startDay.isBefore(today) ? today.clone() : startDay;
+    if (
+      day.isBefore(options.rangeStart, "day") ||
+      day.isAfter(options.rangeEnd, "day")
+    ) {
+      return null;
+    }
+
+    const hasTime = String(event.start).includes(":");
+    return { event, day, start, hasTime, completed };
+  }
+
+  /**
+   * Determines the relative day group of an entry.
+   */
+  private getGroupId(
+    entry: AgendaEntry,
+    today: moment.Moment,
+    weekStart: number,
+  ): AgendaGroupId {
+    const diff = entry.day.diff(today, "day");
+    if (diff < 0) return "overdue";
+    if (diff === 0) return "today";
+    if (diff === 1) return "tomorrow";
+
+    const weekEnd = today
+      .clone()
+      .subtract((today.day() - weekStart + 7) % 7, "day")
+      .add(6, "day");
+    return entry.day.isAfter(weekEnd, "day") ? "later" : "this-week";
+  }
+
+  /**
+   * Renders a group heading followed by its entries.
+   * Groups spanning several days get a sub-heading per day.
+   */
+  private renderGroup(
+    parent: HTMLElement,
+    id: AgendaGroupId,
+    label: string,
+    entries: AgendaEntry[],
+  ): void {
+    const groupEl = parent.createDiv({
+      cls: `calendar-agenda-group is-${id}`,
+    });
+    const headerEl = groupEl.createDiv({ cls: "calendar-agenda-group-header" });
+    headerEl.createSpan({ text: label });
+    headerEl.createSpan({
+      cls: "calendar-agenda-group-count",
+      text: String(entries.length),
+    });
+
+    const showDayHeadings = id !== "today" && id !== "tomorrow";
+    let currentDay: string | null = null;
+
+    for (const entry of entries) {
+      const dayKey = entry.day.format("YYYY-MM-DD");
+      if (showDayHeadings && dayKey !== currentDay) {
+        currentDay = dayKey;
+        groupEl.createDiv({
+          cls: "calendar-agenda-day",
+          text: entry.day.format("dddd, MMM D"),
+        });
+      }
+      this.renderItem(groupEl, entry);
+    }
+  }
+
+  /**
+   * Renders a single agenda item.
+   */
+  private renderItem(parent: HTMLElement, entry: AgendaEntry): void {
+    const { event } = entry;
+    const itemEl = parent.createDiv({ cls: "calendar-agenda-item" });
+    if (entry.completed) itemEl.addClass("is-completed");
+    if (this.callbacks.isSelected(event)) itemEl.addClass("is-selected");
+    if (event.color) {
+      itemEl.style.setProperty("--calendar-agenda-item-color", event.color);
+    }
+
+    if (this.callbacks.canToggle(event)) {
+      // data-task lets themes style custom statuses ([/], [-] ...)
+      const status = event.metadata?.status;
+      const checkbox = itemEl.createEl("input", {
+        type: "checkbox",
+        cls: "task-list-item-checkbox",
+        dataset: { task: typeof status === "string" ? status : " " },
+      });
+      checkbox.checked = typeof status === "string" ? status !== " " : false;
+      checkbox.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.callbacks.onCheckboxClick(event);
+      });
+    } else {
+      itemEl.createSpan({ cls: "calendar-agenda-item-marker" });
+    }
+
+    itemEl.createSpan({
+      cls: "calendar-agenda-item-time",
+      text: entry.hasTime ? entry.start.format("HH:mm") : "All day",
+    });
+    itemEl.createSpan({ cls: "calendar-agenda-item-title", text: event.title });
+
+    itemEl.addEventListener("click", (e) =>
+      this.callbacks.onEventClick(event, e),
+    );
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Backlog Panel Component
+ * Collapsible sidebar listing unscheduled tasks (checkbox lines without a date).
+ * Items can be dragged onto a calendar day or time slot to schedule them.
+ */
+import { setIcon } from "obsidian";
+
+/** DataTransfer type carrying the id of a dragged backlog task */
+export const BACKLOG_DRAG_TYPE = "application/x-calendar-backlog-task";
+
+/**
+ * A task displayed in the backlog
+ */
+export interface BacklogItem {
+  /** Task id */
+  id: string;
+  /** Task title */
+  title: string;
+  /** Name of the section the task belongs to */
+  sectionName: string;
+  /** Whether the task is completed */
+  completed: boolean;
+}
+
+/**
+ * Callbacks invoked by the backlog panel
+ */
+export interface BacklogPanelCallbacks {
+  /** Called when an item is clicked (jumps to the task line) */
+  onItemClick: (id: string) => void;
+  /** Called when the section filter changes */
+  onSectionFilterChange: (value: string) => void;
+  /** Called when the collapse button is clicked */
+  onToggleCollapsed: () => void;
+}
+
+/**
+ * Options for rendering the backlog panel
+ */
+export interface BacklogRenderOptions {
+  /** Whether the panel is collapsed to a narrow strip */
+  collapsed: boolean;
+  /** Section filter options (value and label) */
+  sectionOptions: { value: string; label: string }[];
+  /** Currently selected section filter value */
+  sectionFilter: string;
+  /** Whether to show the section name on each item */
+  showSectionNames: boolean;
+}
+
+/**
+ * Renders the unscheduled task backlog.
+ */
+export class BacklogPanel {
+  constructor(
+    private containerEl: HTMLElement,
+    private callbacks: BacklogPanelCallbacks,
+  ) {}
+
+  /**
+   * Renders the panel.
+   *
+   * @param items - Unscheduled tasks matching the current filter
+   * @param options - Collapse state and section filter
+   */
+  render(items: BacklogItem[], options: BacklogRenderOptions): void {
+    this.containerEl.empty();
+    this.containerEl.toggleClass("is-collapsed", options.collapsed);
+
+    const headerEl = this.containerEl.createDiv({
+      cls: "calendar-backlog-header",
+    });
+
+    const toggleBtn = headerEl.createEl("button", {
+      cls: "calendar-backlog-toggle clickable-icon",
+      attr: {
+        "aria-label": options.collapsed ? "Show backlog" : "Hide backlog",
+      },
+    });
+    setIcon(toggleBtn, options.collapsed ? "chevrons-left" : "chevrons-right");
+    toggleBtn.addEventListener("click", () =>
+      this.callbacks.onToggleCollapsed(),
+    );
+
+    headerEl.createSpan({
+      cls: "calendar-backlog-title",
+      text: "Unscheduled",
+    });
+    headerEl.createSpan({
+      cls: "calendar-backlog-count",
+      text: String(items.length),
+    });
+
+    if (options.collapsed) return;
+
+    const select = this.containerEl.createEl("select", {
+      cls: "dropdown calendar-backlog-filter",
+    });
+    for (const option of options.sectionOptions) {
+      select.createEl("option", { value: option.value, text: option.label });
+    }
+    select.value = options.sectionFilter;
+    select.addEventListener("change", () =>
+      this.callbacks.onSectionFilterChange(select.value),
+    );
+
+    const listEl = this.containerEl.createDiv({ cls: "calendar-backlog-list" });
+
+    if (items.length === 0) {
+      listEl.createDiv({
+        cls: "calendar-backlog-empty",
+        text: "No unscheduled tasks",
+      });
+      return;
+    }
+
+    for (const item of items) {
+      this.renderItem(listEl, item, options.showSectionNames);
+    }
+  }
+
+  /**
+   * Renders a single draggable backlog item.
+   */
+  private renderItem(
+    parent: HTMLElement,
+    item: BacklogItem,
+    showSectionName: boolean,
+  ): void {
+    const itemEl = parent.createDiv({
+      cls: "calendar-backlog-item",
+      attr: { draggable: "true", "aria-label": "Drag onto the calendar" },
+    });
+    if (item.completed) itemEl.addClass("is-completed");
+
+    itemEl.createSpan({ cls: "calendar-backlog-item-title", text: item.title });
+    if (showSectionName) {
+      itemEl.createSpan({
+        cls: "calendar-backlog-item-section",
+        text: item.sectionName,
+      });
+    }
+
+    itemEl.addEventListener("dragstart", (e) => {
+      if (!e.dataTransfer) return;
+      e.dataTransfer.setData(BACKLOG_DRAG_TYPE, item.id);
+      e.dataTransfer.setData("text/plain", item.title);
+      e.dataTransfer.effectAllowed = "move";
+      itemEl.addClass("is-dragging");
+    });
+    itemEl.addEventListener("dragend", () => itemEl.removeClass("is-dragging"));
+    itemEl.addEventListener("click", () => this.callbacks.onItemClick(item.id));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Bulk Reschedule Modal
+ * Reschedules the selected tasks, either shifting them by an offset or
+ * moving them to a date (keeping each task's span and time of day).
+ */
+import { App, Modal, Notice, Setting, moment } from "obsidian";
+
+/** Units the selected tasks can be shifted by */
+export type ShiftUnit = "days" | "weeks" | "months";
+
+/**
+ * How to reschedule the selected tasks
+ */
+export type BulkReschedule =
+  | { type: "offset"; amount: number; unit: ShiftUnit }
+  | { type: "date"; date: moment.Moment };
+
+/**
+ * Modal for rescheduling several tasks at once
+ */
+export class BulkRescheduleModal extends Modal {
+  private amount = "1";
+  private unit: ShiftUnit = "weeks";
+  private date: string;
+
+  constructor(
+    app: App,
+    private count: number,
+    private onSubmit: (reschedule: BulkReschedule) => void,
+  ) {
+    super(app);
+    this.date = moment().format("YYYY-MM-DD");
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", {
+      text: `Reschedule ${this.count} ${this.count === 1 ? "task" : "tasks"}`,
+    });
+
+    new Setting(contentEl)
+      .setName("Shift by")
+      .setDesc("Negative amounts move tasks earlier")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.setValue(this.amount).onChange((value) => (this.amount = value));
+      })
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOptions({ days: "Days", weeks: "Weeks", months: "Months" })
+          .setValue(this.unit)
+          .onChange((value) => (this.unit = value as ShiftUnit));
+      })
+      .addButton((btn) => {
+        btn
+          .setButtonText("Shift")
+          .setCta()
+          .onClick(() => this.submitOffset());
+      });
+
+    new Setting(contentEl)
+      .setName("Move to date")
+      .setDesc(
+        "Each task moves to this date; its other dates keep their distance",
+      )
+      .addText((text) => {
+        text.inputEl.type = "date";
+        text.setValue(this.date).onChange((value) => (this.date = value));
+      })
+      .addButton((btn) => {
+        btn.setButtonText("Move").onClick(() => this.submitDate());
+      });
+  }
+
+  private submitOffset(): void {
+    const amount = parseInt(this.amount, 10);
+    if (isNaN(amount) || amount === 0) {
+      new Notice("Please enter a non-zero amount");
+      return;
+    }
+    this.onSubmit({ type: "offset", amount, unit: this.unit });
+    this.close();
+  }
+
+  private submitDate(): void {
+    const date = moment(this.date, "YYYY-MM-DD", true);
+    if (!date.isValid()) {
+      new Notice("Invalid date format");
+      return;
+    }
+    this.onSubmit({ type: "date", date });
+    this.close();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
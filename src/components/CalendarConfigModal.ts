@@ -1,6 +1,7 @@
 /**
  * Calendar Configuration Modal
- * Allows per-file color configuration for calendars
+ * Edits the per-file overrides stored in the calendar's frontmatter
+ * (view, week start, date formats, colors) and file-specific color rules
  */
 import {
   App,
@@ -11,19 +12,20 @@ import {
   Notice,
   ToggleComponent,
   TextComponent,
-  DropdownComponent,
-  setIcon,
   ExtraButtonComponent,
   ButtonComponent,
+  debounce,
 } from "obsidian";
 import type CalendarPlugin from "../main";
+import { DATE_FORMAT_OPTIONS, VIEW_OPTIONS } from "../Settings";
+import type { DateFormatType } from "../parsers/dateParser";
 import type { ColorTheme, ColorRule } from "../types/colorTypes";
-import {
-  ColorConditionType,
-  getConditionTypeLabel,
-  conditionRequiresValue,
-} from "../types/colorTypes";
+import { ColorConditionType } from "../types/colorTypes";
+import type { CalendarFileConfig } from "../types/configTypes";
 import { ColorService } from "../services/ColorService";
+import { ConfigService } from "../services/ConfigService";
+import { ConditionGroupEditor } from "./ConditionGroupEditor";
+import { RuleStyleEditor } from "./RuleStyleEditor";
 
 /**
  * Section info for color configuration
@@ -33,12 +35,16 @@ export interface SectionInfo {
   name: string;
 }
 
+/** Dropdown value for "use the global setting" */
+const GLOBAL_VALUE = "";
+
 /**
- * Modal for configuring calendar-specific color settings
+ * Modal for configuring calendar-specific settings
  */
 export class CalendarConfigModal extends Modal {
   private plugin: CalendarPlugin;
   private file: TFile;
+  private config: CalendarFileConfig;
   private sections: SectionInfo[];
   private onSettingsChanged: () => void;
 
@@ -46,6 +52,7 @@ export class CalendarConfigModal extends Modal {
     app: App,
     plugin: CalendarPlugin,
     file: TFile,
+    config: CalendarFileConfig,
     onSettingsChanged: () => void,
     sections: SectionInfo[] = [],
   ) {
@@ -54,6 +61,15 @@ export class CalendarConfigModal extends Modal {
     this.file = file;
     this.sections = sections;
     this.onSettingsChanged = onSettingsChanged;
+
+    // Colors saved in the plugin settings by earlier versions are shown
+    // here and moved to the frontmatter on the next save
+    const legacy = plugin.settings.colors.calendarSources[file.path];
+    this.config = {
+      ...config,
+      color: config.color ?? legacy?.color,
+      sectionColors: { ...legacy?.sectionColors, ...config.sectionColors },
+    };
   }
 
   onOpen(): void {
@@ -62,16 +78,23 @@ export class CalendarConfigModal extends Modal {
     contentEl.addClass("calendar-config-modal");
 
     // Title
-    contentEl.createEl("h2", { text: `Color Settings` });
+    contentEl.createEl("h2", { text: `Calendar Settings` });
     contentEl.createEl("p", {
       cls: "calendar-config-subtitle",
       text: this.file.basename,
     });
 
-    // Get current config for this file
     const filePath = this.file.path;
-    const sourceConfig =
-      this.plugin.settings.colors.calendarSources[filePath] || {};
+
+    // Overrides Section
+    new Setting(contentEl)
+      .setName("Overrides")
+      .setDesc(
+        "Settings for this calendar only. They are stored in its frontmatter.",
+      )
+      .setHeading();
+
+    this.renderOverrides(contentEl);
 
     // Base Color Section
     new Setting(contentEl)
@@ -82,43 +105,25 @@ export class CalendarConfigModal extends Modal {
       .setHeading();
 
     // Enable/disable custom color
-    const hasCustomColor = !!sourceConfig.color;
+    const hasCustomColor = !!this.config.color;
 
     new Setting(contentEl)
       .setName("Use custom color")
       .setDesc("Enable to set a specific color for this calendar.")
       .addToggle((toggle) =>
         toggle.setValue(hasCustomColor).onChange(async (value) => {
-          if (value) {
-            // Enable custom color with random initial color
-            const randomColor = ColorService.generateRandomColorTheme();
-            this.ensureSourceConfig(filePath);
-            this.plugin.settings.colors.calendarSources[filePath].color =
-              randomColor;
-          } else {
-            // Disable custom color
-            if (this.plugin.settings.colors.calendarSources[filePath]) {
-              delete this.plugin.settings.colors.calendarSources[filePath]
-                .color;
-              // Clean up empty config
-              if (
-                Object.keys(
-                  this.plugin.settings.colors.calendarSources[filePath],
-                ).length === 0
-              ) {
-                delete this.plugin.settings.colors.calendarSources[filePath];
-              }
-            }
-          }
-          await this.plugin.saveSettings();
-          this.onSettingsChanged();
+          // Enable custom color with random initial color
+          this.config.color = value
+            ? ColorService.generateRandomColorTheme()
+            : undefined;
+          await this.saveConfig();
           this.onOpen(); // Refresh modal
         }),
       );
 
     // Color pickers (only show when custom color is enabled)
-    if (hasCustomColor && sourceConfig.color) {
-      this.renderColorPickers(contentEl, filePath, sourceConfig.color);
+    if (this.config.color) {
+      this.renderColorPickers(contentEl, this.config.color);
     }
 
     // Section Colors Section (only show if there are multiple sections)
@@ -130,11 +135,7 @@ export class CalendarConfigModal extends Modal {
         )
         .setHeading();
 
-      this.renderSectionColors(
-        contentEl,
-        filePath,
-        sourceConfig.sectionColors || {},
-      );
+      this.renderSectionColors(contentEl);
     }
 
     // File-specific Rules Section
@@ -189,12 +190,154 @@ export class CalendarConfigModal extends Modal {
       );
   }
 
+  /**
+   * Renders the view and date setting overrides.
+   * Each dropdown offers a "Global" option that removes the override.
+   */
+  private renderOverrides(containerEl: HTMLElement): void {
+    const global = this.plugin.settings;
+    const viewLabel = (view: string) =>
+      VIEW_OPTIONS.find(([value]) => value === view)?.[1] ?? view;
+    const formatLabel = (format: DateFormatType) =>
+      DATE_FORMAT_OPTIONS.find(([value]) => value === format)?.[1] ?? format;
+
+    new Setting(containerEl)
+      .setName("Default view")
+      .setDesc("The view shown when opening this calendar.")
+      .addDropdown((dropdown) => {
+        dropdown.addOption(
+          GLOBAL_VALUE,
+          `Global (${viewLabel(global.defaultView)})`,
+        );
+        for (const [view, label] of VIEW_OPTIONS) {
+          dropdown.addOption(view, label);
+        }
+        dropdown
+          .setValue(this.config.defaultView ?? GLOBAL_VALUE)
+          .onChange(async (value) => {
+            this.config.defaultView = value || undefined;
+            await this.saveConfig();
+          });
+      });
+
+    new Setting(containerEl).setName("Week starts on").addDropdown((dropdown) =>
+      dropdown
+        .addOption(
+          GLOBAL_VALUE,
+          `Global (${global.weekStart === 0 ? "Sunday" : "Monday"})`,
+        )
+        .addOption("0", "Sunday")
+        .addOption("1", "Monday")
+        .setValue(
+          this.config.weekStart === undefined
+            ? GLOBAL_VALUE
+            : String(this.config.weekStart),
+        )
+        .onChange(async (value) => {
+          this.config.weekStart = value ? parseInt(value, 10) : undefined;
+          await this.saveConfig();
+        }),
+    );
+
+    new Setting(containerEl)
+      .setName("Format for new tasks")
+      .addDropdown((dropdown) => {
+        dropdown.addOption(
+          GLOBAL_VALUE,
+          `Global (${formatLabel(global.writeDateFormat)})`,
+        );
+        for (const [format, label] of DATE_FORMAT_OPTIONS) {
+          dropdown.addOption(format, label);
+        }
+        dropdown
+          .setValue(this.config.writeDateFormat ?? GLOBAL_VALUE)
+          .onChange(async (value) => {
+            this.config.writeDateFormat = (value || undefined) as
+              | DateFormatType
+              | undefined;
+            await this.saveConfig();
+            this.onOpen(); // Refresh recognized formats
+          });
+      });
+
+    // Recognized formats: override toggle, then one toggle per format
+    const recognized = this.config.recognizedDateFormats;
+    new Setting(containerEl)
+      .setName("Override recognized formats")
+      .setDesc(
+        `Global: ${global.recognizedDateFormats.join(", ")}. ` +
+          "The format for new tasks is always recognized.",
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(!!recognized).onChange(async (value) => {
+          this.config.recognizedDateFormats = value
+            ? [...global.recognizedDateFormats]
+            : undefined;
+          await this.saveConfig();
+          this.onOpen(); // Refresh modal
+        }),
+      );
+
+    if (recognized) {
+      const writeFormat = this.config.writeDateFormat ?? global.writeDateFormat;
+      for (const [format, label] of DATE_FORMAT_OPTIONS) {
+        new Setting(containerEl)
+          .setName(label)
+          .setClass("calendar-config-format-toggle")
+          .addToggle((toggle) =>
+            toggle
+              .setValue(recognized.includes(format) || format === writeFormat)
+              .setDisabled(format === writeFormat)
+              .onChange(async (value) => {
+                this.config.recognizedDateFormats = value
+                  ? [...recognized, format]
+                  : recognized.filter((f) => f !== format);
+                await this.saveConfig();
+                this.onOpen(); // Refresh modal
+              }),
+          );
+      }
+    }
+
+    new Setting(containerEl)
+      .setName("Date priority")
+      .setDesc(
+        "Comma-separated date types, highest priority first. " +
+          "Leave empty to use the global order.",
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(global.datePriority.join(", "))
+          .setValue(this.config.datePriority?.join(", ") ?? "");
+        text.inputEl.addEventListener("change", async () => {
+          this.config.datePriority = ConfigService.parseDatePriority(
+            text.getValue(),
+          );
+          text.setValue(this.config.datePriority?.join(", ") ?? "");
+          await this.saveConfig();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Completed section name")
+      .setDesc("Heading completed tasks are moved to.")
+      .addText((text) => {
+        text
+          .setPlaceholder(global.completedSectionName)
+          .setValue(this.config.completedSectionName ?? "");
+        text.inputEl.addEventListener("change", async () => {
+          this.config.completedSectionName =
+            text.getValue().trim() || undefined;
+          await this.saveConfig();
+        });
+      });
+  }
+
   /**
    * Renders the color picker controls
    */
   private renderColorPickers(
     containerEl: HTMLElement,
-    filePath: string,
     color: ColorTheme,
   ): void {
     const colorRow = containerEl.createDiv({
@@ -208,14 +351,9 @@ export class CalendarConfigModal extends Modal {
     lightGroup.createSpan({ text: "Light Mode", cls: "calendar-color-label" });
     const lightPicker = new ColorComponent(lightGroup);
     lightPicker.setValue(color.light);
-    lightPicker.onChange(async (value) => {
-      this.ensureSourceConfig(filePath);
-      if (this.plugin.settings.colors.calendarSources[filePath].color) {
-        this.plugin.settings.colors.calendarSources[filePath].color!.light =
-          value;
-        await this.plugin.saveSettings();
-        this.onSettingsChanged();
-      }
+    lightPicker.onChange((value) => {
+      color.light = value;
+      this.requestSave();
     });
 
     // Dark mode color
@@ -225,28 +363,20 @@ export class CalendarConfigModal extends Modal {
     darkGroup.createSpan({ text: "Dark Mode", cls: "calendar-color-label" });
     const darkPicker = new ColorComponent(darkGroup);
     darkPicker.setValue(color.dark);
-    darkPicker.onChange(async (value) => {
-      this.ensureSourceConfig(filePath);
-      if (this.plugin.settings.colors.calendarSources[filePath].color) {
-        this.plugin.settings.colors.calendarSources[filePath].color!.dark =
-          value;
-        await this.plugin.saveSettings();
-        this.onSettingsChanged();
-      }
+    darkPicker.onChange((value) => {
+      color.dark = value;
+      this.requestSave();
     });
   }
 
   /**
    * Renders section color configuration
    */
-  private renderSectionColors(
-    containerEl: HTMLElement,
-    filePath: string,
-    sectionColors: Record<string, ColorTheme>,
-  ): void {
+  private renderSectionColors(containerEl: HTMLElement): void {
     const sectionsContainer = containerEl.createDiv({
       cls: "calendar-section-colors-list",
     });
+    const sectionColors = (this.config.sectionColors ??= {});
 
     // Filter out the Default section if it's empty (following same pattern as menu)
     const visibleSections = this.sections.filter(
@@ -290,33 +420,21 @@ export class CalendarConfigModal extends Modal {
         // Light picker
         new ColorComponent(colorGroup)
           .setValue(sectionColor.light)
-          .onChange(async (value) => {
-            this.ensureSourceConfig(filePath);
-            this.ensureSectionColors(filePath);
-            this.plugin.settings.colors.calendarSources[
-              filePath
-            ].sectionColors![section.id].light = value;
-            await this.plugin.saveSettings();
-            this.onSettingsChanged();
+          .onChange((value) => {
+            sectionColor.light = value;
+            this.requestSave();
             // Update preview
-            const newPreviewColor = isDarkMode ? sectionColor.dark : value;
-            previewDot.style.backgroundColor = newPreviewColor;
+            if (!isDarkMode) previewDot.style.backgroundColor = value;
           });
 
         // Dark picker
         new ColorComponent(colorGroup)
           .setValue(sectionColor.dark)
-          .onChange(async (value) => {
-            this.ensureSourceConfig(filePath);
-            this.ensureSectionColors(filePath);
-            this.plugin.settings.colors.calendarSources[
-              filePath
-            ].sectionColors![section.id].dark = value;
-            await this.plugin.saveSettings();
-            this.onSettingsChanged();
+          .onChange((value) => {
+            sectionColor.dark = value;
+            this.requestSave();
             // Update preview
-            const newPreviewColor = isDarkMode ? value : sectionColor.light;
-            previewDot.style.backgroundColor = newPreviewColor;
+            if (isDarkMode) previewDot.style.backgroundColor = value;
           });
 
         // Remove button
@@ -324,26 +442,9 @@ export class CalendarConfigModal extends Modal {
           .setIcon("x")
           .setTooltip("Remove custom color")
           .onClick(async () => {
-            if (
-              this.plugin.settings.colors.calendarSources[filePath]
-                ?.sectionColors
-            ) {
-              delete this.plugin.settings.colors.calendarSources[filePath]
-                .sectionColors![section.id];
-              // Clean up empty sectionColors
-              if (
-                Object.keys(
-                  this.plugin.settings.colors.calendarSources[filePath]
-                    .sectionColors!,
-                ).length === 0
-              ) {
-                delete this.plugin.settings.colors.calendarSources[filePath]
-                  .sectionColors;
-              }
-              await this.plugin.saveSettings();
-              this.onSettingsChanged();
-              this.onOpen(); // Refresh modal
-            }
+            delete sectionColors[section.id];
+            await this.saveConfig();
+            this.onOpen(); // Refresh modal
           });
       } else {
         // Add color button
@@ -351,19 +452,12 @@ export class CalendarConfigModal extends Modal {
           .setButtonText("Set Color")
           .setClass("calendar-section-color-add")
           .onClick(async () => {
-            this.ensureSourceConfig(filePath);
-            this.ensureSectionColors(filePath);
             // Initialize with the deterministic color as starting point
-            const hslLight = ColorService.hashStringToColor(section.id, false);
-            const hslDark = ColorService.hashStringToColor(section.id, true);
-            this.plugin.settings.colors.calendarSources[
-              filePath
-            ].sectionColors![section.id] = {
-              light: hslLight,
-              dark: hslDark,
+            sectionColors[section.id] = {
+              light: ColorService.hashStringToColor(section.id, false),
+              dark: ColorService.hashStringToColor(section.id, true),
             };
-            await this.plugin.saveSettings();
-            this.onSettingsChanged();
+            await this.saveConfig();
             this.onOpen(); // Refresh modal
           });
       }
@@ -371,14 +465,31 @@ export class CalendarConfigModal extends Modal {
   }
 
   /**
-   * Ensures sectionColors object exists for file path
+   * Writes the overrides to the calendar's frontmatter.
+   * Moves colors kept in the plugin settings by earlier versions along.
    */
-  private ensureSectionColors(filePath: string): void {
-    if (!this.plugin.settings.colors.calendarSources[filePath].sectionColors) {
-      this.plugin.settings.colors.calendarSources[filePath].sectionColors = {};
+  private async saveConfig(): Promise<void> {
+    try {
+      await ConfigService.saveConfig(this.app, this.file, this.config);
+
+      const sources = this.plugin.settings.colors.calendarSources;
+      if (sources[this.file.path]) {
+        delete sources[this.file.path];
+        await this.plugin.saveSettings();
+      }
+
+      this.onSettingsChanged();
+    } catch (error) {
+      console.error("CalendarView: Failed to save calendar settings", error);
+      new Notice("Failed to save calendar settings");
     }
   }
 
+  /**
+   * Debounced save, used by inputs that change continuously (color pickers).
+   */
+  private requestSave = debounce(() => this.saveConfig(), 300, true);
+
   /**
    * Renders file-specific rules
    */
@@ -432,89 +543,28 @@ export class CalendarConfigModal extends Modal {
         });
       deleteBtn.extraSettingsEl.addClass("calendar-rule-btn-danger");
 
-      // Condition row
-      const conditionRow = ruleDiv.createDiv({
-        cls: "calendar-rule-condition",
-      });
-
-      // Condition type
-      conditionRow.createDiv({ cls: "calendar-rule-type-wrapper" }, (el) => {
-        const dropdown = new DropdownComponent(el);
-        Object.values(ColorConditionType).forEach((type) => {
-          dropdown.addOption(type, getConditionTypeLabel(type));
-        });
-        dropdown.setValue(rule.conditionType).onChange(async (value) => {
-          rule.conditionType = value as ColorConditionType;
-          if (!conditionRequiresValue(rule.conditionType)) {
-            rule.conditionValue = undefined;
-          }
-          await this.plugin.saveSettings();
-          this.onSettingsChanged();
-          this.onOpen();
-        });
-      });
-
-      // Condition value (if needed)
-      if (conditionRequiresValue(rule.conditionType)) {
-        conditionRow.createDiv({ cls: "calendar-rule-value-wrapper" }, (el) => {
-          new TextComponent(el)
-            .setValue(rule.conditionValue || "")
-            .setPlaceholder(this.getValuePlaceholder(rule.conditionType))
-            .onChange(async (value) => {
-              rule.conditionValue = value;
-              await this.plugin.saveSettings();
-              this.onSettingsChanged();
-            });
-        });
-      }
-
-      // Color row
-      const colorRow = ruleDiv.createDiv({ cls: "calendar-rule-colors" });
-
-      // Light color
-      const lightGroup = colorRow.createDiv({
-        cls: "calendar-color-picker-group",
-      });
-      lightGroup.createSpan({ text: "Light", cls: "calendar-color-label" });
-      new ColorComponent(lightGroup)
-        .setValue(rule.color.light)
-        .onChange(async (value) => {
-          rule.color.light = value;
+      // Conditions
+      new ConditionGroupEditor(
+        ruleDiv.createDiv({ cls: "calendar-rule-conditions" }),
+        rule.condition,
+        async () => {
           await this.plugin.saveSettings();
           this.onSettingsChanged();
-        });
+        },
+      );
 
-      // Dark color
-      const darkGroup = colorRow.createDiv({
-        cls: "calendar-color-picker-group",
-      });
-      darkGroup.createSpan({ text: "Dark", cls: "calendar-color-label" });
-      new ColorComponent(darkGroup)
-        .setValue(rule.color.dark)
-        .onChange(async (value) => {
-          rule.color.dark = value;
+      // Colors and style
+      new RuleStyleEditor(
+        ruleDiv.createDiv({ cls: "calendar-rule-style" }),
+        rule,
+        async () => {
           await this.plugin.saveSettings();
           this.onSettingsChanged();
-        });
+        },
+      );
     });
   }
 
-  /**
-   * Gets placeholder text for condition value input
-   */
-  private getValuePlaceholder(type: ColorConditionType): string {
-    switch (type) {
-      case ColorConditionType.HasTag:
-        return "#tag or tag";
-      case ColorConditionType.TitleContains:
-        return "Search text...";
-      case ColorConditionType.SectionIs:
-        return "Section name";
-      default:
-        return "Value...";
-    }
-  }
-
   /**
    * Adds a new file-specific rule
    */
@@ -523,7 +573,10 @@ export class CalendarConfigModal extends Modal {
       id: Date.now().toString(),
       enabled: true,
       name: "New Rule",
-      conditionType: ColorConditionType.IsOverdue,
+      condition: {
+        operator: "and",
+        conditions: [{ type: ColorConditionType.IsOverdue }],
+      },
       color: {
         light: "#ef4444",
         dark: "#f87171",
@@ -541,10 +594,11 @@ export class CalendarConfigModal extends Modal {
    * Resets all file-specific settings
    */
   private async resetToGlobal(filePath: string): Promise<void> {
-    // Remove file-specific color
-    if (this.plugin.settings.colors.calendarSources[filePath]) {
-      delete this.plugin.settings.colors.calendarSources[filePath];
-    }
+    // Remove overrides (saveConfig also drops colors kept in the settings)
+    this.requestSave.cancel();
+    // Saved filters are not settings, so they are kept
+    this.config = { filters: this.config.filters };
+    await this.saveConfig();
 
     // Remove file-specific rules
     this.plugin.settings.colors.colorRules =
@@ -558,15 +612,6 @@ export class CalendarConfigModal extends Modal {
     this.close();
   }
 
-  /**
-   * Ensures source config exists for file path
-   */
-  private ensureSourceConfig(filePath: string): void {
-    if (!this.plugin.settings.colors.calendarSources[filePath]) {
-      this.plugin.settings.colors.calendarSources[filePath] = {};
-    }
-  }
-
   onClose(): void {
     const { contentEl } = this;
     contentEl.empty();
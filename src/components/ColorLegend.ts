@@ -0,0 +1,91 @@
+/**
+ * Color Legend Component
+ * Row below the calendar toolbar explaining event colors: each rule,
+ * section color, calendar color or default color coloring the events in
+ * view, with its event count. Clicking an entry shows only its events.
+ */
+import { setIcon } from "obsidian";
+
+/**
+ * A color shown in the legend
+ */
+export interface ColorLegendEntry {
+  /** Color source key (see ColorService.getColorSourceKey) */
+  key: string;
+  /** Rule or section name, or "Calendar color" / "Default color" */
+  label: string;
+  /** Color for the current mode */
+  color: string;
+  /** Number of events in view with this color */
+  count: number;
+}
+
+/**
+ * Callbacks invoked by the legend
+ */
+export interface ColorLegendCallbacks {
+  /** Called with the clicked entry, or null to show all events again */
+  onSelect: (entry: ColorLegendEntry | null) => void;
+}
+
+/**
+ * Renders the color legend.
+ */
+export class ColorLegend {
+  constructor(
+    private containerEl: HTMLElement,
+    private callbacks: ColorLegendCallbacks,
+  ) {}
+
+  /**
+   * Renders the entries.
+   *
+   * @param entries - Colors of the events in view, in priority order
+   * @param activeKey - Key of the entry whose events are shown, if any
+   */
+  render(entries: ColorLegendEntry[], activeKey: string | null): void {
+    this.containerEl.empty();
+
+    if (entries.length === 0) {
+      this.containerEl.createSpan({
+        cls: "calendar-legend-empty",
+        text: "No events in view",
+      });
+      return;
+    }
+
+    for (const entry of entries) {
+      const active = entry.key === activeKey;
+      const itemEl = this.containerEl.createEl("button", {
+        cls: "calendar-filter-chip calendar-legend-item",
+        attr: {
+          "aria-label": active
+            ? "Show all events"
+            : `Show only events colored by "${entry.label}"`,
+        },
+      });
+      itemEl.toggleClass("is-active", active);
+
+      const swatchEl = itemEl.createSpan({ cls: "calendar-legend-swatch" });
+      swatchEl.style.backgroundColor = entry.color;
+      itemEl.createSpan({ text: entry.label });
+      itemEl.createSpan({
+        cls: "calendar-legend-count",
+        text: String(entry.count),
+      });
+
+      itemEl.addEventListener("click", () =>
+        this.callbacks.onSelect(active ? null : entry),
+      );
+    }
+
+    if (activeKey !== null) {
+      const clearBtn = this.containerEl.createEl("button", {
+        cls: "calendar-filter-action clickable-icon",
+        attr: { "aria-label": "Show all events" },
+      });
+      setIcon(clearBtn, "x");
+      clearBtn.addEventListener("click", () => this.callbacks.onSelect(null));
+    }
+  }
+}
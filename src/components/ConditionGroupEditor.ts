@@ -0,0 +1,305 @@
+/**
+ * Condition Group Editor Component
+ * Edits a color rule's conditions: nested groups matching all, any, none
+ * or not all of their conditions. Used by the settings tab and the
+ * per-calendar settings modal.
+ */
+import {
+  DropdownComponent,
+  ExtraButtonComponent,
+  TextComponent,
+} from "obsidian";
+import { DateFieldType, getDateTypeLabel } from "../parsers/dateParser";
+import { PRIORITY_EMOJIS } from "../parsers/quickAddParser";
+import {
+  ColorConditionType,
+  conditionRequiresValue,
+  getConditionTypeLabel,
+  getDefaultConditionValue,
+  isConditionGroup,
+  type ColorCondition,
+  type ColorConditionGroup,
+} from "../types/colorTypes";
+
+/** Groups can be nested this many levels deep */
+const MAX_GROUP_DEPTH = 3;
+
+/** Group modes shown in the dropdown: operator and negation */
+const GROUP_MODES: Record<string, Omit<ColorConditionGroup, "conditions">> = {
+  all: { operator: "and" },
+  any: { operator: "or" },
+  none: { operator: "or", negate: true },
+  "not-all": { operator: "and", negate: true },
+};
+
+const GROUP_MODE_LABELS: Record<string, string> = {
+  all: "All of",
+  any: "Any of",
+  none: "None of",
+  "not-all": "Not all of",
+};
+
+/**
+ * Gets placeholder text for condition value input
+ */
+function getValuePlaceholder(type: ColorConditionType): string {
+  switch (type) {
+    case ColorConditionType.HasTag:
+      return "#tag or tag";
+    case ColorConditionType.TitleContains:
+      return "Search text...";
+    case ColorConditionType.SectionIs:
+      return "Section name";
+    case ColorConditionType.StatusIs:
+      return "Status name or character";
+    case ColorConditionType.DueWithinDays:
+      return "Days";
+    case ColorConditionType.TitleMatches:
+      return "Regular expression";
+    case ColorConditionType.PathMatches:
+      return "Folder/**/*.md";
+    default:
+      return "Value...";
+  }
+}
+
+/**
+ * Renders an editable condition group. Changes are made to the group in
+ * place; structural changes re-render the editor.
+ */
+export class ConditionGroupEditor {
+  /**
+   * @param containerEl - Element the editor renders into
+   * @param group - The rule's top-level condition group
+   * @param onChange - Called after every change (to save the settings)
+   */
+  constructor(
+    private containerEl: HTMLElement,
+    private group: ColorConditionGroup,
+    private onChange: () => void,
+  ) {
+    this.render();
+  }
+
+  /**
+   * Renders the whole condition tree.
+   */
+  private render(): void {
+    this.containerEl.empty();
+    this.renderGroup(this.containerEl, this.group, 1);
+  }
+
+  /**
+   * Applies a structural change, then re-renders and notifies.
+   */
+  private update(change: () => void): void {
+    change();
+    this.render();
+    this.onChange();
+  }
+
+  /**
+   * Renders a group: its mode, its conditions and the add buttons.
+   *
+   * @param onRemove - Removes the group from its parent (nested groups only)
+   */
+  private renderGroup(
+    parent: HTMLElement,
+    group: ColorConditionGroup,
+    depth: number,
+    onRemove?: () => void,
+  ): void {
+    const groupEl = parent.createDiv({ cls: "calendar-condition-group" });
+
+    const headerEl = groupEl.createDiv({ cls: "calendar-condition-header" });
+    const mode =
+      Object.keys(GROUP_MODES).find(
+        (key) =>
+          GROUP_MODES[key].operator === group.operator &&
+          !!GROUP_MODES[key].negate === !!group.negate,
+      ) ?? "all";
+    new DropdownComponent(headerEl)
+      .addOptions(GROUP_MODE_LABELS)
+      .setValue(mode)
+      .onChange((value) => {
+        group.operator = GROUP_MODES[value].operator;
+        if (GROUP_MODES[value].negate) {
+          group.negate = true;
+        } else {
+          delete group.negate;
+        }
+        this.onChange();
+      });
+    headerEl.createSpan({
+      cls: "calendar-condition-hint",
+      text: "these conditions",
+    });
+
+    if (onRemove) {
+      new ExtraButtonComponent(headerEl)
+        .setIcon("trash")
+        .setTooltip("Remove group")
+        .onClick(() => this.update(onRemove))
+        .extraSettingsEl.addClass("calendar-rule-btn-danger");
+    }
+
+    const listEl = groupEl.createDiv({ cls: "calendar-condition-list" });
+    group.conditions.forEach((node, index) => {
+      const remove = () => group.conditions.splice(index, 1);
+      if (isConditionGroup(node)) {
+        this.renderGroup(listEl, node, depth + 1, remove);
+      } else {
+        this.renderCondition(listEl, node, remove);
+      }
+    });
+
+    if (group.conditions.length === 0) {
+      listEl.createDiv({
+        cls: "calendar-condition-empty",
+        text: "An empty group never matches.",
+      });
+    }
+
+    const footerEl = groupEl.createDiv({ cls: "calendar-condition-footer" });
+    footerEl
+      .createEl("button", { text: "Add condition" })
+      .addEventListener("click", () =>
+        this.update(() =>
+          group.conditions.push({ type: ColorConditionType.IsOverdue }),
+        ),
+      );
+    if (depth < MAX_GROUP_DEPTH) {
+      footerEl
+        .createEl("button", { text: "Add group" })
+        .addEventListener("click", () =>
+          this.update(() =>
+            group.conditions.push({
+              operator: "or",
+              conditions: [{ type: ColorConditionType.IsOverdue }],
+            }),
+          ),
+        );
+    }
+  }
+
+  /**
+   * Renders a single condition: negation, type and value.
+   */
+  private renderCondition(
+    parent: HTMLElement,
+    condition: ColorCondition,
+    onRemove: () => void,
+  ): void {
+    const rowEl = parent.createDiv({ cls: "calendar-rule-condition" });
+
+    const notBtn = rowEl.createEl("button", {
+      cls: "calendar-condition-not",
+      text: "Not",
+      attr: { "aria-label": "Match when the condition is not met" },
+    });
+    notBtn.toggleClass("is-active", !!condition.negate);
+    notBtn.addEventListener("click", () => {
+      if (condition.negate) {
+        delete condition.negate;
+      } else {
+        condition.negate = true;
+      }
+      notBtn.toggleClass("is-active", !!condition.negate);
+      this.onChange();
+    });
+
+    rowEl.createDiv({ cls: "calendar-rule-type-wrapper" }, (el) => {
+      const dropdown = new DropdownComponent(el);
+      Object.values(ColorConditionType).forEach((type) => {
+        dropdown.addOption(type, getConditionTypeLabel(type));
+      });
+      dropdown.setValue(condition.type).onChange((value) =>
+        this.update(() => {
+          condition.type = value as ColorConditionType;
+          // Values of one type don't carry over to another
+          const defaultValue = getDefaultConditionValue(condition.type);
+          if (defaultValue) {
+            condition.value = defaultValue;
+          } else {
+            delete condition.value;
+          }
+        }),
+      );
+    });
+
+    if (conditionRequiresValue(condition.type)) {
+      rowEl.createDiv({ cls: "calendar-rule-value-wrapper" }, (el) =>
+        this.renderValueEditor(el, condition),
+      );
+    }
+
+    new ExtraButtonComponent(rowEl)
+      .setIcon("x")
+      .setTooltip("Remove condition")
+      .onClick(() => this.update(onRemove))
+      .extraSettingsEl.addClass("calendar-rule-btn-danger");
+  }
+
+  /**
+   * Renders the value input of a condition: a list for date types and
+   * priorities, a number for day counts and text otherwise.
+   */
+  private renderValueEditor(el: HTMLElement, condition: ColorCondition): void {
+    const setValue = (value: string) => {
+      condition.value = value;
+      this.onChange();
+    };
+
+    switch (condition.type) {
+      case ColorConditionType.DateTypeIs: {
+        const dropdown = new DropdownComponent(el);
+        Object.values(DateFieldType).forEach((type) => {
+          dropdown.addOption(type, getDateTypeLabel(type));
+        });
+        dropdown.setValue(condition.value ?? "").onChange(setValue);
+        return;
+      }
+
+      case ColorConditionType.HasPriority: {
+        const dropdown = new DropdownComponent(el);
+        Object.entries(PRIORITY_EMOJIS).forEach(([priority, emoji]) => {
+          const label = priority.charAt(0).toUpperCase() + priority.slice(1);
+          dropdown.addOption(priority, `${emoji} ${label}`);
+        });
+        dropdown.setValue(condition.value ?? "").onChange(setValue);
+        return;
+      }
+    }
+
+    const text = new TextComponent(el)
+      .setPlaceholder(getValuePlaceholder(condition.type))
+      .setValue(condition.value || "");
+
+    if (condition.type === ColorConditionType.DueWithinDays) {
+      text.inputEl.type = "number";
+      text.inputEl.min = "0";
+    }
+
+    if (condition.type === ColorConditionType.TitleMatches) {
+      // Flag patterns that can't match anything
+      const validate = (value: string) => {
+        let valid = true;
+        try {
+          new RegExp(value);
+        } catch {
+          valid = false;
+        }
+        text.inputEl.toggleClass("is-invalid", !valid);
+        text.inputEl.setAttr("aria-invalid", valid ? "false" : "true");
+      };
+      validate(text.getValue());
+      text.onChange((value) => {
+        validate(value);
+        setValue(value);
+      });
+      return;
+    }
+
+    text.onChange(setValue);
+  }
+}
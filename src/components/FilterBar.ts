@@ -0,0 +1,228 @@
+/**
+ * Filter Bar Component
+ * Row below the calendar toolbar for narrowing the shown tasks: title search,
+ * tag, status and date-type chips, "overdue only", and saved filters.
+ */
+import { debounce, setIcon } from "obsidian";
+import type { DateFieldType } from "../parsers/dateParser";
+import type { TaskStatus } from "../types/statusTypes";
+import {
+  createEmptyFilter,
+  isFilterActive,
+  type TaskFilter,
+} from "../types/filterTypes";
+
+/**
+ * Callbacks invoked by the filter bar
+ */
+export interface FilterBarCallbacks {
+  /** Called with the new filter when any criterion changes */
+  onChange: (filter: TaskFilter) => void;
+  /** Called when the save button is clicked */
+  onSave: () => void;
+  /** Called when a saved filter is clicked */
+  onApplySaved: (name: string) => void;
+  /** Called when a saved filter's remove button is clicked */
+  onDeleteSaved: (name: string) => void;
+}
+
+/**
+ * Options for rendering the filter bar
+ */
+export interface FilterBarRenderOptions {
+  /** Tags found in the calendar's tasks (without #) */
+  tags: string[];
+  /** Configured checkbox statuses */
+  statuses: TaskStatus[];
+  /** Date types the calendar's tasks are shown by */
+  dateTypes: DateFieldType[];
+  /** Names of the saved filters */
+  savedFilters: string[];
+  /** Whether filters can be saved (calendar files only) */
+  canSave: boolean;
+}
+
+/**
+ * Renders the filter bar. The search input is created once, so typing
+ * is not interrupted when the chips re-render.
+ */
+export class FilterBar {
+  private filter: TaskFilter | null = null;
+  private searchInputEl: HTMLInputElement;
+  private chipsEl: HTMLElement;
+
+  constructor(
+    private containerEl: HTMLElement,
+    private callbacks: FilterBarCallbacks,
+  ) {
+    const searchEl = this.containerEl.createDiv({
+      cls: "calendar-filter-search",
+    });
+    setIcon(
+      searchEl.createSpan({ cls: "calendar-filter-search-icon" }),
+      "search",
+    );
+    this.searchInputEl = searchEl.createEl("input", {
+      type: "search",
+      placeholder: "Search tasks...",
+    });
+    this.searchInputEl.addEventListener("input", () => this.onQueryInput());
+
+    this.chipsEl = this.containerEl.createDiv({ cls: "calendar-filter-chips" });
+  }
+
+  /**
+   * Applies the search text after a short pause in typing.
+   */
+  private onQueryInput = debounce(
+    () => {
+      if (!this.filter) return;
+      this.callbacks.onChange({
+        ...this.filter,
+        query: this.searchInputEl.value,
+      });
+    },
+    200,
+    true,
+  );
+
+  /**
+   * Renders the chips for the current filter.
+   *
+   * @param filter - Current filter
+   * @param options - Available tags, statuses, date types and saved filters
+   */
+  render(filter: TaskFilter, options: FilterBarRenderOptions): void {
+    this.filter = filter;
+    if (document.activeElement !== this.searchInputEl) {
+      this.searchInputEl.value = filter.query;
+    }
+
+    this.chipsEl.empty();
+
+    const toggle = <T>(list: T[], value: T): T[] =>
+      list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+    // Selected values stay visible even when no task uses them anymore
+    const tags = Array.from(new Set([...filter.tags, ...options.tags])).sort(
+      (a, b) => a.localeCompare(b),
+    );
+    if (tags.length > 0) {
+      const groupEl = this.createGroup("Tags");
+      for (const tag of tags) {
+        this.createChip(groupEl, `#${tag}`, filter.tags.includes(tag), () =>
+          this.callbacks.onChange({
+            ...filter,
+            tags: toggle(filter.tags, tag),
+          }),
+        );
+      }
+    }
+
+    const statusGroupEl = this.createGroup("Status");
+    for (const status of options.statuses) {
+      this.createChip(
+        statusGroupEl,
+        status.name,
+        filter.statuses.includes(status.symbol),
+        () =>
+          this.callbacks.onChange({
+            ...filter,
+            statuses: toggle(filter.statuses, status.symbol),
+          }),
+      );
+    }
+
+    const dateTypes = Array.from(
+      new Set([...filter.dateTypes, ...options.dateTypes]),
+    );
+    if (dateTypes.length > 0) {
+      const groupEl = this.createGroup("Date");
+      for (const type of dateTypes) {
+        const label = type.charAt(0).toUpperCase() + type.slice(1);
+        this.createChip(groupEl, label, filter.dateTypes.includes(type), () =>
+          this.callbacks.onChange({
+            ...filter,
+            dateTypes: toggle(filter.dateTypes, type),
+          }),
+        );
+      }
+    }
+
+    this.createChip(this.chipsEl, "Overdue only", filter.overdueOnly, () =>
+      this.callbacks.onChange({ ...filter, overdueOnly: !filter.overdueOnly }),
+    );
+
+    if (isFilterActive(filter)) {
+      const clearBtn = this.chipsEl.createEl("button", {
+        cls: "calendar-filter-action clickable-icon",
+        attr: { "aria-label": "Clear filter" },
+      });
+      setIcon(clearBtn, "x");
+      clearBtn.addEventListener("click", () =>
+        this.callbacks.onChange(createEmptyFilter()),
+      );
+
+      if (options.canSave) {
+        const saveBtn = this.chipsEl.createEl("button", {
+          cls: "calendar-filter-action clickable-icon",
+          attr: { "aria-label": "Save filter" },
+        });
+        setIcon(saveBtn, "save");
+        saveBtn.addEventListener("click", () => this.callbacks.onSave());
+      }
+    }
+
+    if (options.savedFilters.length > 0) {
+      const groupEl = this.createGroup("Saved");
+      for (const name of options.savedFilters) {
+        const chipEl = this.createChip(groupEl, name, false, () =>
+          this.callbacks.onApplySaved(name),
+        );
+        const removeEl = chipEl.createSpan({
+          cls: "calendar-filter-chip-remove",
+          attr: { "aria-label": `Delete "${name}"` },
+        });
+        setIcon(removeEl, "x");
+        removeEl.addEventListener("click", (e) => {
+          e.stopPropagation();
+          this.callbacks.onDeleteSaved(name);
+        });
+      }
+    }
+  }
+
+  /**
+   * Focuses the search input.
+   */
+  focus(): void {
+    this.searchInputEl.focus();
+  }
+
+  /**
+   * Creates a labelled group of chips.
+   */
+  private createGroup(label: string): HTMLElement {
+    const groupEl = this.chipsEl.createDiv({ cls: "calendar-filter-group" });
+    groupEl.createSpan({ cls: "calendar-filter-group-label", text: label });
+    return groupEl;
+  }
+
+  /**
+   * Creates a toggle chip.
+   */
+  private createChip(
+    parent: HTMLElement,
+    text: string,
+    active: boolean,
+    onClick: () => void,
+  ): HTMLElement {
+    const chipEl = parent.createEl("button", {
+      cls: "calendar-filter-chip",
+      text,
+    });
+    chipEl.toggleClass("is-active", active);
+    chipEl.addEventListener("click", onClick);
+    return chipEl;
+  }
+}
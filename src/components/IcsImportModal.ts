@@ -0,0 +1,124 @@
+/**
+ * iCalendar Import Modal
+ * Picks an .ics file (from the vault or the file system) and the section
+ * heading its events are written to.
+ */
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import type { SectionInfo } from "./CalendarConfigModal";
+
+/**
+ * Modal for importing events from an .ics file
+ */
+export class IcsImportModal extends Modal {
+  private sections: SectionInfo[];
+  private sectionId: string;
+  private vaultPath: string = "";
+  /** Content of a file picked from the file system, with its name */
+  private pickedFile: { name: string; content: string } | null = null;
+  private onSubmit: (content: string, sectionId: string) => void;
+
+  constructor(
+    app: App,
+    sections: SectionInfo[],
+    sectionId: string,
+    onSubmit: (content: string, sectionId: string) => void,
+  ) {
+    super(app);
+    this.sections = sections;
+    this.sectionId = sectionId;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("h2", { text: "Import from iCalendar" });
+
+    const icsFiles = this.app.vault
+      .getFiles()
+      .filter((file) => file.extension.toLowerCase() === "ics")
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const fileSetting = new Setting(contentEl)
+      .setName("File")
+      .setDesc("An .ics file in the vault, or browse for one on this device.");
+
+    fileSetting.addDropdown((dropdown) => {
+      dropdown.addOption("", icsFiles.length ? "Select a file..." : "None");
+      for (const file of icsFiles) {
+        dropdown.addOption(file.path, file.path);
+      }
+      dropdown.onChange((value) => {
+        this.vaultPath = value;
+        this.pickedFile = null;
+        fileSetting.setDesc(value || "No file selected");
+      });
+    });
+
+    const fileInput = contentEl.createEl("input", {
+      attr: { type: "file", accept: ".ics,text/calendar" },
+    });
+    fileInput.hide();
+    fileInput.addEventListener("change", async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      this.pickedFile = { name: file.name, content: await file.text() };
+      this.vaultPath = "";
+      fileSetting.setDesc(file.name);
+    });
+
+    fileSetting.addButton((btn) => {
+      btn.setButtonText("Browse...").onClick(() => fileInput.click());
+    });
+
+    new Setting(contentEl)
+      .setName("Section")
+      .setDesc("Heading the imported tasks are added under.")
+      .addDropdown((dropdown) => {
+        for (const section of this.sections) {
+          dropdown.addOption(section.id, section.name);
+        }
+        dropdown.setValue(this.sectionId);
+        dropdown.onChange((value) => {
+          this.sectionId = value;
+        });
+      });
+
+    new Setting(contentEl)
+      .addButton((btn) => {
+        btn
+          .setButtonText("Import")
+          .setCta()
+          .onClick(() => this.submit());
+      })
+      .addButton((btn) => {
+        btn.setButtonText("Cancel").onClick(() => this.close());
+      });
+  }
+
+  /**
+   * Reads the selected file and hands its content to the callback.
+   */
+  private async submit(): Promise<void> {
+    let content: string;
+    if (this.pickedFile) {
+      content = this.pickedFile.content;
+    } else {
+      const file = this.app.vault.getAbstractFileByPath(this.vaultPath);
+      if (!(file instanceof TFile)) {
+        new Notice("Please select an .ics file");
+        return;
+      }
+      content = await this.app.vault.read(file);
+    }
+
+    this.close();
+    this.onSubmit(content, this.sectionId);
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
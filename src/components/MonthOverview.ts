@@ -0,0 +1,133 @@
+/**
+ * Month Overview Component
+ * Renders a grid of mini-months with task-density dots.
+ * Used for the year view (12 months) and the multi-month strip (2-6 months).
+ */
+import { moment } from "obsidian";
+
+/**
+ * Per-day task data displayed in the overview
+ */
+export interface OverviewDayData {
+  /** Number of events on this day */
+  count: number;
+  /** Event colors on this day (used for the density dots) */
+  colors: string[];
+}
+
+/**
+ * Layout variant: compact year grid or larger month strip
+ */
+export type OverviewLayout = "year" | "strip";
+
+/** Maximum number of dots rendered per day */
+const MAX_DOTS_PER_DAY = 3;
+
+/**
+ * Renders mini-month grids into a container.
+ * Clicking a day or month title invokes the provided callbacks.
+ */
+export class MonthOverview {
+  constructor(
+    private containerEl: HTMLElement,
+    private onDayClick: (date: Date) => void,
+    private onMonthClick: (date: Date) => void,
+  ) {}
+
+  /**
+   * Renders the overview.
+   *
+   * @param startMonth - First month to render (any day within the month)
+   * @param monthCount - Number of consecutive months to render
+   * @param weekStart - First day of week (0 = Sunday, 1 = Monday)
+   * @param days - Task data keyed by YYYY-MM-DD
+   * @param layout - Layout variant
+   */
+  render(
+    startMonth: moment.Moment,
+    monthCount: number,
+    weekStart: number,
+    days: Map<string, OverviewDayData>,
+    layout: OverviewLayout,
+  ): void {
+    this.containerEl.empty();
+
+    const grid = this.containerEl.createDiv({
+      cls: `calendar-overview-grid is-${layout}`,
+    });
+    grid.style.setProperty("--calendar-overview-months", String(monthCount));
+
+    const first = startMonth.clone().startOf("month");
+    for (let i = 0; i < monthCount; i++) {
+      this.renderMonth(grid, first.clone().add(i, "month"), weekStart, days);
+    }
+  }
+
+  /**
+   * Renders a single mini-month.
+   */
+  private renderMonth(
+    parent: HTMLElement,
+    month: moment.Moment,
+    weekStart: number,
+    days: Map<string, OverviewDayData>,
+  ): void {
+    const monthEl = parent.createDiv({ cls: "calendar-overview-month" });
+
+    const titleEl = monthEl.createDiv({
+      cls: "calendar-overview-month-title",
+      text: month.format("MMMM YYYY"),
+    });
+    titleEl.addEventListener("click", () => this.onMonthClick(month.toDate()));
+
+    const daysEl = monthEl.createDiv({ cls: "calendar-overview-days" });
+
+    // Weekday headers, rotated by week start
+    const weekdays = moment.weekdaysMin();
+    for (let i = 0; i < 7; i++) {
+      daysEl.createDiv({
+        cls: "calendar-overview-weekday",
+        text: weekdays[(i + weekStart) % 7],
+      });
+    }
+
+    // Leading blanks before the first day of the month
+    const leading = (month.day() - weekStart + 7) % 7;
+    for (let i = 0; i < leading; i++) {
+      daysEl.createDiv({ cls: "calendar-overview-day is-empty" });
+    }
+
+    const today = moment().format("YYYY-MM-DD");
+    const daysInMonth = month.daysInMonth();
+
+    for (let d = 1; d <= daysInMonth; d++) {
+      const date = month.clone().date(d);
+      const key = date.format("YYYY-MM-DD");
+      const data = days.get(key);
+
+      const dayEl = daysEl.createDiv({ cls: "calendar-overview-day" });
+      dayEl.dataset.date = key;
+      if (key === today) dayEl.addClass("is-today");
+      if (data && data.count > 0) {
+        dayEl.addClass("has-tasks");
+        dayEl.dataset.density = String(Math.min(data.count, 4));
+        dayEl.setAttr(
+          "aria-label",
+          `${date.format("MMM D")}: ${data.count} task${data.count === 1 ? "" : "s"}`,
+        );
+      }
+
+      dayEl.createSpan({ cls: "calendar-overview-day-number", text: `${d}` });
+
+      if (data && data.count > 0) {
+        const dotsEl = dayEl.createDiv({ cls: "calendar-overview-dots" });
+        data.colors.slice(0, MAX_DOTS_PER_DAY).forEach((color) => {
+          const dot = dotsEl.createSpan({ cls: "calendar-overview-dot" });
+          dot.style.backgroundColor = color;
+        });
+      }
+
+      dayEl.addEventListener("click", () => this.onDayClick(date.toDate()));
+    }
+  }
+}
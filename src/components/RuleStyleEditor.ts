@@ -0,0 +1,225 @@
+/**
+ * Rule Style Editor Component
+ * Edits what a color rule does to matching events: background, text and
+ * stripe colors (light and dark mode), border, opacity, strike-through,
+ * bold and an icon. Used by the settings tab and the per-calendar
+ * settings modal.
+ */
+import {
+  ColorComponent,
+  DropdownComponent,
+  ExtraButtonComponent,
+  TextComponent,
+  setIcon,
+} from "obsidian";
+import {
+  DEFAULT_COLOR_SETTINGS,
+  type ColorRule,
+  type ColorRuleStyle,
+  type ColorTheme,
+  type RuleBorderStyle,
+} from "../types/colorTypes";
+
+/** Colors a newly added text color or stripe starts with */
+const DEFAULT_TEXT_COLOR: ColorTheme = { light: "#ffffff", dark: "#ffffff" };
+const DEFAULT_STRIPE_COLOR: ColorTheme = { light: "#f59e0b", dark: "#fbbf24" };
+
+const BORDER_OPTIONS: Record<string, string> = {
+  "": "Default border",
+  solid: "Solid border",
+  dashed: "Dashed border",
+  dotted: "Dotted border",
+};
+
+const OPACITY_OPTIONS: Record<string, string> = {
+  "": "Full opacity",
+  "0.8": "80% opacity",
+  "0.6": "60% opacity",
+  "0.4": "40% opacity",
+};
+
+/**
+ * Renders the style settings of a color rule. Changes are made to the rule
+ * in place; adding or removing a color re-renders the editor.
+ */
+export class RuleStyleEditor {
+  /**
+   * @param containerEl - Element the editor renders into
+   * @param rule - The rule being edited
+   * @param onChange - Called after every change (to save the settings)
+   */
+  constructor(
+    private containerEl: HTMLElement,
+    private rule: ColorRule,
+    private onChange: () => void,
+  ) {
+    this.render();
+  }
+
+  /**
+   * Renders the color pickers and the style options.
+   */
+  private render(): void {
+    const { rule } = this;
+    this.containerEl.empty();
+
+    const colorsEl = this.containerEl.createDiv({
+      cls: "calendar-rule-colors",
+    });
+    this.renderColor(
+      colorsEl,
+      "Background",
+      rule.color,
+      DEFAULT_COLOR_SETTINGS.defaultEventColor,
+      (color) => {
+        if (color) {
+          rule.color = color;
+        } else {
+          delete rule.color;
+        }
+      },
+    );
+    this.renderColor(
+      colorsEl,
+      "Text",
+      rule.style?.textColor,
+      DEFAULT_TEXT_COLOR,
+      (color) => this.setStyle("textColor", color),
+    );
+    this.renderColor(
+      colorsEl,
+      "Stripe",
+      rule.style?.stripeColor,
+      DEFAULT_STRIPE_COLOR,
+      (color) => this.setStyle("stripeColor", color),
+    );
+
+    const optionsEl = this.containerEl.createDiv({
+      cls: "calendar-rule-style-options",
+    });
+
+    new DropdownComponent(optionsEl)
+      .addOptions(BORDER_OPTIONS)
+      .setValue(rule.style?.borderStyle ?? "")
+      .onChange((value) => {
+        this.setStyle("borderStyle", (value as RuleBorderStyle) || undefined);
+        this.onChange();
+      });
+
+    new DropdownComponent(optionsEl)
+      .addOptions(OPACITY_OPTIONS)
+      .setValue(rule.style?.opacity?.toString() ?? "")
+      .onChange((value) => {
+        this.setStyle("opacity", value ? parseFloat(value) : undefined);
+        this.onChange();
+      });
+
+    this.renderFlag(optionsEl, "Bold", "bold");
+    this.renderFlag(optionsEl, "Strike", "strikethrough");
+
+    // Lucide icon shown before the title
+    const iconEl = optionsEl.createSpan({ cls: "calendar-rule-icon-preview" });
+    const updatePreview = () => {
+      iconEl.empty();
+      if (rule.style?.icon) setIcon(iconEl, rule.style.icon);
+    };
+    new TextComponent(optionsEl)
+      .setPlaceholder("Icon (optional)")
+      .setValue(rule.style?.icon ?? "")
+      .onChange((value) => {
+        this.setStyle("icon", value.trim() || undefined);
+        updatePreview();
+        this.onChange();
+      });
+    updatePreview();
+  }
+
+  /**
+   * Renders light and dark pickers for a color that can be unset, or a
+   * button adding it.
+   */
+  private renderColor(
+    parent: HTMLElement,
+    label: string,
+    color: ColorTheme | undefined,
+    initial: ColorTheme,
+    setColor: (color: ColorTheme | undefined) => void,
+  ): void {
+    const groupEl = parent.createDiv({ cls: "calendar-color-picker-group" });
+
+    if (!color) {
+      const addBtn = groupEl.createEl("button", {
+        cls: "calendar-rule-color-add",
+        text: label,
+        attr: { "aria-label": `Set ${label.toLowerCase()} color` },
+      });
+      setIcon(addBtn.createSpan({ prepend: true }), "plus");
+      addBtn.addEventListener("click", () => {
+        setColor({ ...initial });
+        this.render();
+        this.onChange();
+      });
+      return;
+    }
+
+    groupEl.createSpan({ text: label, cls: "calendar-color-label" });
+    groupEl.setAttr("aria-label", "Light and dark mode colors");
+    new ColorComponent(groupEl).setValue(color.light).onChange((value) => {
+      color.light = value;
+      this.onChange();
+    });
+    new ColorComponent(groupEl).setValue(color.dark).onChange((value) => {
+      color.dark = value;
+      this.onChange();
+    });
+    new ExtraButtonComponent(groupEl)
+      .setIcon("x")
+      .setTooltip(`Remove ${label.toLowerCase()} color`)
+      .onClick(() => {
+        setColor(undefined);
+        this.render();
+        this.onChange();
+      });
+  }
+
+  /**
+   * Renders a toggle chip for a style flag.
+   */
+  private renderFlag(
+    parent: HTMLElement,
+    label: string,
+    key: "bold" | "strikethrough",
+  ): void {
+    const chipEl = parent.createEl("button", {
+      cls: "calendar-rule-style-chip",
+      text: label,
+    });
+    chipEl.toggleClass("is-active", !!this.rule.style?.[key]);
+    chipEl.addEventListener("click", () => {
+      this.setStyle(key, this.rule.style?.[key] ? undefined : true);
+      chipEl.toggleClass("is-active", !!this.rule.style?.[key]);
+      this.onChange();
+    });
+  }
+
+  /**
+   * Sets or clears a style property, dropping the style when it is empty.
+   */
+  private setStyle<K extends keyof ColorRuleStyle>(
+    key: K,
+    value: ColorRuleStyle[K] | undefined,
+  ): void {
+    const style: ColorRuleStyle = { ...this.rule.style };
+    if (value === undefined) {
+      delete style[key];
+    } else {
+      style[key] = value;
+    }
+
+    if (Object.keys(style).length > 0) {
+      this.rule.style = style;
+    } else {
+      delete this.rule.style;
+    }
+  }
+}
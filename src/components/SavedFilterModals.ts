@@ -0,0 +1,107 @@
+/**
+ * Saved Filter Modals
+ * Name prompt for saving the current filter, and a fuzzy picker for
+ * applying one of a calendar's saved filters.
+ */
+import { App, FuzzySuggestModal, Modal, Notice, Setting } from "obsidian";
+import type { SavedTaskFilter } from "../types/filterTypes";
+
+const NAME_DESC = "Shown in the filter bar and the apply saved filter command";
+
+/**
+ * Modal asking for the name of a filter to save
+ */
+export class SaveFilterModal extends Modal {
+  private name: string;
+  private onSubmit: (name: string) => void;
+
+  /**
+   * @param existing - Names of the saved filters (saving under one replaces it)
+   */
+  constructor(
+    app: App,
+    private existing: string[],
+    onSubmit: (name: string) => void,
+  ) {
+    super(app);
+    this.name = "";
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: "Save filter" });
+
+    const setting = new Setting(contentEl)
+      .setName("Name")
+      .setDesc(NAME_DESC)
+      .addText((text) => {
+        text.setPlaceholder("e.g., Overdue work");
+        text.onChange((value) => {
+          this.name = value;
+          setting.setDesc(
+            this.existing.includes(value.trim())
+              ? "Replaces the saved filter with this name"
+              : NAME_DESC,
+          );
+        });
+        text.inputEl.focus();
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            this.submit();
+          }
+        });
+      });
+
+    new Setting(contentEl)
+      .addButton((btn) => {
+        btn
+          .setButtonText("Save")
+          .setCta()
+          .onClick(() => this.submit());
+      })
+      .addButton((btn) => {
+        btn.setButtonText("Cancel").onClick(() => this.close());
+      });
+  }
+
+  private submit(): void {
+    if (this.name.trim()) {
+      this.onSubmit(this.name.trim());
+      this.close();
+    } else {
+      new Notice("Please enter a filter name");
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Modal for picking one of a calendar's saved filters
+ */
+export class SavedFilterSuggestModal extends FuzzySuggestModal<SavedTaskFilter> {
+  constructor(
+    app: App,
+    private filters: SavedTaskFilter[],
+    private onChoose: (filter: SavedTaskFilter) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Apply saved filter...");
+  }
+
+  getItems(): SavedTaskFilter[] {
+    return this.filters;
+  }
+
+  getItemText(filter: SavedTaskFilter): string {
+    return filter.name;
+  }
+
+  onChooseItem(filter: SavedTaskFilter): void {
+    this.onChoose(filter);
+  }
+}
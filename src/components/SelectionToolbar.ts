@@ -0,0 +1,106 @@
+/**
+ * Selection Toolbar Component
+ * Row shown while events are multi-selected (shift/ctrl-click), with bulk
+ * reschedule, complete, delete, move to section and change date type actions.
+ */
+import { setIcon } from "obsidian";
+
+/**
+ * Callbacks invoked by the selection toolbar
+ */
+export interface SelectionToolbarCallbacks {
+  /** Called with a day offset by the quick shift buttons */
+  onShift: (days: number) => void;
+  /** Called when "Reschedule..." is clicked (offset or date) */
+  onReschedule: () => void;
+  onComplete: () => void;
+  onDelete: () => void;
+  /** Called with the click, to show the section menu */
+  onMoveToSection: (evt: MouseEvent) => void;
+  /** Called with the click, to show the date type menu */
+  onChangeDateType: (evt: MouseEvent) => void;
+  /** Called when the selection is cleared */
+  onClear: () => void;
+}
+
+/** Quick shift buttons: label and day offset */
+const SHIFT_BUTTONS: { label: string; days: number }[] = [
+  { label: "−1d", days: -1 },
+  { label: "+1d", days: 1 },
+  { label: "+1w", days: 7 },
+];
+
+/**
+ * Renders the selection toolbar. Built once; render() updates the count.
+ */
+export class SelectionToolbar {
+  private countEl: HTMLElement;
+
+  constructor(
+    private containerEl: HTMLElement,
+    private callbacks: SelectionToolbarCallbacks,
+  ) {
+    this.countEl = this.containerEl.createSpan({
+      cls: "calendar-selection-count",
+    });
+
+    const actionsEl = this.containerEl.createDiv({
+      cls: "calendar-selection-actions",
+    });
+
+    for (const { label, days } of SHIFT_BUTTONS) {
+      const btn = actionsEl.createEl("button", {
+        cls: "calendar-selection-btn",
+        text: label,
+        attr: {
+          "aria-label": `Move ${Math.abs(days)} ${Math.abs(days) === 1 ? "day" : "days"} ${days < 0 ? "earlier" : "later"}`,
+        },
+      });
+      btn.addEventListener("click", () => this.callbacks.onShift(days));
+    }
+
+    this.createButton(actionsEl, "calendar-clock", "Reschedule...", () =>
+      this.callbacks.onReschedule(),
+    );
+    this.createButton(actionsEl, "check-circle", "Complete", () =>
+      this.callbacks.onComplete(),
+    );
+    this.createButton(actionsEl, "folder-input", "Move to section", (evt) =>
+      this.callbacks.onMoveToSection(evt),
+    );
+    this.createButton(actionsEl, "calendar-cog", "Change date type", (evt) =>
+      this.callbacks.onChangeDateType(evt),
+    );
+    this.createButton(actionsEl, "trash-2", "Delete", () =>
+      this.callbacks.onDelete(),
+    );
+    this.createButton(actionsEl, "x", "Clear selection", () =>
+      this.callbacks.onClear(),
+    );
+  }
+
+  /**
+   * Updates the selected task count.
+   */
+  render(count: number): void {
+    this.countEl.setText(`${count} selected`);
+  }
+
+  /**
+   * Creates an icon button with a tooltip.
+   */
+  private createButton(
+    parent: HTMLElement,
+    icon: string,
+    label: string,
+    onClick: (evt: MouseEvent) => void,
+  ): HTMLElement {
+    const btn = parent.createEl("button", {
+      cls: "calendar-selection-btn clickable-icon",
+      attr: { "aria-label": label },
+    });
+    setIcon(btn, icon);
+    btn.addEventListener("click", onClick);
+    return btn;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Source Suggest Modal
+ * Fuzzy picker for a folder or tag, used to filter the vault calendar.
+ * Items use the source shorthand: "Folder/" for folders, "#tag" for tags.
+ */
+import { App, FuzzySuggestModal, TFolder, getAllTags } from "obsidian";
+import type { CalendarSource } from "../types/sourceTypes";
+
+/**
+ * Modal for picking a folder or tag source
+ */
+export class SourceSuggestModal extends FuzzySuggestModal<CalendarSource> {
+  private onChoose: (source: CalendarSource) => void;
+
+  constructor(app: App, onChoose: (source: CalendarSource) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Filter by folder or tag...");
+  }
+
+  /**
+   * Lists every folder (except the vault root) and every tag in use.
+   */
+  getItems(): CalendarSource[] {
+    const folders: CalendarSource[] = this.app.vault
+      .getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder)
+      .filter((folder) => !folder.isRoot())
+      .map((folder) => ({ type: "folder" as const, value: folder.path }))
+      .sort((a, b) => a.value.localeCompare(b.value));
+
+    const tags = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      for (const tag of cache ? (getAllTags(cache) ?? []) : []) {
+        tags.add(tag.replace(/^#/, ""));
+      }
+    }
+
+    return [
+      ...folders,
+      ...Array.from(tags)
+        .sort((a, b) => a.localeCompare(b))
+        .map((tag) => ({ type: "tag" as const, value: tag })),
+    ];
+  }
+
+  getItemText(source: CalendarSource): string {
+    return formatSource(source);
+  }
+
+  onChooseItem(source: CalendarSource): void {
+    this.onChoose(source);
+  }
+}
+
+/**
+ * Formats a folder or tag source in its shorthand ("Folder/" or "#tag").
+ */
+export function formatSource(source: CalendarSource): string {
+  return source.type === "tag" ? `#${source.value}` : `${source.value}/`;
+}
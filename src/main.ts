@@ -1,26 +1,36 @@
 import {
   Plugin,
+  TAbstractFile,
   TFile,
   TFolder,
   MarkdownView,
   WorkspaceLeaf,
   ViewState,
   debounce,
+  Notice,
+  normalizePath,
+  type ObsidianProtocolData,
 } from "obsidian";
 import { around } from "monkey-around";
 
 import {
   CalendarView,
   VIEW_TYPE_CALENDAR,
-  FRONTMATTER_KEY,
+  URI_ACTION,
   BASIC_FRONTMATTER,
   hasCalendarFrontmatter,
 } from "./CalendarView";
+import {
+  GlobalCalendarView,
+  VIEW_TYPE_GLOBAL_CALENDAR,
+} from "./GlobalCalendarView";
 import {
   CalendarSettings,
   createDefaultSettings,
   CalendarSettingsTab,
 } from "./Settings";
+import { migrateColorRule } from "./types/colorTypes";
+import { FRONTMATTER_KEY } from "./types/configTypes";
 
 /**
  * Calendar MD Plugin for Obsidian
@@ -34,6 +44,9 @@ export default class CalendarPlugin extends Plugin {
   /** Tracks view mode preference per file/leaf */
   calendarFileModes: Record<string, string> = {};
 
+  /** Calendar view state per leaf, restored when switching back from markdown */
+  private calendarViewStates: Record<string, Record<string, unknown>> = {};
+
   /** Whether the plugin is fully loaded */
   private _loaded: boolean = false;
 
@@ -45,6 +58,10 @@ export default class CalendarPlugin extends Plugin {
       VIEW_TYPE_CALENDAR,
       (leaf) => new CalendarView(leaf, this),
     );
+    this.registerView(
+      VIEW_TYPE_GLOBAL_CALENDAR,
+      (leaf) => new GlobalCalendarView(leaf, this),
+    );
 
     // Register monkey patches for auto-detection
     this.registerMonkeyPatches();
@@ -66,6 +83,11 @@ export default class CalendarPlugin extends Plugin {
     // Register file change watcher
     this.registerFileWatcher();
 
+    // Open calendars from obsidian://calendar-md links
+    this.registerObsidianProtocolHandler(URI_ACTION, (params) =>
+      this.openCalendarLink(params),
+    );
+
     this._loaded = true;
   }
 
@@ -80,6 +102,19 @@ export default class CalendarPlugin extends Plugin {
       callback: () => this.newCalendar(),
     });
 
+    // Open the vault calendar in a tab or the right sidebar
+    this.addCommand({
+      id: "open-vault-calendar",
+      name: "Open vault calendar",
+      callback: () => this.openVaultCalendar(false),
+    });
+
+    this.addCommand({
+      id: "open-vault-calendar-sidebar",
+      name: "Open vault calendar in sidebar",
+      callback: () => this.openVaultCalendar(true),
+    });
+
     // Open current file as calendar
     this.addCommand({
       id: "open-as-calendar",
@@ -103,7 +138,7 @@ export default class CalendarPlugin extends Plugin {
       id: "open-as-markdown",
       name: "Open current calendar as Markdown",
       checkCallback: (checking: boolean) => {
-        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        const view = this.getActiveFileCalendar();
         if (checking) {
           return !!view;
         }
@@ -124,8 +159,7 @@ export default class CalendarPlugin extends Plugin {
         const activeFile = this.app.workspace.getActiveFile();
         if (!activeFile) return false;
 
-        const calendarView =
-          this.app.workspace.getActiveViewOfType(CalendarView);
+        const calendarView = this.getActiveFileCalendar();
         const markdownView =
           this.app.workspace.getActiveViewOfType(MarkdownView);
 
@@ -147,6 +181,190 @@ export default class CalendarPlugin extends Plugin {
       },
     });
 
+    // Quick add a task to the active (or any open) calendar
+    this.addCommand({
+      id: "calendar-quick-add",
+      name: "Quick add task",
+      callback: () => {
+        const view =
+          this.getActiveFileCalendar() ??
+          this.app.workspace
+            .getLeavesOfType(VIEW_TYPE_CALENDAR)
+            .map((leaf) => leaf.view)
+            .find((v): v is CalendarView => v instanceof CalendarView);
+        if (!view) {
+          new Notice("Open a calendar to add tasks");
+          return;
+        }
+        view.openQuickAdd();
+      },
+    });
+
+    // Export to iCalendar
+    this.addCommand({
+      id: "calendar-export-ics",
+      name: "Export calendar to iCalendar (.ics)",
+      checkCallback: (checking: boolean) => {
+        const view = this.getActiveFileCalendar();
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.exportToIcs();
+        }
+      },
+    });
+
+    // Import from iCalendar
+    this.addCommand({
+      id: "calendar-import-ics",
+      name: "Import events from iCalendar (.ics)",
+      checkCallback: (checking: boolean) => {
+        const view = this.getActiveFileCalendar();
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.openIcsImport();
+        }
+      },
+    });
+
+    // Undo the last calendar edit
+    this.addCommand({
+      id: "calendar-undo",
+      name: "Undo last calendar edit",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view && view.canUndo();
+        }
+        if (view) {
+          view.undo();
+        }
+      },
+    });
+
+    // Redo the last undone calendar edit
+    this.addCommand({
+      id: "calendar-redo",
+      name: "Redo calendar edit",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view && view.canRedo();
+        }
+        if (view) {
+          view.redo();
+        }
+      },
+    });
+
+    // Show or hide the filter bar
+    this.addCommand({
+      id: "calendar-toggle-filter-bar",
+      name: "Toggle filter bar",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.toggleFilterBar();
+        }
+      },
+    });
+
+    // Toggle the color legend
+    this.addCommand({
+      id: "calendar-toggle-legend",
+      name: "Toggle color legend",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.toggleLegend();
+        }
+      },
+    });
+
+    // Clear the filter
+    this.addCommand({
+      id: "calendar-clear-filter",
+      name: "Clear filter",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.clearFilter();
+        }
+      },
+    });
+
+    // Save the current filter in the calendar file
+    this.addCommand({
+      id: "calendar-save-filter",
+      name: "Save current filter",
+      checkCallback: (checking: boolean) => {
+        const view = this.getActiveFileCalendar();
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.saveCurrentFilter();
+        }
+      },
+    });
+
+    // Apply one of the calendar's saved filters
+    this.addCommand({
+      id: "calendar-apply-saved-filter",
+      name: "Apply saved filter",
+      checkCallback: (checking: boolean) => {
+        const view = this.getActiveFileCalendar();
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.openSavedFilterPicker();
+        }
+      },
+    });
+
+    // Switch to year view
+    this.addCommand({
+      id: "calendar-year-view",
+      name: "Switch to Year view",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.setCurrentView("year");
+        }
+      },
+    });
+
+    // Switch to multi-month view
+    this.addCommand({
+      id: "calendar-multi-month-view",
+      name: "Switch to Multi-month view",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.setCurrentView("multi-month");
+        }
+      },
+    });
+
     // Switch to month view
     this.addCommand({
       id: "calendar-month-view",
@@ -156,8 +374,8 @@ export default class CalendarPlugin extends Plugin {
         if (checking) {
           return !!view;
         }
-        if (view && view.calendar) {
-          view.calendar.setView("month");
+        if (view) {
+          view.setCurrentView("month");
         }
       },
     });
@@ -171,8 +389,8 @@ export default class CalendarPlugin extends Plugin {
         if (checking) {
           return !!view;
         }
-        if (view && view.calendar) {
-          view.calendar.setView("week");
+        if (view) {
+          view.setCurrentView("week");
         }
       },
     });
@@ -186,8 +404,23 @@ export default class CalendarPlugin extends Plugin {
         if (checking) {
           return !!view;
         }
-        if (view && view.calendar) {
-          view.calendar.setView("day");
+        if (view) {
+          view.setCurrentView("day");
+        }
+      },
+    });
+
+    // Switch to agenda view
+    this.addCommand({
+      id: "calendar-agenda-view",
+      name: "Switch to Agenda view",
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(CalendarView);
+        if (checking) {
+          return !!view;
+        }
+        if (view) {
+          view.setCurrentView("agenda");
         }
       },
     });
@@ -201,13 +434,49 @@ export default class CalendarPlugin extends Plugin {
         if (checking) {
           return !!view;
         }
-        if (view && view.calendar) {
-          view.calendar.today();
+        if (view) {
+          view.goToToday();
         }
       },
     });
   }
 
+  /**
+   * Gets the active calendar view showing a calendar file (not the vault
+   * calendar).
+   */
+  private getActiveFileCalendar(): CalendarView | null {
+    const view = this.app.workspace.getActiveViewOfType(CalendarView);
+    return view && !(view instanceof GlobalCalendarView) ? view : null;
+  }
+
+  /**
+   * Opens the vault calendar, reusing an open one.
+   *
+   * @param sidebar - Open in the right sidebar instead of a new tab
+   */
+  async openVaultCalendar(sidebar: boolean): Promise<void> {
+    const leaf =
+      this.app.workspace.getLeavesOfType(VIEW_TYPE_GLOBAL_CALENDAR)[0] ??
+      (sidebar
+        ? this.app.workspace.getRightLeaf(false)
+        : this.app.workspace.getLeaf("tab"));
+    if (!leaf) return;
+
+    try {
+      if (!(leaf.view instanceof GlobalCalendarView)) {
+        await leaf.setViewState({
+          type: VIEW_TYPE_GLOBAL_CALENDAR,
+          active: true,
+        });
+      }
+      this.app.workspace.revealLeaf(leaf);
+    } catch (error) {
+      console.error("CalendarPlugin: Error opening vault calendar:", error);
+      new Notice("Failed to open vault calendar");
+    }
+  }
+
   /**
    * Registers file menu items
    */
@@ -293,6 +562,69 @@ export default class CalendarPlugin extends Plugin {
         }
       }),
     );
+
+    // Refresh calendars that aggregate tasks from a changed note.
+    // Uses metadata "changed" so tag sources see the updated cache.
+    const notifySourceChange = (file: TAbstractFile, oldPath?: string) => {
+      if (!(file instanceof TFile)) return;
+      const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR);
+      leaves.forEach((leaf) => {
+        if (
+          leaf.view instanceof CalendarView &&
+          leaf.view.isSourceFile(file, oldPath)
+        ) {
+          leaf.view.requestSourceRefresh();
+        }
+      });
+    };
+
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => notifySourceChange(file)),
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => notifySourceChange(file)),
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        notifySourceChange(file, oldPath);
+        if (file instanceof TFile) this.onCalendarRenamed(file, oldPath);
+      }),
+    );
+  }
+
+  /**
+   * Moves settings keyed by file path (legacy calendar colors and
+   * file-specific color rules) to a renamed file, and re-applies the
+   * calendar's overrides in views showing it.
+   */
+  private async onCalendarRenamed(file: TFile, oldPath: string): Promise<void> {
+    const { colors } = this.settings;
+    let changed = false;
+
+    if (colors.calendarSources[oldPath]) {
+      colors.calendarSources[file.path] = colors.calendarSources[oldPath];
+      delete colors.calendarSources[oldPath];
+      changed = true;
+    }
+
+    for (const rule of colors.colorRules) {
+      const index = rule.applyToFiles?.indexOf(oldPath) ?? -1;
+      if (rule.applyToFiles && index !== -1) {
+        rule.applyToFiles[index] = file.path;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.saveSettings();
+      return;
+    }
+
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR).forEach((leaf) => {
+      if (leaf.view instanceof CalendarView && leaf.view.file === file) {
+        leaf.view.onSettingsChanged();
+      }
+    });
   }
 
   /**
@@ -314,6 +646,7 @@ export default class CalendarPlugin extends Plugin {
             ) {
               delete self.calendarFileModes[(this as any).id || state.file];
             }
+            delete self.calendarViewStates[(this as any).id || state?.file];
             return next.apply(this);
           };
         },
@@ -362,6 +695,46 @@ export default class CalendarPlugin extends Plugin {
     );
   }
 
+  /**
+   * Opens a calendar from an obsidian:// link. The file is given as a vault
+   * path or link text; view, date and section are applied as view state.
+   * Reuses a leaf already showing the calendar.
+   */
+  async openCalendarLink(params: ObsidianProtocolData): Promise<void> {
+    const { file: filePath, view, date, section } = params;
+    if (!filePath) {
+      new Notice("Calendar link is missing the file");
+      return;
+    }
+
+    const file =
+      this.app.metadataCache.getFirstLinkpathDest(filePath, "") ??
+      this.app.vault.getAbstractFileByPath(normalizePath(filePath));
+    if (!(file instanceof TFile)) {
+      new Notice(`Calendar not found: ${filePath}`);
+      return;
+    }
+
+    const leaf =
+      this.app.workspace
+        .getLeavesOfType(VIEW_TYPE_CALENDAR)
+        .find((l) => l.view instanceof CalendarView && l.view.file === file) ??
+      this.app.workspace.getLeaf(false);
+    this.calendarFileModes[(leaf as any).id || file.path] = VIEW_TYPE_CALENDAR;
+
+    try {
+      await leaf.setViewState({
+        type: VIEW_TYPE_CALENDAR,
+        state: { file: file.path, view, date, section },
+        active: true,
+      });
+      this.app.workspace.revealLeaf(leaf);
+    } catch (error) {
+      console.error("CalendarPlugin: Error opening calendar link:", error);
+      new Notice("Failed to open calendar link");
+    }
+  }
+
   /**
    * Creates a new calendar file
    */
@@ -405,9 +778,18 @@ export default class CalendarPlugin extends Plugin {
    * Sets the leaf to calendar view
    */
   async setCalendarView(leaf: WorkspaceLeaf): Promise<void> {
+    const state = leaf.view.getState();
+    const leafId = (leaf as any).id || state.file;
+    const calendarState = this.calendarViewStates[leafId];
+    delete this.calendarViewStates[leafId];
+
     await leaf.setViewState({
       type: VIEW_TYPE_CALENDAR,
-      state: leaf.view.getState(),
+      // Restore view, date and section if the leaf still shows the same file
+      state:
+        calendarState?.file === state.file
+          ? { ...calendarState, ...state }
+          : state,
     });
   }
 
@@ -415,6 +797,11 @@ export default class CalendarPlugin extends Plugin {
    * Sets the leaf to markdown view
    */
   async setMarkdownView(leaf: WorkspaceLeaf): Promise<void> {
+    if (leaf.view instanceof CalendarView) {
+      const state = leaf.view.getState();
+      this.calendarViewStates[(leaf as any).id || state.file] = state;
+    }
+
     await leaf.setViewState({
       type: "markdown",
       state: leaf.view.getState(),
@@ -440,10 +827,13 @@ export default class CalendarPlugin extends Plugin {
         },
         // Deep copy arrays to prevent mutation
         colorRules: savedData?.colors?.colorRules
-          ? savedData.colors.colorRules.map((rule: any) => ({
-              ...rule,
-              color: { ...rule.color },
-            }))
+          ? savedData.colors.colorRules.map((rule: any) =>
+              migrateColorRule({
+                ...rule,
+                color: rule.color ? { ...rule.color } : undefined,
+                style: rule.style ? { ...rule.style } : undefined,
+              }),
+            )
           : [],
         // Deep copy calendarSources
         calendarSources: savedData?.colors?.calendarSources
@@ -461,15 +851,38 @@ export default class CalendarPlugin extends Plugin {
       datePriority: savedData?.datePriority
         ? [...savedData.datePriority]
         : [...defaults.datePriority],
+      // Older versions recognized a single format, also used for writing
+      recognizedDateFormats: savedData?.recognizedDateFormats
+        ? [...savedData.recognizedDateFormats]
+        : savedData?.recognizedDateFormat
+          ? [savedData.recognizedDateFormat]
+          : [...defaults.recognizedDateFormats],
+      writeDateFormat:
+        savedData?.writeDateFormat ??
+        savedData?.recognizedDateFormat ??
+        defaults.writeDateFormat,
     };
+    delete (this.settings as { recognizedDateFormat?: unknown })
+      .recognizedDateFormat;
   }
 
   async saveSettings(): Promise<void> {
     await this.saveData(this.settings);
+
+    // Re-render open calendars so changes take effect immediately
+    [
+      ...this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR),
+      ...this.app.workspace.getLeavesOfType(VIEW_TYPE_GLOBAL_CALENDAR),
+    ].forEach((leaf) => {
+      if (leaf.view instanceof CalendarView) {
+        leaf.view.onSettingsChanged();
+      }
+    });
   }
 
   onunload(): void {
     this._loaded = false;
     this.calendarFileModes = {};
+    this.calendarViewStates = {};
   }
 }
@@ -0,0 +1,373 @@
+/**
+ * Color Parser - Parses CSS colors and computes WCAG contrast
+ *
+ * Supported formats:
+ * - Hex: #rgb, #rgba, #rrggbb, #rrggbbaa
+ * - rgb()/rgba() and hsl()/hsla(), with commas or spaces and "/ alpha"
+ * - Named colors (e.g. "tomato") and "transparent"
+ * - var() references, resolved against an element's computed style
+ *
+ * Other formats (calc(), color-mix(), lab()...) are left to the browser:
+ * parseCssColor() reads back the computed color of a probe element.
+ */
+
+/**
+ * A color as red, green and blue channels (0-255) and alpha (0-1)
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** Text color used on dark backgrounds */
+export const LIGHT_TEXT_COLOR = "#ffffff";
+
+/** Text color used on light backgrounds */
+export const DARK_TEXT_COLOR = "#1a1a1a";
+
+/** Nesting limit when resolving var() references */
+const MAX_VARIABLE_DEPTH = 10;
+
+/**
+ * CSS named colors, as "name:rrggbb" pairs
+ */
+const NAMED_COLORS_SOURCE =
+  "aliceblue:f0f8ff,antiquewhite:faebd7,aqua:00ffff,aquamarine:7fffd4," +
+  "azure:f0ffff,beige:f5f5dc,bisque:ffe4c4,black:000000," +
+  "blanchedalmond:ffebcd,blue:0000ff,blueviolet:8a2be2,brown:a52a2a," +
+  "burlywood:deb887,cadetblue:5f9ea0,chartreuse:7fff00,chocolate:d2691e," +
+  "coral:ff7f50,cornflowerblue:6495ed,cornsilk:fff8dc,crimson:dc143c," +
+  "cyan:00ffff,darkblue:00008b,darkcyan:008b8b,darkgoldenrod:b8860b," +
+  "darkgray:a9a9a9,darkgreen:006400,darkgrey:a9a9a9,darkkhaki:bdb76b," +
+  "darkmagenta:8b008b,darkolivegreen:556b2f,darkorange:ff8c00," +
+  "darkorchid:9932cc,darkred:8b0000,darksalmon:e9967a,darkseagreen:8fbc8f," +
+  "darkslateblue:483d8b,darkslategray:2f4f4f,darkslategrey:2f4f4f," +
+  "darkturquoise:00ced1,darkviolet:9400d3,deeppink:ff1493," +
+  "deepskyblue:00bfff,dimgray:696969,dimgrey:696969,dodgerblue:1e90ff," +
+  "firebrick:b22222,floralwhite:fffaf0,forestgreen:228b22,fuchsia:ff00ff," +
+  "gainsboro:dcdcdc,ghostwhite:f8f8ff,gold:ffd700,goldenrod:daa520," +
+  "gray:808080,green:008000,greenyellow:adff2f,grey:808080,honeydew:f0fff0," +
+  "hotpink:ff69b4,indianred:cd5c5c,indigo:4b0082,ivory:fffff0,khaki:f0e68c," +
+  "lavender:e6e6fa,lavenderblush:fff0f5,lawngreen:7cfc00," +
+  "lemonchiffon:fffacd,lightblue:add8e6,lightcoral:f08080,lightcyan:e0ffff," +
+  "lightgoldenrodyellow:fafad2,lightgray:d3d3d3,lightgreen:90ee90," +
+  "lightgrey:d3d3d3,lightpink:ffb6c1,lightsalmon:ffa07a," +
+  "lightseagreen:20b2aa,lightskyblue:87cefa,lightslategray:778899," +
+  "lightslategrey:778899,lightsteelblue:b0c4de,lightyellow:ffffe0," +
+  "lime:00ff00,limegreen:32cd32,linen:faf0e6,magenta:ff00ff,maroon:800000," +
+  "mediumaquamarine:66cdaa,mediumblue:0000cd,mediumorchid:ba55d3," +
+  "mediumpurple:9370db,mediumseagreen:3cb371,mediumslateblue:7b68ee," +
+  "mediumspringgreen:00fa9a,mediumturquoise:48d1cc," +
+  "mediumvioletred:c71585,midnightblue:191970,mintcream:f5fffa," +
+  "mistyrose:ffe4e1,moccasin:ffe4b5,navajowhite:ffdead,navy:000080," +
+  "oldlace:fdf5e6,olive:808000,olivedrab:6b8e23,orange:ffa500," +
+  "orangered:ff4500,orchid:da70d6,palegoldenrod:eee8aa,palegreen:98fb98," +
+  "paleturquoise:afeeee,palevioletred:db7093,papayawhip:ffefd5," +
+  "peachpuff:ffdab9,peru:cd853f,pink:ffc0cb,plum:dda0dd,powderblue:b0e0e6," +
+  "purple:800080,rebeccapurple:663399,red:ff0000,rosybrown:bc8f8f," +
+  "royalblue:4169e1,saddlebrown:8b4513,salmon:fa8072,sandybrown:f4a460," +
+  "seagreen:2e8b57,seashell:fff5ee,sienna:a0522d,silver:c0c0c0," +
+  "skyblue:87ceeb,slateblue:6a5acd,slategray:708090,slategrey:708090," +
+  "snow:fffafa,springgreen:00ff7f,steelblue:4682b4,tan:d2b48c,teal:008080," +
+  "thistle:d8bfd8,tomato:ff6347,turquoise:40e0d0,violet:ee82ee," +
+  "wheat:f5deb3,white:ffffff,whitesmoke:f5f5f5,yellow:ffff00," +
+  "yellowgreen:9acd32";
+
+/** Named colors by name, built on first use */
+let namedColors: Map<string, string> | null = null;
+
+/**
+ * Gets the CSS named colors, as hex digits by name.
+ */
+export function getNamedColors(): ReadonlyMap<string, string> {
+  if (!namedColors) {
+    namedColors = new Map(
+      NAMED_COLORS_SOURCE.split(",").map(
+        (pair) => pair.split(":") as [string, string],
+      ),
+    );
+  }
+  return namedColors;
+}
+
+/**
+ * Parses hex digits (3, 4, 6 or 8 of them).
+ */
+function parseHex(hex: string): RgbaColor | null {
+  if (!/^[0-9a-f]+$/i.test(hex)) return null;
+
+  // Expand the short forms (#rgb, #rgba)
+  if (hex.length === 3 || hex.length === 4) {
+    hex = hex
+      .split("")
+      .map((digit) => digit + digit)
+      .join("");
+  }
+  if (hex.length !== 6 && hex.length !== 8) return null;
+
+  const channel = (index: number) =>
+    parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  return {
+    r: channel(0),
+    g: channel(1),
+    b: channel(2),
+    a: hex.length === 8 ? channel(3) / 255 : 1,
+  };
+}
+
+/**
+ * Parses a number or percentage, where 100% equals `max`.
+ */
+function parseNumber(value: string, max: number): number | null {
+  if (value === "none") return 0;
+  const match = value.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  return match[2] ? (number / 100) * max : number;
+}
+
+/**
+ * Parses a hue angle in degrees (deg, grad, rad and turn units accepted).
+ */
+function parseHue(value: string): number | null {
+  const match = value.match(
+    /^([+-]?(?:\d+\.?\d*|\.\d+))(deg|grad|rad|turn)?$/i,
+  );
+  if (!match) return value === "none" ? 0 : null;
+
+  const number = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case "grad":
+      return number * 0.9;
+    case "rad":
+      return (number * 180) / Math.PI;
+    case "turn":
+      return number * 360;
+    default:
+      return number;
+  }
+}
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness 0-1) to RGB.
+ */
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const channel = (offset: number) => {
+    const t = (hue + offset + 1) % 1;
+    const x = Math.min(Math.max(Math.abs(t * 6 - 3) - 1, 0), 1);
+    return (l + chroma * (x - 0.5)) * 255;
+  };
+  return [channel(0), channel(2 / 3), channel(1 / 3)];
+}
+
+/**
+ * Parses rgb()/rgba() and hsl()/hsla() arguments.
+ */
+function parseColorFunction(name: string, args: string): RgbaColor | null {
+  const parts = args.trim().split(/\s*[,/]\s*|\s+/);
+  if (parts.length !== 3 && parts.length !== 4) return null;
+
+  const alpha = parts.length === 4 ? parseNumber(parts[3], 1) : 1;
+  if (alpha === null) return null;
+
+  let rgb: [number, number, number];
+  if (name === "rgb" || name === "rgba") {
+    const channels = parts.slice(0, 3).map((part) => parseNumber(part, 255));
+    if (channels.some((channel) => channel === null)) return null;
+    rgb = channels as [number, number, number];
+  } else {
+    const hue = parseHue(parts[0]);
+    const saturation = parseNumber(parts[1], 1);
+    const lightness = parseNumber(parts[2], 1);
+    if (hue === null || saturation === null || lightness === null) return null;
+    // Unitless saturation/lightness (modern syntax) are percentages
+    const fraction = (value: number, part: string) =>
+      part.endsWith("%") ? value : value / 100;
+    rgb = hslToRgb(
+      hue,
+      clamp(fraction(saturation, parts[1]), 0, 1),
+      clamp(fraction(lightness, parts[2]), 0, 1),
+    );
+  }
+
+  return {
+    r: clamp(rgb[0], 0, 255),
+    g: clamp(rgb[1], 0, 255),
+    b: clamp(rgb[2], 0, 255),
+    a: clamp(alpha, 0, 1),
+  };
+}
+
+/**
+ * Limits a number to a range.
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Parses a CSS color value. var() references must be resolved first
+ * (see resolveCssVariables).
+ *
+ * @param value - Color in any supported format
+ * @returns The color, or null if the format is not supported
+ */
+export function parseColor(value: string): RgbaColor | null {
+  const color = value.trim().toLowerCase();
+
+  if (color.startsWith("#")) return parseHex(color.slice(1));
+  if (color === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+
+  const functionMatch = color.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (functionMatch) {
+    return parseColorFunction(functionMatch[1], functionMatch[2]);
+  }
+
+  const named = getNamedColors().get(color);
+  return named ? parseHex(named) : null;
+}
+
+/**
+ * Replaces var(--name) and var(--name, fallback) references with the
+ * custom property values computed for an element. References inside those
+ * values are resolved too.
+ *
+ * @param value - CSS value, possibly containing var() references
+ * @param el - Element whose custom properties are used
+ * @returns The value without var() references (unset ones without a
+ *   fallback become empty)
+ */
+export function resolveCssVariables(
+  value: string,
+  el: Element = document.body,
+): string {
+  let style: CSSStyleDeclaration | null = null;
+
+  const resolve = (input: string, depth: number): string => {
+    const start = input.indexOf("var(");
+    if (start === -1 || depth > MAX_VARIABLE_DEPTH) return input;
+
+    // Find the closing parenthesis and the fallback separator
+    let nesting = 0;
+    let comma = -1;
+    let end = -1;
+    for (let i = start + 4; i < input.length; i++) {
+      const char = input[i];
+      if (char === "(") nesting++;
+      else if (char === ")" && nesting > 0) nesting--;
+      else if (char === ")") {
+        end = i;
+        break;
+      } else if (char === "," && nesting === 0 && comma === -1) comma = i;
+    }
+    if (end === -1) return input;
+
+    const name = input.slice(start + 4, comma === -1 ? end : comma).trim();
+    style ??= getComputedStyle(el);
+    let replacement = style.getPropertyValue(name).trim();
+    if (!replacement && comma !== -1) {
+      replacement = input.slice(comma + 1, end).trim();
+    }
+
+    const resolved =
+      input.slice(0, start) +
+      resolve(replacement, depth + 1) +
+      input.slice(end + 1);
+    return resolve(resolved, depth + 1);
+  };
+
+  return resolve(value, 0);
+}
+
+/**
+ * Parses a color as used in the page: var() references are resolved
+ * against the element, and formats parseColor() doesn't support are
+ * computed by the browser.
+ *
+ * @param value - Color in any CSS format
+ * @param el - Element the color is used in
+ * @returns The color, or null if the value is not a valid color
+ */
+export function parseCssColor(
+  value: string,
+  el: HTMLElement,
+): RgbaColor | null {
+  const resolved = resolveCssVariables(value, el);
+  const color = parseColor(resolved);
+  if (color || !resolved) return color;
+
+  // Let the browser compute it (always rgb() or rgba())
+  const probe = el.createSpan();
+  probe.style.color = resolved;
+  const computed = probe.style.color ? getComputedStyle(probe).color : "";
+  probe.remove();
+  return computed ? parseColor(computed) : null;
+}
+
+/**
+ * Composites a translucent color over an opaque backdrop.
+ */
+export function blendColors(top: RgbaColor, backdrop: RgbaColor): RgbaColor {
+  const mix = (a: number, b: number) => a * top.a + b * (1 - top.a);
+  return {
+    r: mix(top.r, backdrop.r),
+    g: mix(top.g, backdrop.g),
+    b: mix(top.b, backdrop.b),
+    a: 1,
+  };
+}
+
+/**
+ * Computes the WCAG relative luminance of a color (alpha ignored).
+ *
+ * @returns Luminance from 0 (black) to 1 (white)
+ */
+export function getRelativeLuminance(color: RgbaColor): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.04045
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return (
+    0.2126 * linear(color.r) +
+    0.7152 * linear(color.g) +
+    0.0722 * linear(color.b)
+  );
+}
+
+/**
+ * Computes the WCAG contrast ratio between two opaque colors.
+ *
+ * @returns Ratio from 1 (no contrast) to 21 (black on white)
+ */
+export function getContrastRatio(a: RgbaColor, b: RgbaColor): number {
+  const lighter = Math.max(getRelativeLuminance(a), getRelativeLuminance(b));
+  const darker = Math.min(getRelativeLuminance(a), getRelativeLuminance(b));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Picks the text color with the higher contrast on a background.
+ *
+ * @param background - Background color
+ * @param backdrop - What a translucent background is shown over
+ *   (white when not given)
+ * @returns LIGHT_TEXT_COLOR or DARK_TEXT_COLOR
+ */
+export function getReadableTextColor(
+  background: RgbaColor,
+  backdrop: RgbaColor = { r: 255, g: 255, b: 255, a: 1 },
+): string {
+  const opaque =
+    background.a < 1 ? blendColors(background, backdrop) : background;
+  const light = parseColor(LIGHT_TEXT_COLOR) as RgbaColor;
+  const dark = parseColor(DARK_TEXT_COLOR) as RgbaColor;
+  return getContrastRatio(opaque, light) >= getContrastRatio(opaque, dark)
+    ? LIGHT_TEXT_COLOR
+    : DARK_TEXT_COLOR;
+}
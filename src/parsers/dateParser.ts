@@ -427,26 +427,34 @@ function extractKanbanDates(line: string): ParsedDateField[] {
  * Results are sorted by position in the line.
  *
  * @param line - The task line to parse
- * @param formatFilter - Optional filter to only extract specific format type
+ * @param formatFilter - Optional filter to only extract specific format type(s)
  * @returns Array of parsed date fields, sorted by position
  */
 export function extractAllDates(
   line: string,
-  formatFilter?: DateFormatType,
+  formatFilter?: DateFormatType | DateFormatType[],
 ): ParsedDateField[] {
   let allDates: ParsedDateField[] = [];
+  const formats =
+    formatFilter === undefined
+      ? null
+      : Array.isArray(formatFilter)
+        ? formatFilter
+        : [formatFilter];
+  const includes = (format: DateFormatType) =>
+    !formats || formats.includes(format);
 
   // Extract based on format filter (or all if no filter)
-  if (!formatFilter || formatFilter === "tasks") {
+  if (includes("tasks")) {
     allDates.push(...extractEmojiDates(line));
   }
-  if (!formatFilter || formatFilter === "dataview") {
+  if (includes("dataview")) {
     allDates.push(...extractDataviewDates(line));
   }
-  if (!formatFilter || formatFilter === "simple") {
+  if (includes("simple")) {
     allDates.push(...extractSimpleDates(line));
   }
-  if (!formatFilter || formatFilter === "kanban") {
+  if (includes("kanban")) {
     allDates.push(...extractKanbanDates(line));
   }
 
@@ -471,7 +479,7 @@ export function extractAllDates(
  *
  * @param line - The task line to parse
  * @param priorityOrder - Optional custom priority order
- * @param formatFilter - Optional filter to only consider specific format type
+ * @param formatFilter - Optional filter to only consider specific format type(s)
  * @returns The primary date field, or null if no dates found
  */
 export function getPrimaryDate(
@@ -484,7 +492,7 @@ export function getPrimaryDate(
     DateFieldType.Done,
     DateFieldType.Cancelled,
   ],
-  formatFilter?: DateFormatType,
+  formatFilter?: DateFormatType | DateFormatType[],
 ): ParsedDateField | null {
   const allDates = extractAllDates(line, formatFilter);
 
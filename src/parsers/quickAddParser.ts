@@ -0,0 +1,538 @@
+/**
+ * Quick Add Parser Module
+ *
+ * Parses natural-language task input such as
+ * "Dentist tomorrow 3pm for 1h #health !high" or "Review every friday":
+ * 1. Dates: today, tomorrow, yesterday, weekdays ("friday", "next friday"),
+ *    "in 3 days", "next week", "2025-03-14", "mar 14", "14 march 2026"
+ * 2. Times: "3pm", "3:30pm", "15:00", "at 9", "noon", ranges "3pm-4:30pm"
+ * 3. Durations: "for 1h", "for 1h30m", "for 45 min", "for 2 hours"
+ * 4. Recurrence: any Tasks plugin rule ("every friday", "every 2 weeks")
+ * 5. Priority: !highest, !high, !medium, !low, !lowest
+ *
+ * Everything else (including #tags) is kept as the task title.
+ */
+
+import { moment } from "obsidian";
+import { parseRecurrence } from "./recurrenceParser";
+import type { RecurrenceRule } from "./recurrenceParser";
+
+/**
+ * Task priority, as used by the Tasks plugin
+ */
+export type QuickAddPriority = "highest" | "high" | "medium" | "low" | "lowest";
+
+/**
+ * Tasks plugin priority signifiers
+ */
+export const PRIORITY_EMOJIS: Record<QuickAddPriority, string> = {
+  highest: "🔺",
+  high: "⏫",
+  medium: "🔼",
+  low: "🔽",
+  lowest: "⏬",
+};
+
+/**
+ * Result of parsing quick-add input
+ */
+export interface QuickAddResult {
+  /** Task title with parsed tokens removed (tags are kept) */
+  title: string;
+  /** Date (YYYY-MM-DD), if given or derived from a default/recurrence */
+  date?: string;
+  /** End date (YYYY-MM-DD), when the end time falls on a later day */
+  endDate?: string;
+  /** Start time (HH:mm) */
+  startTime?: string;
+  /** End time (HH:mm), from a time range or a duration */
+  endTime?: string;
+  /** Duration in minutes, if given */
+  durationMinutes?: number;
+  /** Recurrence rule text without marker (e.g. "every friday") */
+  recurrence?: string;
+  /** Priority, if given */
+  priority?: QuickAddPriority;
+  /** Tags in the title, without # */
+  tags: string[];
+}
+
+/**
+ * Options for parsing quick-add input
+ */
+export interface QuickAddOptions {
+  /** Reference date for relative dates (defaults to now) */
+  today?: moment.Moment;
+  /** Date used when the input has none (e.g. the clicked calendar day) */
+  defaultDate?: string;
+  /** End date used with the default date (e.g. a multi-day selection) */
+  defaultEndDate?: string;
+  /** Start time used when the input has no time */
+  defaultStartTime?: string;
+  /** End time used when the input has no time */
+  defaultEndTime?: string;
+}
+
+/** Maximum number of words a recurrence rule may span */
+const MAX_RULE_WORDS = 10;
+
+/** Weekday names mapped to moment weekday indices */
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+/** Month names mapped to moment month indices */
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  january: 0,
+  feb: 1,
+  february: 1,
+  mar: 2,
+  march: 2,
+  apr: 3,
+  april: 3,
+  may: 4,
+  jun: 5,
+  june: 5,
+  jul: 6,
+  july: 6,
+  aug: 7,
+  august: 7,
+  sep: 8,
+  sept: 8,
+  september: 8,
+  oct: 9,
+  october: 9,
+  nov: 10,
+  november: 10,
+  dec: 11,
+  december: 11,
+};
+
+/** Priority keywords (after "!") */
+const PRIORITIES: Record<string, QuickAddPriority> = {
+  highest: "highest",
+  high: "high",
+  medium: "medium",
+  med: "medium",
+  low: "low",
+  lowest: "lowest",
+};
+
+/** Relative offset units ("in 3 days") mapped to moment units */
+const OFFSET_UNITS: Record<string, moment.unitOfTime.DurationConstructor> = {
+  d: "day",
+  day: "day",
+  days: "day",
+  w: "week",
+  wk: "week",
+  week: "week",
+  weeks: "week",
+  // "m" is left out: durations and time blocks read it as minutes
+  mo: "month",
+  month: "month",
+  months: "month",
+  y: "year",
+  year: "year",
+  years: "year",
+};
+
+/** A single time: 3pm, 3:30pm, 15:00, noon */
+const TIME_PATTERN = "(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?";
+
+/** Time range in a single word: 3pm-4pm, 10:00-11:30, 3-4pm */
+const TIME_RANGE_REGEX = new RegExp(`^${TIME_PATTERN}-${TIME_PATTERN}$`, "i");
+
+/** Single time word */
+const TIME_REGEX = new RegExp(`^${TIME_PATTERN}$`, "i");
+
+/** Compact duration: 1h, 30m, 1h30m, 1.5h, 90min */
+const COMPACT_DURATION_REGEX =
+  /^(?:(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours))?(?:(\d+)\s*(?:m|min|mins|minute|minutes))?$/i;
+
+/**
+ * Converts hour/minute/meridiem parts to minutes after midnight.
+ * Without am/pm, hours up to 23 are taken as 24-hour clock values.
+ */
+function toMinutes(
+  hourText: string,
+  minuteText: string | undefined,
+  meridiem: string | undefined,
+): number | null {
+  let hour = parseInt(hourText, 10);
+  const minute = minuteText ? parseInt(minuteText, 10) : 0;
+  if (minute > 59) return null;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    const pm = meridiem.toLowerCase() === "pm";
+    if (hour === 12) hour = pm ? 12 : 0;
+    else if (pm) hour += 12;
+  } else if (hour > 23) {
+    return null;
+  }
+
+  return hour * 60 + minute;
+}
+
+/**
+ * Formats minutes after midnight as HH:mm.
+ */
+function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Parses a compact duration word ("1h30m", "45min") into minutes.
+ */
+function parseCompactDuration(word: string): number | null {
+  const match = word.match(COMPACT_DURATION_REGEX);
+  if (!match || (!match[1] && !match[2])) return null;
+  const hours = match[1] ? parseFloat(match[1]) : 0;
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const total = Math.round(hours * 60 + minutes);
+  return total > 0 ? total : null;
+}
+
+/**
+ * Finds the first date on or after `from` that matches a recurrence rule,
+ * used as the start of a rule given without a date.
+ */
+function getFirstOccurrence(
+  rule: RecurrenceRule,
+  from: moment.Moment,
+): moment.Moment {
+  if (rule.weekdays && rule.weekdays.length > 0) {
+    const date = from.clone();
+    while (!rule.weekdays.includes(date.day())) date.add(1, "day");
+    return date;
+  }
+
+  if (rule.unit === "month" && rule.monthDay !== undefined) {
+    const date = from.clone();
+    for (let i = 0; i < 2; i++) {
+      const days = date.daysInMonth();
+      const day = rule.monthDay === -1 ? days : Math.min(rule.monthDay, days);
+      const candidate = date.clone().date(day);
+      if (!candidate.isBefore(from, "day")) return candidate;
+      date.add(1, "month").date(1);
+    }
+    return date;
+  }
+
+  return from.clone();
+}
+
+/**
+ * Parses natural-language quick-add input.
+ *
+ * @param input - Text typed by the user
+ * @param options - Reference date and defaults
+ * @returns Parsed title, date, time, duration, recurrence and priority
+ */
+export function parseQuickAdd(
+  input: string,
+  options: QuickAddOptions = {},
+): QuickAddResult {
+  const today = (options.today ?? moment()).clone().startOf("day");
+  const words = input.trim().split(/\s+/).filter(Boolean);
+  const lower = words.map((w) => w.toLowerCase());
+  const titleWords: string[] = [];
+
+  let date: moment.Moment | undefined;
+  let startMinutes: number | undefined;
+  let endMinutes: number | undefined;
+  let durationMinutes: number | undefined;
+  let rule: RecurrenceRule | undefined;
+  let priority: QuickAddPriority | undefined;
+
+  let i = 0;
+  while (i < words.length) {
+    const word = lower[i];
+    const next = lower[i + 1];
+
+    // Recurrence: longest "every ..." run that forms a valid rule
+    if (word === "every" && !rule) {
+      let best = 0;
+      for (
+        let j = i + 2;
+        j <= Math.min(words.length, i + MAX_RULE_WORDS);
+        j++
+      ) {
+        const candidate = `🔁 ${words.slice(i, j).join(" ")}`;
+        const parsed = parseRecurrence(candidate);
+        if (parsed && parsed.raw === candidate) {
+          rule = parsed;
+          best = j;
+        }
+      }
+      if (best > 0) {
+        i = best;
+        continue;
+      }
+    }
+
+    // Priority: !high
+    const priorityMatch = word.match(/^!(\w+)$/);
+    if (priorityMatch && PRIORITIES[priorityMatch[1]] && !priority) {
+      priority = PRIORITIES[priorityMatch[1]];
+      i++;
+      continue;
+    }
+
+    // Duration: for 1h30m / for 45 min / for 2 hours
+    if (word === "for" && next && durationMinutes === undefined) {
+      const compact = parseCompactDuration(next);
+      if (compact) {
+        durationMinutes = compact;
+        i += 2;
+        continue;
+      }
+      const unit = lower[i + 2];
+      const amount = parseFloat(next);
+      if (!isNaN(amount) && unit) {
+        const minutes = parseCompactDuration(`${amount}${unit}`);
+        if (minutes) {
+          durationMinutes = minutes;
+          i += 3;
+          continue;
+        }
+      }
+    }
+
+    // Dates (optionally preceded by "on")
+    if (!date) {
+      const offset = word === "on" ? 1 : 0;
+      const parsed = parseDateAt(lower, i + offset, today);
+      if (parsed) {
+        date = parsed.date;
+        i += offset + parsed.length;
+        continue;
+      }
+    }
+
+    // Times (optionally preceded by "at")
+    if (startMinutes === undefined) {
+      const offset = word === "at" ? 1 : 0;
+      const parsed = parseTimeAt(lower, i + offset, offset === 1);
+      if (parsed) {
+        startMinutes = parsed.start;
+        endMinutes = parsed.end;
+        i += offset + parsed.length;
+        continue;
+      }
+    }
+
+    titleWords.push(words[i]);
+    i++;
+  }
+
+  // Fill in the date: explicit, then default, then the rule's first occurrence
+  const usesDefaultDate = !date && !!options.defaultDate;
+  if (!date && options.defaultDate) {
+    date = moment(options.defaultDate, "YYYY-MM-DD");
+  }
+  if (!date && rule) {
+    date = getFirstOccurrence(rule, today);
+  }
+  if (!date && startMinutes !== undefined) {
+    date = today.clone();
+  }
+
+  const result: QuickAddResult = {
+    title: titleWords.join(" "),
+    tags: titleWords.filter((w) => /^#[^\s#]+$/.test(w)).map((w) => w.slice(1)),
+  };
+  if (date) result.date = date.format("YYYY-MM-DD");
+  if (usesDefaultDate && options.defaultEndDate) {
+    result.endDate = options.defaultEndDate;
+  }
+  if (rule) result.recurrence = rule.text;
+  if (priority) result.priority = priority;
+  if (durationMinutes !== undefined) result.durationMinutes = durationMinutes;
+
+  if (startMinutes !== undefined) {
+    if (endMinutes === undefined && durationMinutes !== undefined) {
+      endMinutes = startMinutes + durationMinutes;
+    }
+    result.startTime = formatMinutes(startMinutes);
+    if (endMinutes !== undefined) {
+      // An end at or before the start (11pm-1am) falls on the next day
+      if (endMinutes <= startMinutes && endMinutes < 1440) endMinutes += 1440;
+      result.endTime = formatMinutes(endMinutes);
+      const dayOffset = Math.floor(endMinutes / 1440);
+      if (dayOffset > 0 && date) {
+        result.endDate = date
+          .clone()
+          .add(dayOffset, "day")
+          .format("YYYY-MM-DD");
+      }
+    }
+  } else if (options.defaultStartTime && usesDefaultDate) {
+    result.startTime = options.defaultStartTime;
+    result.endTime = options.defaultEndTime;
+  }
+
+  return result;
+}
+
+/**
+ * Parses a date starting at word `i`.
+ *
+ * @returns The date and the number of words it spans, or null
+ */
+function parseDateAt(
+  words: string[],
+  i: number,
+  today: moment.Moment,
+): { date: moment.Moment; length: number } | null {
+  const word = words[i];
+  if (!word) return null;
+
+  switch (word) {
+    case "today":
+    case "tod":
+      return { date: today.clone(), length: 1 };
+    case "tomorrow":
+    case "tmr":
+    case "tmrw":
+      return { date: today.clone().add(1, "day"), length: 1 };
+    case "yesterday":
+      return { date: today.clone().subtract(1, "day"), length: 1 };
+  }
+
+  // ISO date: 2025-03-14
+  if (/^\d{4}-\d{2}-\d{2}$/.test(word)) {
+    const date = moment(word, "YYYY-MM-DD", true);
+    return date.isValid() ? { date, length: 1 } : null;
+  }
+
+  // Weekday: friday / next friday (the first one after today)
+  const weekdayWord = word === "next" ? words[i + 1] : word;
+  const weekday = weekdayWord ? WEEKDAYS[weekdayWord] : undefined;
+  if (weekday !== undefined) {
+    const date = today.clone().add(1, "day");
+    while (date.day() !== weekday) date.add(1, "day");
+    return { date, length: word === "next" ? 2 : 1 };
+  }
+
+  // next week / next month / next year
+  if (word === "next" && words[i + 1]) {
+    const unit = OFFSET_UNITS[words[i + 1]];
+    if (unit && unit !== "day") {
+      return { date: today.clone().add(1, unit), length: 2 };
+    }
+  }
+
+  // in 3 days / in 2 weeks / in 3d
+  if (word === "in" && words[i + 1]) {
+    const compact = words[i + 1].match(/^(\d+)([a-z]+)$/);
+    if (compact && OFFSET_UNITS[compact[2]]) {
+      return {
+        date: today
+          .clone()
+          .add(parseInt(compact[1], 10), OFFSET_UNITS[compact[2]]),
+        length: 2,
+      };
+    }
+    const amount = parseInt(words[i + 1], 10);
+    const unit = words[i + 2] ? OFFSET_UNITS[words[i + 2]] : undefined;
+    if (/^\d+$/.test(words[i + 1]) && unit) {
+      return { date: today.clone().add(amount, unit), length: 3 };
+    }
+  }
+
+  // Month and day in either order: mar 14 / 14 march / march 14th, 2026
+  const dayPattern = /^(\d{1,2})(?:st|nd|rd|th)?,?$/;
+  let month: number | undefined;
+  let dayMatch: RegExpMatchArray | null = null;
+  if (MONTHS[word] !== undefined && words[i + 1]) {
+    month = MONTHS[word];
+    dayMatch = words[i + 1].match(dayPattern);
+  } else if (
+    words[i + 1] &&
+    MONTHS[words[i + 1].replace(/,$/, "")] !== undefined
+  ) {
+    month = MONTHS[words[i + 1].replace(/,$/, "")];
+    dayMatch = word.match(dayPattern);
+  }
+  if (month !== undefined && dayMatch) {
+    const yearWord = words[i + 2];
+    const hasYear = !!yearWord && /^\d{4}$/.test(yearWord);
+    const date = moment({
+      year: hasYear ? parseInt(yearWord, 10) : today.year(),
+      month,
+      date: parseInt(dayMatch[1], 10),
+    });
+    if (!date.isValid()) return null;
+    // Without a year, a date already past this year means next year
+    if (!hasYear && date.isBefore(today, "day")) date.add(1, "year");
+    return { date, length: hasYear ? 3 : 2 };
+  }
+
+  return null;
+}
+
+/**
+ * Parses a time or time range starting at word `i`.
+ * Bare numbers ("at 9") are only accepted after "at".
+ *
+ * @returns Start/end in minutes after midnight and the words spanned, or null
+ */
+function parseTimeAt(
+  words: string[],
+  i: number,
+  afterAt: boolean,
+): { start: number; end?: number; length: number } | null {
+  let word = words[i];
+  if (!word) return null;
+
+  if (word === "noon") return { start: 12 * 60, length: 1 };
+  if (word === "midnight") return { start: 0, length: 1 };
+
+  // "3:30 pm" written as two words
+  let length = 1;
+  if (/^(am|pm)$/.test(words[i + 1] ?? "") && /^[\d:-]+$/.test(word)) {
+    word += words[i + 1];
+    length = 2;
+  }
+
+  const range = word.match(TIME_RANGE_REGEX);
+  if (range) {
+    // "3-4pm": the start takes the end's am/pm
+    const endMeridiem = range[6];
+    const startMeridiem = range[3] ?? endMeridiem;
+    const start = toMinutes(range[1], range[2], startMeridiem);
+    const end = toMinutes(range[4], range[5], endMeridiem);
+    const explicit = range[2] || range[3] || range[5] || range[6];
+    if (start === null || end === null || (!explicit && !afterAt)) return null;
+    return { start, end, length };
+  }
+
+  const time = word.match(TIME_REGEX);
+  if (time) {
+    // Bare numbers are only times after "at"
+    if (!time[2] && !time[3] && !afterAt) return null;
+    const start = toMinutes(time[1], time[2], time[3]);
+    return start === null ? null : { start, length };
+  }
+
+  return null;
+}
@@ -0,0 +1,387 @@
+/**
+ * Recurrence Parser Module
+ *
+ * Parses recurrence rules written in the Tasks plugin syntax:
+ * 1. Emoji format: 🔁 every week on Monday
+ * 2. Dataview inline fields: [repeat:: every 2 days], (recurrence:: every month)
+ *
+ * Supported rules:
+ * - every day / every N days / every weekday
+ * - every week / every N weeks / every week on Monday, Friday / every Tuesday
+ * - every month / every N months / every month on the 15th / every month on the last
+ * - every year / every N years
+ * - any of the above followed by "when done"
+ */
+
+import { moment } from "obsidian";
+
+/**
+ * Recurrence interval unit
+ */
+export type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+/**
+ * Represents a parsed recurrence rule from a task line
+ */
+export interface RecurrenceRule {
+  /** Interval unit (day, week, month, year) */
+  unit: RecurrenceUnit;
+  /** Number of units between occurrences (>= 1) */
+  interval: number;
+  /** Weekdays for weekly rules (0 = Sunday ... 6 = Saturday) */
+  weekdays?: number[];
+  /** Day of month for monthly rules (-1 = last day of month) */
+  monthDay?: number;
+  /** Whether the next occurrence is computed from the completion date */
+  whenDone: boolean;
+  /** Normalized rule text without marker (e.g. "every week on Monday") */
+  text: string;
+  /** Original matched string */
+  raw: string;
+  /** Start index in the original string */
+  start: number;
+  /** End index in the original string */
+  end: number;
+  /** Format type of the matched rule */
+  format: "tasks" | "dataview-bracket" | "dataview-paren";
+}
+
+/**
+ * Emoji recurrence pattern: 🔁 followed by rule text up to the next
+ * Tasks plugin signifier emoji or end of line.
+ */
+const EMOJI_RECURRENCE_REGEX =
+  /🔁\uFE0F?\s*([a-zA-Z0-9 ,]+?)\s*(?=[📅📆🗓🛫⏳⌛➕✅❌⏫🔼🔽🔺⏬🆔⛔⏱#]|$)/u;
+
+/**
+ * Dataview recurrence pattern: [repeat:: ...] or (recurrence:: ...)
+ */
+const DATAVIEW_RECURRENCE_REGEX =
+  /([[(])\s*(?:repeat|recurrence|recurring)\s*::\s*([^\])]+?)\s*[\])]/i;
+
+/**
+ * Weekday names mapped to moment weekday indices
+ */
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+/**
+ * Maximum number of occurrences returned for one range (safety limit)
+ */
+const MAX_OCCURRENCES = 1000;
+
+/**
+ * Parses weekday names from a comma/"and"-separated list.
+ * Returns null if any entry is not a valid weekday name.
+ */
+function parseWeekdayList(text: string): number[] | null {
+  const parts = text
+    .split(/\s*(?:,|\band\b)\s*/)
+    .map((p) => p.trim().toLowerCase())
+    .filter((p) => p.length > 0);
+
+  if (parts.length === 0) return null;
+
+  const days: number[] = [];
+  for (const part of parts) {
+    const day = WEEKDAY_NAMES[part];
+    if (day === undefined) return null;
+    if (!days.includes(day)) days.push(day);
+  }
+
+  return days.sort((a, b) => a - b);
+}
+
+/**
+ * Parses the rule text (without marker) into its structured components.
+ *
+ * @param text - Rule text, e.g. "every 2 weeks on Monday when done"
+ * @returns Parsed components, or null if the rule is not understood
+ */
+function parseRuleText(
+  text: string,
+): Omit<RecurrenceRule, "raw" | "start" | "end" | "format"> | null {
+  let body = text.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!body.startsWith("every ")) return null;
+
+  const whenDone = /\s+when done$/.test(body);
+  if (whenDone) body = body.replace(/\s+when done$/, "");
+  body = body.slice("every ".length);
+
+  const normalized = text.trim().replace(/\s+/g, " ");
+
+  // every weekday
+  if (body === "weekday") {
+    return {
+      unit: "week",
+      interval: 1,
+      weekdays: [1, 2, 3, 4, 5],
+      whenDone,
+      text: normalized,
+    };
+  }
+
+  // every Monday, Friday (shorthand for weekly on those days)
+  const shorthandDays = parseWeekdayList(body);
+  if (shorthandDays) {
+    return {
+      unit: "week",
+      interval: 1,
+      weekdays: shorthandDays,
+      whenDone,
+      text: normalized,
+    };
+  }
+
+  const match = body.match(
+    /^(?:(\d+)\s+)?(day|days|week|weeks|month|months|year|years)(?:\s+on\s+(.+))?$/,
+  );
+  if (!match) return null;
+
+  const interval = match[1] ? Math.max(1, parseInt(match[1], 10)) : 1;
+  const unit = match[2].replace(/s$/, "") as RecurrenceUnit;
+  const onPart = match[3]?.trim();
+
+  const rule: Omit<RecurrenceRule, "raw" | "start" | "end" | "format"> = {
+    unit,
+    interval,
+    whenDone,
+    text: normalized,
+  };
+
+  if (onPart) {
+    if (unit === "week") {
+      const days = parseWeekdayList(onPart);
+      if (!days) return null;
+      rule.weekdays = days;
+    } else if (unit === "month") {
+      const dayMatch = onPart.match(/^the\s+(\d{1,2})(?:st|nd|rd|th)?$/);
+      if (dayMatch) {
+        const day = parseInt(dayMatch[1], 10);
+        if (day < 1 || day > 31) return null;
+        rule.monthDay = day;
+      } else if (/^the\s+last(?:\s+day)?$/.test(onPart)) {
+        rule.monthDay = -1;
+      } else {
+        return null;
+      }
+    } else {
+      return null;
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Extracts the recurrence rule from a task line.
+ * Supports both Tasks emoji (🔁) and Dataview inline field formats.
+ *
+ * @param line - The task line to parse
+ * @returns The parsed recurrence rule, or null if none found / not understood
+ */
+export function parseRecurrence(line: string): RecurrenceRule | null {
+  const emojiMatch = EMOJI_RECURRENCE_REGEX.exec(line);
+  if (emojiMatch) {
+    const parsed = parseRuleText(emojiMatch[1]);
+    if (parsed) {
+      const raw = emojiMatch[0].trimEnd();
+      return {
+        ...parsed,
+        raw,
+        start: emojiMatch.index,
+        end: emojiMatch.index + raw.length,
+        format: "tasks",
+      };
+    }
+  }
+
+  const dataviewMatch = DATAVIEW_RECURRENCE_REGEX.exec(line);
+  if (dataviewMatch) {
+    const parsed = parseRuleText(dataviewMatch[2]);
+    if (parsed) {
+      return {
+        ...parsed,
+        raw: dataviewMatch[0],
+        start: dataviewMatch.index,
+        end: dataviewMatch.index + dataviewMatch[0].length,
+        format:
+          dataviewMatch[1] === "[" ? "dataview-bracket" : "dataview-paren",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Removes the recurrence rule from a line, returning the cleaned line
+ *
+ * @param line - The task line
+ * @returns The line without recurrence metadata
+ */
+export function stripRecurrence(line: string): string {
+  const rule = parseRecurrence(line);
+  if (!rule) return line;
+
+  return (line.slice(0, rule.start) + line.slice(rule.end))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Clamps a day of month to the number of days in the target month.
+ * A monthDay of -1 resolves to the last day of the month.
+ */
+function resolveMonthDay(date: moment.Moment, monthDay: number): number {
+  const daysInMonth = date.daysInMonth();
+  return monthDay === -1 ? daysInMonth : Math.min(monthDay, daysInMonth);
+}
+
+/**
+ * Calculates the next occurrence strictly after the given date.
+ * Time of day is preserved from the reference date.
+ *
+ * @param rule - The recurrence rule
+ * @param from - The current occurrence (or completion date for "when done")
+ * @param anchor - The first occurrence, used to keep monthly days and
+ *                 multi-week intervals aligned (defaults to `from`)
+ * @returns The next occurrence date
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: moment.Moment,
+  anchor: moment.Moment = from,
+): moment.Moment {
+  const next = from.clone();
+
+  switch (rule.unit) {
+    case "day":
+      return next.add(rule.interval, "day");
+
+    case "week": {
+      if (!rule.weekdays || rule.weekdays.length === 0) {
+        return next.add(rule.interval, "week");
+      }
+
+      // Walk forward day by day until a matching weekday in an active week
+      const anchorWeek = anchor.clone().startOf("week");
+      for (let i = 0; i < 7 * rule.interval + 7; i++) {
+        next.add(1, "day");
+        if (!rule.weekdays.includes(next.day())) continue;
+        const weeksApart = Math.round(
+          next.clone().startOf("week").diff(anchorWeek, "week", true),
+        );
+        if (weeksApart % rule.interval === 0) return next;
+      }
+      return next;
+    }
+
+    case "month": {
+      const targetDay = rule.monthDay ?? anchor.date();
+      next.date(1).add(rule.interval, "month");
+      next.date(resolveMonthDay(next, targetDay));
+      return next;
+    }
+
+    case "year": {
+      const targetDay = anchor.date();
+      next.date(1).add(rule.interval, "year");
+      next.date(resolveMonthDay(next, targetDay));
+      return next;
+    }
+
+    default:
+      return next.add(1, "day");
+  }
+}
+
+/**
+ * Moves from the anchor by whole intervals to the last aligned date
+ * strictly before the range, so expansion doesn't walk through every
+ * occurrence since the anchor. Returns the anchor if it is not before
+ * the range.
+ */
+function skipToRange(
+  rule: RecurrenceRule,
+  anchor: moment.Moment,
+  rangeStart: moment.Moment,
+): moment.Moment {
+  const start = rangeStart.clone().startOf("day");
+  const from = anchor.clone().startOf("day");
+  if (!from.isBefore(start)) return anchor.clone();
+
+  switch (rule.unit) {
+    case "day":
+    case "week": {
+      const step = rule.unit === "day" ? rule.interval : 7 * rule.interval;
+      const days = start.diff(from, "day");
+      const steps = Math.floor((days - 1) / step);
+      return anchor.clone().add(steps * step, "day");
+    }
+
+    case "month":
+    case "year": {
+      const months =
+        (start.year() - from.year()) * 12 + start.month() - from.month();
+      const span = rule.unit === "month" ? months : Math.floor(months / 12);
+      const steps = Math.floor((span - 1) / rule.interval);
+      if (steps <= 0) return anchor.clone();
+      const targetDay = rule.monthDay ?? anchor.date();
+      const skipped = anchor
+        .clone()
+        .date(1)
+        .add(steps * rule.interval, rule.unit);
+      return skipped.date(resolveMonthDay(skipped, targetDay));
+    }
+
+    default:
+      return anchor.clone();
+  }
+}
+
+/**
+ * Expands all occurrences of a recurring task within a date range.
+ * The anchor itself is not included; only subsequent occurrences are returned.
+ *
+ * @param rule - The recurrence rule
+ * @param anchor - The first occurrence date (the task's own date)
+ * @param rangeStart - Start of the visible range (inclusive, day precision)
+ * @param rangeEnd - End of the visible range (inclusive, day precision)
+ * @returns Occurrence dates within the range, in chronological order
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  anchor: moment.Moment,
+  rangeStart: moment.Moment,
+  rangeEnd: moment.Moment,
+): moment.Moment[] {
+  const results: moment.Moment[] = [];
+  let current = skipToRange(rule, anchor, rangeStart);
+
+  while (results.length < MAX_OCCURRENCES) {
+    current = getNextOccurrence(rule, current, anchor);
+    if (current.isAfter(rangeEnd, "day")) break;
+    if (!current.isBefore(rangeStart, "day")) {
+      results.push(current.clone());
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,196 @@
+/**
+ * Task Identity Module
+ *
+ * Gives task lines an ID that survives edits elsewhere in the file:
+ * 1. Anchor: an explicit `^block-id`, Tasks plugin `🆔 id` or `[id:: ...]`
+ * 2. Content hash: hash of the task text without checkbox state, dates,
+ *    times, durations and recurrence, so rescheduling, resizing or
+ *    completing a task keeps its ID.
+ *    Identical tasks are told apart by their order in the file.
+ *
+ * Also provides the relocation used before writing a task back, so edits
+ * survive lines being inserted or removed above the task, and anchored
+ * tasks are still found after their own line was edited.
+ */
+
+import { stripDates } from "./dateParser";
+import { stripRecurrence } from "./recurrenceParser";
+import { stripTimeBlock } from "./timeBlockParser";
+
+/** Block reference at the end of a line: ^block-id */
+const BLOCK_ID_REGEX = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/** Tasks plugin ID: 🆔 abc123 */
+const EMOJI_ID_REGEX = /🆔\uFE0F?\s*([A-Za-z0-9_-]+)/u;
+
+/** Dataview ID field: [id:: abc123] or (id:: abc123) */
+const DATAVIEW_ID_REGEX = /[[(]id::\s*([A-Za-z0-9_-]+)\s*[\])]/i;
+
+/** Checkbox prefix: "- [x] " with optional indentation */
+const CHECKBOX_PREFIX_REGEX = /^\s*-\s*\[.\]\s*/;
+
+/** Content hash ID at the end of a task ID, with its duplicate suffix */
+const HASH_ID_REGEX = /\bh-([0-9a-z]+)(?:-(\d+))?$/;
+
+/**
+ * Extracts an explicit anchor from a task line.
+ *
+ * @param line - The task line
+ * @returns The anchor (block ID or task ID), or undefined if none
+ */
+export function extractTaskAnchor(line: string): string | undefined {
+  return (
+    line.match(BLOCK_ID_REGEX)?.[1] ??
+    line.match(EMOJI_ID_REGEX)?.[1] ??
+    line.match(DATAVIEW_ID_REGEX)?.[1]
+  );
+}
+
+/**
+ * Splits a trailing block reference (` ^block-id`) off a line.
+ * Block IDs must stay at the end of the line for Obsidian to resolve them,
+ * so lines rebuilt from their parts re-append it last.
+ *
+ * @param line - The task line (or the text after its checkbox)
+ * @returns The line without the block ID, and the block ID if present
+ */
+export function splitBlockId(line: string): {
+  content: string;
+  blockId?: string;
+} {
+  const match = line.match(BLOCK_ID_REGEX);
+  if (!match || match.index === undefined) return { content: line };
+  return { content: line.slice(0, match.index), blockId: match[1] };
+}
+
+/**
+ * Hashes a string with 32-bit FNV-1a, returned in base 36.
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Hashes the identifying content of a task line.
+ * Ignores indentation, checkbox state, dates, time blocks and recurrence.
+ *
+ * @param line - The task line
+ * @returns Content hash
+ */
+export function hashTaskContent(line: string): string {
+  const content = stripTimeBlock(
+    stripRecurrence(stripDates(line.replace(CHECKBOX_PREFIX_REGEX, ""))),
+  );
+  return hashString(content.replace(/\s+/g, " ").trim());
+}
+
+/**
+ * Assigns stable IDs to task lines within a single file.
+ * Create one generator per file parse so duplicate counters start fresh.
+ */
+export class TaskIdGenerator {
+  private seen: Map<string, number> = new Map();
+
+  /**
+   * Returns the ID for a task line: its anchor if present, otherwise its
+   * content hash (suffixed for repeated identical tasks).
+   *
+   * @param line - The task line
+   */
+  next(line: string): string {
+    const anchor = extractTaskAnchor(line);
+    const base = anchor ? `a-${anchor}` : `h-${hashTaskContent(line)}`;
+
+    const count = this.seen.get(base) ?? 0;
+    this.seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  }
+}
+
+/**
+ * Finds the current index of a task line in possibly changed file content.
+ *
+ * Looks for a line identical to the task's markdown, preferring the
+ * original index and otherwise the nearest match, so lines inserted or
+ * removed elsewhere don't break edits. When the task's own line was
+ * edited, an anchored task is found by its anchor and an unanchored one
+ * by its content hash (see findByContentHash).
+ *
+ * @param lines - Current file lines
+ * @param task - The task's last known line index, content and ID
+ * @returns The current line index, or -1 if the task line changed or is gone
+ */
+export function relocateTaskLine(
+  lines: string[],
+  task: { lineIndex: number; markdown: string; id?: string },
+): number {
+  if (lines[task.lineIndex] === task.markdown) return task.lineIndex;
+
+  const exact = findNearestLine(
+    lines,
+    task.lineIndex,
+    (line) => line === task.markdown,
+  );
+  if (exact !== -1) return exact;
+
+  const anchor = extractTaskAnchor(task.markdown);
+  if (!anchor) return findByContentHash(lines, task);
+  return findNearestLine(
+    lines,
+    task.lineIndex,
+    (line) =>
+      CHECKBOX_PREFIX_REGEX.test(line) && extractTaskAnchor(line) === anchor,
+  );
+}
+
+/**
+ * Finds the matching line nearest to an index.
+ *
+ * @returns The line index, or -1 if no line matches
+ */
+function findNearestLine(
+  lines: string[],
+  near: number,
+  matches: (line: string) => boolean,
+): number {
+  let best = -1;
+  lines.forEach((line, index) => {
+    if (!matches(line)) return;
+    if (best === -1 || Math.abs(index - near) < Math.abs(best - near)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Finds an unanchored task whose dates, checkbox, time or recurrence
+ * changed by its content hash. Tasks that had identical siblings (IDs
+ * with a duplicate suffix) can't be told apart once edited, so they are
+ * reported as missing, as are hashes now shared by several lines.
+ *
+ * @returns The line index, or -1 if not exactly one line has the hash
+ */
+function findByContentHash(
+  lines: string[],
+  task: { markdown: string; id?: string },
+): number {
+  const hash = hashTaskContent(task.markdown);
+  const idMatch = task.id?.match(HASH_ID_REGEX);
+  if (!idMatch || idMatch[1] !== hash || idMatch[2] !== undefined) return -1;
+
+  let found = -1;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (!CHECKBOX_PREFIX_REGEX.test(line) || extractTaskAnchor(line)) continue;
+    if (hashTaskContent(line) !== hash) continue;
+    if (found !== -1) return -1;
+    found = index;
+  }
+  return found;
+}
@@ -0,0 +1,228 @@
+/**
+ * Time Block Parser Module
+ *
+ * Parses the time of day and length of a task for time-blocking:
+ * 1. Time ranges: 10:00-11:30 (anywhere in the task text)
+ * 2. Day Planner leading times: "- [ ] 10:00 Task" or "- [ ] 10:00 - 11:30 Task"
+ * 3. Durations: ⏱ 45m, ⏱️ 1h30m, [duration:: 1h30m], (duration:: 90m)
+ *
+ * A time on the task's date (📅 2025-01-15 10:00) takes precedence over a
+ * leading or range start time. Without an end time or duration, timed
+ * tasks last DEFAULT_DURATION_MINUTES.
+ */
+
+import { moment } from "obsidian";
+
+/** Length of timed tasks without an end time or duration */
+export const DEFAULT_DURATION_MINUTES = 30;
+
+/**
+ * Represents the time block notations found in a task line
+ */
+export interface TimeBlock {
+  /** Start time (HH:mm) from a time range or leading time */
+  startTime?: string;
+  /** End time (HH:mm) from a time range */
+  endTime?: string;
+  /** Where the start time was written */
+  timeFormat?: "leading" | "range";
+  /** Original matched time text (e.g. "10:00 - 11:30") */
+  timeRaw?: string;
+  /** Explicit duration in minutes */
+  duration?: number;
+  /** Format type of the matched duration */
+  durationFormat?: "tasks" | "dataview-bracket" | "dataview-paren";
+  /** Original matched duration text (e.g. "⏱ 45m") */
+  durationRaw?: string;
+}
+
+/** Time of day: 9:00, 09:00, 23:59 */
+const TIME_PATTERN = "([01]?\\d|2[0-3]):([0-5]\\d)";
+
+/** Day Planner leading time or range, followed by the task text */
+const LEADING_TIME_REGEX = new RegExp(
+  `^${TIME_PATTERN}(?:\\s*[-–]\\s*${TIME_PATTERN})?(?=\\s)`,
+);
+
+/** Inline time range, as a separate word */
+const TIME_RANGE_REGEX = new RegExp(
+  `(?<=^|\\s)${TIME_PATTERN}\\s*[-–]\\s*${TIME_PATTERN}(?=\\s|$)`,
+);
+
+/** Emoji duration: ⏱ 45m, ⏱️ 1h30m, ⏱ 1h 30m */
+const EMOJI_DURATION_REGEX = /⏱️?\s*(\d+h(?:\s*\d+m)?|\d+m)/u;
+
+/** Dataview duration: [duration:: 1h30m] or (duration:: 45m) */
+const DATAVIEW_DURATION_REGEX = /([[(])\s*duration\s*::\s*([^\])]+?)\s*[\])]/i;
+
+/**
+ * Formats hours and minutes captured by TIME_PATTERN as HH:mm.
+ */
+function toTime(hours: string, minutes: string): string {
+  return `${hours.padStart(2, "0")}:${minutes}`;
+}
+
+/**
+ * Parses a duration such as "45m", "1h30m", "1h 30m", "2h" or "90"
+ * (plain numbers are minutes).
+ *
+ * @returns Duration in minutes, or null if invalid or zero
+ */
+export function parseDuration(text: string): number | null {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in(?:utes?)?)?)?$|^(\d+)$/);
+  if (!match) return null;
+
+  const minutes = match[3]
+    ? parseInt(match[3], 10)
+    : parseInt(match[1] ?? "0", 10) * 60 + parseInt(match[2] ?? "0", 10);
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Formats a duration in minutes as "45m", "2h" or "1h30m".
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h${rest}m`;
+}
+
+/**
+ * Formats a duration field in the given notation.
+ */
+export function formatDurationField(
+  minutes: number,
+  format: NonNullable<TimeBlock["durationFormat"]>,
+): string {
+  const value = formatDuration(minutes);
+  switch (format) {
+    case "dataview-bracket":
+      return `[duration:: ${value}]`;
+    case "dataview-paren":
+      return `(duration:: ${value})`;
+    default:
+      return `⏱ ${value}`;
+  }
+}
+
+/**
+ * Parses the time block notations of a task.
+ *
+ * @param text - Task text after the checkbox
+ * @returns The time block, or null if the task has none
+ */
+export function parseTimeBlock(text: string): TimeBlock | null {
+  const block: TimeBlock = {};
+  const content = text.trimStart();
+
+  const leading = content.match(LEADING_TIME_REGEX);
+  const range = leading ? null : content.match(TIME_RANGE_REGEX);
+  const timeMatch = leading ?? range;
+  if (timeMatch) {
+    block.startTime = toTime(timeMatch[1], timeMatch[2]);
+    if (timeMatch[3]) block.endTime = toTime(timeMatch[3], timeMatch[4]);
+    block.timeFormat = leading ? "leading" : "range";
+    block.timeRaw = timeMatch[0];
+  }
+
+  const emoji = content.match(EMOJI_DURATION_REGEX);
+  const dataview = emoji ? null : content.match(DATAVIEW_DURATION_REGEX);
+  const duration = emoji
+    ? parseDuration(emoji[1])
+    : dataview
+      ? parseDuration(dataview[2])
+      : null;
+  if (duration !== null) {
+    block.duration = duration;
+    block.durationFormat = emoji
+      ? "tasks"
+      : dataview?.[1] === "["
+        ? "dataview-bracket"
+        : "dataview-paren";
+    block.durationRaw = (emoji ?? dataview)?.[0];
+  }
+
+  return block.timeRaw || block.durationRaw ? block : null;
+}
+
+/**
+ * Removes time ranges, leading times and durations from a task's text.
+ */
+export function stripTimeBlock(text: string): string {
+  const block = parseTimeBlock(text);
+  if (!block) return text;
+
+  let result = text;
+  if (block.timeRaw) result = result.replace(block.timeRaw, "");
+  if (block.durationRaw) result = result.replace(block.durationRaw, "");
+  return result.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Resolves when a timed task starts and ends.
+ *
+ * @param date - The task's date
+ * @param hasTime - Whether the date has its own time
+ * @param block - The task's time block, if any
+ * @returns Start and end, or null if the task has no time of day
+ */
+export function resolveTimeBlock(
+  date: moment.Moment,
+  hasTime: boolean,
+  block?: TimeBlock,
+): { start: moment.Moment; end: moment.Moment } | null {
+  const atTime = (time: string) =>
+    moment(`${date.format("YYYY-MM-DD")} ${time}`, "YYYY-MM-DD HH:mm");
+
+  let start: moment.Moment;
+  if (hasTime) {
+    start = date.clone();
+  } else if (block?.startTime) {
+    start = atTime(block.startTime);
+  } else {
+    return null;
+  }
+
+  let end: moment.Moment;
+  if (block?.endTime) {
+    end = atTime(block.endTime);
+    // Ranges past midnight end on the next day
+    if (!end.isAfter(start)) end.add(1, "day");
+  } else {
+    end = start
+      .clone()
+      .add(block?.duration ?? DEFAULT_DURATION_MINUTES, "minutes");
+  }
+
+  return { start, end };
+}
+
+/**
+ * Rewrites a task's leading time or time range.
+ * With an end, writes a range keeping the original spacing around the dash,
+ * so a single leading time becomes a Day Planner range ("10:00 - 11:30").
+ * Without an end, writes only the start time.
+ *
+ * @param line - The task line
+ * @param block - The task's time block (must have timeRaw)
+ * @param start - New start time
+ * @param end - New end time, if the task should have one
+ */
+export function replaceBlockTime(
+  line: string,
+  block: TimeBlock,
+  start: moment.Moment,
+  end?: moment.Moment,
+): string {
+  if (!block.timeRaw) return line;
+
+  const separator = block.timeRaw.match(/\s*[-–]\s*/)?.[0] ?? " - ";
+  const time = end
+    ? `${start.format("HH:mm")}${separator}${end.format("HH:mm")}`
+    : start.format("HH:mm");
+  return line.replace(block.timeRaw, time);
+}
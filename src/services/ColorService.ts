@@ -5,10 +5,24 @@ import { moment } from "obsidian";
 import type { CalendarSettings } from "../Settings";
 import {
   ColorConditionType,
+  isConditionGroup,
+  type ColorCondition,
+  type ColorConditionNode,
   type ColorRule,
   type ColorTheme,
+  type RuleBorderStyle,
 } from "../types/colorTypes";
 import { DateFieldType, type ParsedDateField } from "../parsers/dateParser";
+import {
+  PRIORITY_EMOJIS,
+  type QuickAddPriority,
+} from "../parsers/quickAddParser";
+import {
+  getReadableTextColor,
+  LIGHT_TEXT_COLOR,
+  parseColor,
+} from "../parsers/colorParser";
+import { globToRegExp } from "./SourceService";
 
 /**
  * Task data interface for color resolution
@@ -22,7 +36,14 @@ export interface TaskColorData {
   /** All parsed date fields from this task */
   allDates: ParsedDateField[];
   completed: boolean;
+  /** Checkbox character and status name */
+  status: string;
+  statusName: string;
   sectionId: string;
+  /** Whether the task has a time of day (on a date or from a time range) */
+  hasTime: boolean;
+  /** Path of the note the task is in */
+  filePath: string;
 }
 
 /**
@@ -33,6 +54,31 @@ export interface SectionColorData {
   name: string;
 }
 
+/**
+ * Event styling from the matching rules, with colors resolved for the
+ * current mode
+ */
+export interface EventStyle {
+  textColor?: string;
+  borderStyle?: RuleBorderStyle;
+  stripeColor?: string;
+  opacity?: number;
+  strikethrough?: boolean;
+  bold?: boolean;
+  icon?: string;
+}
+
+/**
+ * What gives an event its color: a rule, a section color, the calendar
+ * color or the default color
+ */
+export interface ColorSource {
+  type: "rule" | "section" | "calendar" | "default";
+  /** Rule or section ID */
+  id?: string;
+  theme: ColorTheme;
+}
+
 /**
  * Color resolution service
  *
@@ -43,6 +89,9 @@ export interface SectionColorData {
  * 4. Global Default - Default color from plugin settings
  */
 export class ColorService {
+  /** Compiled title patterns by pattern text (null if invalid) */
+  private static titlePatterns = new Map<string, RegExp | null>();
+
   /**
    * Get the color for an event based on rules and settings
    *
@@ -62,53 +111,166 @@ export class ColorService {
     isDarkMode: boolean,
     isAllSectionsView: boolean = false,
   ): string {
+    const source = this.getColorSource(
+      task,
+      filePath,
+      sections,
+      settings,
+      isAllSectionsView,
+    );
+    return this.resolveColor(source.theme, isDarkMode);
+  }
+
+  /**
+   * Get what gives an event its color (see the priority order above)
+   *
+   * @param task - Task data for condition checking
+   * @param filePath - Current file path
+   * @param sections - Map of section ID to section data
+   * @param settings - Plugin settings
+   * @param isAllSectionsView - Whether displaying all sections combined
+   * @returns The rule, section color, calendar color or default color
+   */
+  static getColorSource(
+    task: TaskColorData,
+    filePath: string,
+    sections: Map<string, SectionColorData>,
+    settings: CalendarSettings,
+    isAllSectionsView: boolean = false,
+  ): ColorSource {
     const { defaultEventColor, colorRules, calendarSources } = settings.colors;
     const sourceConfig = calendarSources[filePath];
 
     // Priority 1: Conditional Rules (highest priority)
-    // - Rules are evaluated in order, first match wins
+    // - Rules are evaluated in order, first match with a color wins
     // - Rules can be global or file-specific (applyToFiles)
     for (const rule of colorRules) {
-      if (!rule.enabled) continue;
-
-      // Check if rule is limited to specific files
-      if (rule.applyToFiles && rule.applyToFiles.length > 0) {
-        if (!rule.applyToFiles.includes(filePath)) continue;
-      }
-
-      if (this.checkCondition(task, rule, sections)) {
-        return this.resolveColor(rule.color, isDarkMode);
+      if (rule.color && this.ruleApplies(rule, task, filePath, sections)) {
+        return { type: "rule", id: rule.id, theme: rule.color };
       }
     }
 
     // Priority 2: Section Custom Color (only in "All Calendars" view)
     // - User-defined color for this specific section
-    if (isAllSectionsView && sourceConfig?.sectionColors?.[task.sectionId]) {
-      return this.resolveColor(
-        sourceConfig.sectionColors[task.sectionId],
-        isDarkMode,
-      );
+    const sectionColor = sourceConfig?.sectionColors?.[task.sectionId];
+    if (isAllSectionsView && sectionColor) {
+      return { type: "section", id: task.sectionId, theme: sectionColor };
     }
 
     // Priority 3: Calendar Base Color
     // - User-defined color for the entire calendar file
     if (sourceConfig?.color) {
-      return this.resolveColor(sourceConfig.color, isDarkMode);
+      return { type: "calendar", theme: sourceConfig.color };
     }
 
     // Priority 4: Global Default (lowest priority)
-    return this.resolveColor(defaultEventColor, isDarkMode);
+    return { type: "default", theme: defaultEventColor };
   }
 
   /**
-   * Check if a task matches a rule's condition
+   * Get a key identifying a color source, e.g. "rule:<id>" or "default"
    */
-  private static checkCondition(
+  static getColorSourceKey(source: ColorSource): string {
+    return source.id === undefined
+      ? source.type
+      : `${source.type}:${source.id}`;
+  }
+
+  /**
+   * Get the styling of an event from the matching rules. Each style
+   * property comes from the first matching rule that sets it, so e.g. one
+   * rule can add an icon and another a border.
+   *
+   * @param task - Task data for condition checking
+   * @param filePath - Current file path
+   * @param sections - Map of section ID to section data
+   * @param settings - Plugin settings
+   * @param isDarkMode - Whether dark mode is active
+   * @returns Style properties to apply (empty if no rule sets any)
+   */
+  static getEventStyle(
     task: TaskColorData,
+    filePath: string,
+    sections: Map<string, SectionColorData>,
+    settings: CalendarSettings,
+    isDarkMode: boolean,
+  ): EventStyle {
+    const result: EventStyle = {};
+
+    for (const rule of settings.colors.colorRules) {
+      const style = rule.style;
+      if (!style || !this.ruleApplies(rule, task, filePath, sections)) {
+        continue;
+      }
+
+      if (style.textColor && !result.textColor) {
+        result.textColor = this.resolveColor(style.textColor, isDarkMode);
+      }
+      if (style.stripeColor && !result.stripeColor) {
+        result.stripeColor = this.resolveColor(style.stripeColor, isDarkMode);
+      }
+      result.borderStyle ??= style.borderStyle;
+      result.opacity ??= style.opacity;
+      result.icon ??= style.icon || undefined;
+      if (style.strikethrough) result.strikethrough = true;
+      if (style.bold) result.bold = true;
+    }
+
+    return result;
+  }
+
+  /**
+   * Check if an enabled rule applies to a task in a file
+   */
+  private static ruleApplies(
     rule: ColorRule,
+    task: TaskColorData,
+    filePath: string,
+    sections: Map<string, SectionColorData>,
+  ): boolean {
+    if (!rule.enabled) return false;
+
+    // Check if rule is limited to specific files
+    if (rule.applyToFiles && rule.applyToFiles.length > 0) {
+      if (!rule.applyToFiles.includes(filePath)) return false;
+    }
+
+    return this.checkCondition(task, rule.condition, sections);
+  }
+
+  /**
+   * Check if a task matches a condition or condition group.
+   * A group without conditions never matches.
+   */
+  private static checkCondition(
+    task: TaskColorData,
+    condition: ColorConditionNode,
     sections: Map<string, SectionColorData>,
   ): boolean {
-    switch (rule.conditionType) {
+    let matches: boolean;
+    if (isConditionGroup(condition)) {
+      if (condition.conditions.length === 0) return false;
+      const check = (node: ColorConditionNode) =>
+        this.checkCondition(task, node, sections);
+      matches =
+        condition.operator === "or"
+          ? condition.conditions.some(check)
+          : condition.conditions.every(check);
+    } else {
+      matches = this.matchesCondition(task, condition, sections);
+    }
+    return condition.negate ? !matches : matches;
+  }
+
+  /**
+   * Check if a task meets a single condition (ignoring negation)
+   */
+  private static matchesCondition(
+    task: TaskColorData,
+    condition: ColorCondition,
+    sections: Map<string, SectionColorData>,
+  ): boolean {
+    switch (condition.type) {
       case ColorConditionType.IsOverdue:
         // Only incomplete tasks with dates can be overdue
         if (task.completed || !task.date) return false;
@@ -118,31 +280,94 @@ export class ColorService {
         return task.completed;
 
       case ColorConditionType.HasTag:
-        if (!rule.conditionValue) return false;
+        if (!condition.value) return false;
         // Check both title and full markdown for tag
-        const tagPattern = rule.conditionValue.startsWith("#")
-          ? rule.conditionValue
-          : `#${rule.conditionValue}`;
+        const tagPattern = condition.value.startsWith("#")
+          ? condition.value
+          : `#${condition.value}`;
         return (
           task.title.includes(tagPattern) || task.markdown.includes(tagPattern)
         );
 
       case ColorConditionType.TitleContains:
-        if (!rule.conditionValue) return false;
-        return task.title
-          .toLowerCase()
-          .includes(rule.conditionValue.toLowerCase());
+        if (!condition.value) return false;
+        return task.title.toLowerCase().includes(condition.value.toLowerCase());
 
       case ColorConditionType.SectionIs:
-        if (!rule.conditionValue) return false;
+        if (!condition.value) return false;
         const section = sections.get(task.sectionId);
         if (!section) return false;
-        return section.name.toLowerCase() === rule.conditionValue.toLowerCase();
+        return section.name.toLowerCase() === condition.value.toLowerCase();
 
       case ColorConditionType.HasDue:
         // Check if task has any due date in allDates array
         return task.allDates.some((d) => d.type === DateFieldType.Due);
 
+      case ColorConditionType.StatusIs: {
+        // Match the checkbox character or the status name
+        const value = condition.value;
+        if (!value) return false;
+        return (
+          value === task.status ||
+          value.trim().toLowerCase() === task.statusName.toLowerCase()
+        );
+      }
+
+      case ColorConditionType.DueWithinDays: {
+        const days = parseInt(condition.value ?? "", 10);
+        const due = this.getDueDate(task);
+        if (isNaN(days) || !due) return false;
+        const diff = due
+          .clone()
+          .startOf("day")
+          .diff(moment().startOf("day"), "days");
+        return diff >= 0 && diff <= days;
+      }
+
+      case ColorConditionType.DueToday: {
+        const due = this.getDueDate(task);
+        return !!due && due.isSame(moment(), "day");
+      }
+
+      case ColorConditionType.IsWeekend: {
+        const day = task.date.day();
+        return day === 0 || day === 6;
+      }
+
+      case ColorConditionType.DateTypeIs:
+        return task.dateType === condition.value;
+
+      case ColorConditionType.TitleMatches: {
+        if (!condition.value) return false;
+        // Invalid patterns never match
+        return !!this.getTitlePattern(condition.value)?.test(task.title);
+      }
+
+      case ColorConditionType.HasPriority: {
+        const priority = condition.value as QuickAddPriority | undefined;
+        if (!priority || !PRIORITY_EMOJIS[priority]) return false;
+        // Tasks plugin emoji or Dataview field
+        return (
+          task.markdown.includes(PRIORITY_EMOJIS[priority]) ||
+          new RegExp(`[[(]priority::\\s*${priority}\\s*[\\])]`, "i").test(
+            task.markdown,
+          )
+        );
+      }
+
+      case ColorConditionType.IsMultiDay: {
+        const start = task.allDates.find((d) => d.type === DateFieldType.Start);
+        const due = this.getDueDate(task);
+        return !!start && !!due && !start.date.isSame(due, "day");
+      }
+
+      case ColorConditionType.HasTime:
+        return task.hasTime;
+
+      case ColorConditionType.PathMatches:
+        if (!condition.value) return false;
+        return globToRegExp(condition.value).test(task.filePath);
+
       case ColorConditionType.Always:
         return true;
 
@@ -151,10 +376,36 @@ export class ColorService {
     }
   }
 
+  /**
+   * Get the compiled (case-insensitive) title pattern, compiling each
+   * pattern only once
+   *
+   * @returns The regular expression, or null if the pattern is invalid
+   */
+  private static getTitlePattern(pattern: string): RegExp | null {
+    let regex = this.titlePatterns.get(pattern);
+    if (regex === undefined) {
+      try {
+        regex = new RegExp(pattern, "i");
+      } catch {
+        regex = null;
+      }
+      this.titlePatterns.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  /**
+   * Get a task's due date, if it has one
+   */
+  private static getDueDate(task: TaskColorData): moment.Moment | undefined {
+    return task.allDates.find((d) => d.type === DateFieldType.Due)?.date;
+  }
+
   /**
    * Resolve color theme to single color based on mode
    */
-  private static resolveColor(theme: ColorTheme, isDarkMode: boolean): string {
+  static resolveColor(theme: ColorTheme, isDarkMode: boolean): string {
     return isDarkMode ? theme.dark : theme.light;
   }
 
@@ -194,22 +445,12 @@ export class ColorService {
   }
 
   /**
-   * Check if a color value is dark (for determining text color)
-   * @param color - Hex color string
-   * @returns true if the color is dark
+   * Check if a color value is dark, i.e. light text is more readable on it
+   * @param color - Color in any format supported by parseColor
+   * @returns true if the color is dark (false if it can't be parsed)
    */
   static isColorDark(color: string): boolean {
-    // Handle hex colors
-    if (color.startsWith("#")) {
-      const hex = color.slice(1);
-      const r = parseInt(hex.slice(0, 2), 16);
-      const g = parseInt(hex.slice(2, 4), 16);
-      const b = parseInt(hex.slice(4, 6), 16);
-      // Using relative luminance formula
-      const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-      return luminance < 0.5;
-    }
-    // Default to light for non-hex colors
-    return false;
+    const parsed = parseColor(color);
+    return !!parsed && getReadableTextColor(parsed) === LIGHT_TEXT_COLOR;
   }
 }
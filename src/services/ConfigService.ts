@@ -0,0 +1,282 @@
+/**
+ * Config Service - Reads and writes per-calendar overrides in frontmatter
+ *
+ * Overrides live next to the sources in the calendar file, so they move
+ * with the file when it is renamed:
+ *
+ *   calendar-plugin:
+ *     view: week
+ *     week-start: sunday
+ *     date-formats: [tasks, dataview]
+ *     write-format: dataview
+ *     date-priority: [scheduled, due]
+ *     completed-section: Archive
+ *     color: "#e11d48"                 # or { light: ..., dark: ... }
+ *     section-colors:
+ *       Work: "#2563eb"
+ *     filters:                         # saved from the filter bar
+ *       - name: Overdue work
+ *         tags: [work]
+ *         overdue: true
+ *
+ * Unset keys fall back to the global plugin settings.
+ */
+import { App, TFile } from "obsidian";
+import {
+  DATE_FORMAT_OPTIONS,
+  VIEW_OPTIONS,
+  type CalendarSettings,
+} from "../Settings";
+import { DateFieldType, type DateFormatType } from "../parsers/dateParser";
+import type { ColorTheme } from "../types/colorTypes";
+import { FRONTMATTER_KEY, type CalendarFileConfig } from "../types/configTypes";
+import type { SavedTaskFilter } from "../types/filterTypes";
+import { FilterService } from "./FilterService";
+
+/** Frontmatter keys for each config field */
+const CONFIG_KEYS: Record<keyof CalendarFileConfig, string> = {
+  defaultView: "view",
+  weekStart: "week-start",
+  recognizedDateFormats: "date-formats",
+  writeDateFormat: "write-format",
+  datePriority: "date-priority",
+  completedSectionName: "completed-section",
+  color: "color",
+  sectionColors: "section-colors",
+  filters: "filters",
+};
+
+/** Frontmatter value written when a calendar has no settings */
+const BASIC_VALUE = "basic";
+
+/** Views a calendar can open in */
+const VIEWS = VIEW_OPTIONS.map(([view]) => view);
+
+/** Recognized date formats */
+const DATE_FORMATS = DATE_FORMAT_OPTIONS.map(([format]) => format);
+
+/** Week start names accepted in addition to 0 / 1 */
+const WEEK_START_NAMES: Record<string, number> = { sunday: 0, monday: 1 };
+
+/**
+ * Parses a color given as one string or as { light, dark }.
+ */
+function parseColorTheme(value: unknown): ColorTheme | undefined {
+  if (typeof value === "string" && value.trim()) {
+    return { light: value.trim(), dark: value.trim() };
+  }
+  if (value && typeof value === "object") {
+    const { light, dark } = value as Record<string, unknown>;
+    if (typeof light === "string" && typeof dark === "string") {
+      return { light, dark };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Serializes a color, collapsing identical light/dark values to one string.
+ */
+function serializeColorTheme(theme: ColorTheme): string | ColorTheme {
+  return theme.light === theme.dark
+    ? theme.light
+    : { light: theme.light, dark: theme.dark };
+}
+
+/**
+ * Per-calendar configuration service
+ */
+export class ConfigService {
+  /**
+   * Parses the overrides from the calendar frontmatter value.
+   * Invalid values are ignored.
+   *
+   * @param value - Value of the `calendar-plugin` frontmatter key
+   */
+  static parseConfig(value: unknown): CalendarFileConfig {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return {};
+    }
+
+    const raw = value as Record<string, unknown>;
+    const config: CalendarFileConfig = {};
+
+    const view = raw[CONFIG_KEYS.defaultView];
+    if (typeof view === "string" && VIEWS.includes(view)) {
+      config.defaultView = view;
+    }
+
+    const weekStart = raw[CONFIG_KEYS.weekStart];
+    if (weekStart === 0 || weekStart === 1) {
+      config.weekStart = weekStart;
+    } else if (typeof weekStart === "string") {
+      config.weekStart = WEEK_START_NAMES[weekStart.toLowerCase()];
+    }
+
+    const formats = raw[CONFIG_KEYS.recognizedDateFormats];
+    const formatList = (Array.isArray(formats) ? formats : [formats]).filter(
+      (f): f is DateFormatType => DATE_FORMATS.includes(f),
+    );
+    if (formatList.length > 0) config.recognizedDateFormats = formatList;
+
+    const writeFormat = raw[CONFIG_KEYS.writeDateFormat];
+    if (DATE_FORMATS.includes(writeFormat as DateFormatType)) {
+      config.writeDateFormat = writeFormat as DateFormatType;
+    }
+
+    config.datePriority = this.parseDatePriority(raw[CONFIG_KEYS.datePriority]);
+
+    const completedSection = raw[CONFIG_KEYS.completedSectionName];
+    if (typeof completedSection === "string" && completedSection.trim()) {
+      config.completedSectionName = completedSection.trim();
+    }
+
+    config.color = parseColorTheme(raw[CONFIG_KEYS.color]);
+
+    const sectionColors = raw[CONFIG_KEYS.sectionColors];
+    if (sectionColors && typeof sectionColors === "object") {
+      const colors: Record<string, ColorTheme> = {};
+      for (const [section, color] of Object.entries(sectionColors)) {
+        const theme = parseColorTheme(color);
+        if (theme) colors[section] = theme;
+      }
+      if (Object.keys(colors).length > 0) config.sectionColors = colors;
+    }
+
+    config.filters = FilterService.parseSavedFilters(raw[CONFIG_KEYS.filters]);
+
+    // Drop fields that were present but invalid
+    for (const key of Object.keys(config) as (keyof CalendarFileConfig)[]) {
+      if (config[key] === undefined) delete config[key];
+    }
+
+    return config;
+  }
+
+  /**
+   * Parses a date priority list. Unknown and repeated types are dropped,
+   * and unlisted types keep their default order after the listed ones.
+   *
+   * @param value - List of date types, or a comma-separated string
+   * @returns Complete priority order, or undefined if no type was listed
+   */
+  static parseDatePriority(value: unknown): DateFieldType[] | undefined {
+    const entries =
+      typeof value === "string"
+        ? value.split(",").map((v) => v.trim().toLowerCase())
+        : Array.isArray(value)
+          ? value
+          : [];
+    const types = Object.values(DateFieldType);
+    const listed = entries.filter(
+      (entry, i): entry is DateFieldType =>
+        types.includes(entry) && entries.indexOf(entry) === i,
+    );
+    if (listed.length === 0) return undefined;
+
+    return [...listed, ...types.filter((t) => !listed.includes(t))];
+  }
+
+  /**
+   * Merges a calendar's overrides over the global settings.
+   * The calendar's colors are merged into `colors.calendarSources` under
+   * its current path, so color resolution needs no special casing.
+   *
+   * @param settings - Global plugin settings
+   * @param config - The calendar's overrides
+   * @param filePath - Current path of the calendar file
+   * @returns Effective settings for the calendar (the globals are not modified)
+   */
+  static applyConfig(
+    settings: CalendarSettings,
+    config: CalendarFileConfig,
+    filePath: string,
+  ): CalendarSettings {
+    const { color, sectionColors, ...overrides } = config;
+    // Saved filters are not a settings override
+    delete overrides.filters;
+    const merged: CalendarSettings = { ...settings, ...overrides };
+
+    // The write format is always recognized
+    if (!merged.recognizedDateFormats.includes(merged.writeDateFormat)) {
+      merged.recognizedDateFormats = [
+        ...merged.recognizedDateFormats,
+        merged.writeDateFormat,
+      ];
+    }
+
+    if (color || sectionColors) {
+      const legacy = settings.colors.calendarSources[filePath] ?? {};
+      merged.colors = {
+        ...settings.colors,
+        calendarSources: {
+          ...settings.colors.calendarSources,
+          [filePath]: {
+            color: color ?? legacy.color,
+            sectionColors: { ...legacy.sectionColors, ...sectionColors },
+          },
+        },
+      };
+    }
+
+    return merged;
+  }
+
+  /**
+   * Writes a calendar's overrides to its frontmatter, keeping other keys
+   * (such as sources). A block left without keys is written as `basic`.
+   *
+   * @param app - Obsidian app
+   * @param file - Calendar file
+   * @param config - Complete set of overrides to store
+   */
+  static async saveConfig(
+    app: App,
+    file: TFile,
+    config: CalendarFileConfig,
+  ): Promise<void> {
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+      const current = frontmatter[FRONTMATTER_KEY];
+      const raw: Record<string, unknown> =
+        current && typeof current === "object" && !Array.isArray(current)
+          ? current
+          : {};
+
+      for (const field of Object.keys(
+        CONFIG_KEYS,
+      ) as (keyof CalendarFileConfig)[]) {
+        const key = CONFIG_KEYS[field];
+        const value = config[field];
+        if (value === undefined) {
+          delete raw[key];
+        } else if (field === "color") {
+          raw[key] = serializeColorTheme(value as ColorTheme);
+        } else if (field === "filters") {
+          const filters = value as SavedTaskFilter[];
+          if (filters.length === 0) {
+            delete raw[key];
+          } else {
+            raw[key] = FilterService.serializeSavedFilters(filters);
+          }
+        } else if (field === "sectionColors") {
+          const colors = value as Record<string, ColorTheme>;
+          if (Object.keys(colors).length === 0) {
+            delete raw[key];
+          } else {
+            raw[key] = Object.fromEntries(
+              Object.entries(colors).map(([id, theme]) => [
+                id,
+                serializeColorTheme(theme),
+              ]),
+            );
+          }
+        } else {
+          raw[key] = value;
+        }
+      }
+
+      frontmatter[FRONTMATTER_KEY] =
+        Object.keys(raw).length > 0 ? raw : BASIC_VALUE;
+    });
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Edit History - Undo and redo for calendar edits
+ *
+ * Each edit is stored as the lines it replaced and the lines it wrote, per
+ * file, rather than whole file contents. Undoing puts the old lines back
+ * where the new ones are, so edits made elsewhere in the note since then
+ * are kept. If the edited lines themselves changed, the edit can't be
+ * undone.
+ */
+
+/** Number of edits kept for undo */
+const HISTORY_LIMIT = 50;
+
+/**
+ * A change to a block of lines in one file
+ */
+export interface LineChange {
+  /** Source note path (the calendar file when unset) */
+  filePath?: string;
+  /** Index of the first changed line */
+  start: number;
+  /** Lines before the edit */
+  before: string[];
+  /** Lines after the edit */
+  after: string[];
+}
+
+/**
+ * One undoable edit, possibly spanning several files
+ */
+export interface HistoryEntry {
+  /** What the edit did, as shown in its notice (e.g. "Task deleted") */
+  label: string;
+  changes: LineChange[];
+}
+
+/**
+ * Undo and redo stacks of a calendar view
+ */
+export class EditHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  /**
+   * Finds the lines an edit changed, trimming the lines it kept at
+   * the start and end.
+   *
+   * @returns The change, or null if the lines are identical
+   */
+  static diffLines(
+    before: string[],
+    after: string[],
+  ): Omit<LineChange, "filePath"> | null {
+    let start = 0;
+    while (
+      start < before.length &&
+      start < after.length &&
+      before[start] === after[start]
+    ) {
+      start++;
+    }
+
+    let end = 0;
+    while (
+      end < before.length - start &&
+      end < after.length - start &&
+      before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    if (start === before.length && start === after.length) return null;
+
+    return {
+      start,
+      before: before.slice(start, before.length - end),
+      after: after.slice(start, after.length - end),
+    };
+  }
+
+  /**
+   * Reverts (undo) or re-applies (redo) a change to a file's current lines.
+   * When lines were added or removed above the change since, the changed
+   * lines are looked up nearby.
+   *
+   * @returns The new lines, or null if the changed lines can't be found
+   */
+  static applyChange(
+    lines: string[],
+    change: LineChange,
+    direction: "undo" | "redo",
+  ): string[] | null {
+    const [current, replacement] =
+      direction === "undo"
+        ? [change.after, change.before]
+        : [change.before, change.after];
+
+    const index = this.findBlock(lines, current, change.start);
+    if (index === -1) return null;
+
+    const result = [...lines];
+    result.splice(index, current.length, ...replacement);
+    return result;
+  }
+
+  /**
+   * Finds a block of lines, preferring the position closest to `hint`.
+   * An empty block (a pure insertion or deletion) stays at `hint`.
+   */
+  private static findBlock(
+    lines: string[],
+    block: string[],
+    hint: number,
+  ): number {
+    if (block.length === 0) return hint <= lines.length ? hint : -1;
+
+    const matchesAt = (index: number) =>
+      block.every((line, offset) => lines[index + offset] === line);
+
+    const maxIndex = lines.length - block.length;
+    for (let distance = 0; distance <= lines.length; distance++) {
+      for (const index of [hint - distance, hint + distance]) {
+        if (index >= 0 && index <= maxIndex && matchesAt(index)) return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Records an edit, dropping the oldest beyond the limit.
+   * A new edit clears the redo stack.
+   */
+  record(entry: HistoryEntry): void {
+    if (entry.changes.length === 0) return;
+
+    this.undoStack.push(entry);
+    if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  /**
+   * Gets the edit the next undo reverts.
+   */
+  peekUndo(): HistoryEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  /**
+   * Gets the edit the next redo re-applies.
+   */
+  peekRedo(): HistoryEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Moves the last edit to the redo stack after it was undone.
+   */
+  markUndone(): void {
+    const entry = this.undoStack.pop();
+    if (entry) this.redoStack.push(entry);
+  }
+
+  /**
+   * Moves the last undone edit back to the undo stack after it was redone.
+   */
+  markRedone(): void {
+    const entry = this.redoStack.pop();
+    if (entry) this.undoStack.push(entry);
+  }
+
+  /**
+   * Forgets every edit (e.g. when another file is loaded).
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Filter Service - Matches tasks against the filter bar's criteria
+ */
+import { moment } from "obsidian";
+import { DateFieldType, type ParsedDateField } from "../parsers/dateParser";
+import type { SavedTaskFilter, TaskFilter } from "../types/filterTypes";
+
+/** Tags in task text: #tag, #nested/tag (not numbers like #1) */
+const TAG_REGEX = /(?:^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+
+/**
+ * Task data needed for filtering
+ */
+export interface FilterableTask {
+  title: string;
+  markdown: string;
+  dateType: DateFieldType;
+  date: moment.Moment;
+  allDates: ParsedDateField[];
+  completed: boolean;
+  /** Checkbox character */
+  status: string;
+}
+
+/**
+ * Task filtering service
+ */
+export class FilterService {
+  /**
+   * Extracts the tags (without #, lowercased) from a task line.
+   */
+  static extractTags(text: string): string[] {
+    const tags = new Set<string>();
+    const regex = new RegExp(TAG_REGEX.source, TAG_REGEX.flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      tags.add(match[1].toLowerCase());
+    }
+    return Array.from(tags);
+  }
+
+  /**
+   * Checks if a task is unfinished and its due date (or the date it is
+   * shown by) is before today.
+   */
+  static isOverdue(task: FilterableTask, today = moment()): boolean {
+    if (task.completed) return false;
+    const due =
+      task.allDates.find((d) => d.type === DateFieldType.Due)?.date ??
+      task.date;
+    return due.isBefore(today, "day");
+  }
+
+  /**
+   * Checks if a task meets every criterion of the filter.
+   * A tag filter also matches nested tags (#work matches #work/client).
+   */
+  static matches(task: FilterableTask, filter: TaskFilter): boolean {
+    const query = filter.query.trim().toLowerCase();
+    if (query && !task.title.toLowerCase().includes(query)) return false;
+
+    if (filter.tags.length > 0) {
+      const tags = this.extractTags(task.markdown);
+      const hasTag = (tag: string) =>
+        tags.some((t) => t === tag || t.startsWith(`${tag}/`));
+      if (!filter.tags.every((tag) => hasTag(tag.toLowerCase()))) {
+        return false;
+      }
+    }
+
+    if (filter.statuses.length > 0 && !filter.statuses.includes(task.status)) {
+      return false;
+    }
+
+    if (
+      filter.dateTypes.length > 0 &&
+      !filter.dateTypes.includes(task.dateType)
+    ) {
+      return false;
+    }
+
+    return !filter.overdueOnly || this.isOverdue(task);
+  }
+
+  /**
+   * Parses a filter in its frontmatter form (see parseSavedFilters).
+   * Invalid criteria are ignored.
+   */
+  static parseFilter(raw: Record<string, unknown>): TaskFilter {
+    const dateTypes = Object.values(DateFieldType);
+    const toStrings = (list: unknown): string[] =>
+      (Array.isArray(list)
+        ? list
+        : typeof list === "string"
+          ? [list]
+          : []
+      ).filter((item): item is string => typeof item === "string");
+
+    return {
+      query: typeof raw.query === "string" ? raw.query : "",
+      tags: toStrings(raw.tags).map((tag) => tag.replace(/^#/, "")),
+      statuses: toStrings(raw.statuses).filter((s) => s.length === 1),
+      dateTypes: toStrings(raw["date-types"]).filter(
+        (type): type is DateFieldType =>
+          dateTypes.includes(type as DateFieldType),
+      ),
+      overdueOnly: raw.overdue === true,
+    };
+  }
+
+  /**
+   * Serializes a filter in its frontmatter form, leaving out unset criteria.
+   */
+  static serializeFilter(filter: TaskFilter): Record<string, unknown> {
+    const entry: Record<string, unknown> = {};
+    if (filter.query.trim()) entry.query = filter.query.trim();
+    if (filter.tags.length > 0) entry.tags = filter.tags;
+    if (filter.statuses.length > 0) entry.statuses = filter.statuses;
+    if (filter.dateTypes.length > 0) entry["date-types"] = filter.dateTypes;
+    if (filter.overdueOnly) entry.overdue = true;
+    return entry;
+  }
+
+  /**
+   * Parses saved filters from the calendar frontmatter:
+   *
+   *   filters:
+   *     - name: Overdue work
+   *       query: review
+   *       tags: [work]
+   *       statuses: [" ", "/"]
+   *       date-types: [due]
+   *       overdue: true
+   *
+   * Entries without a name are skipped.
+   */
+  static parseSavedFilters(value: unknown): SavedTaskFilter[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+
+    const filters: SavedTaskFilter[] = [];
+    for (const entry of value) {
+      if (!entry || typeof entry !== "object") continue;
+      const raw = entry as Record<string, unknown>;
+      if (typeof raw.name !== "string" || !raw.name.trim()) continue;
+
+      filters.push({ name: raw.name.trim(), filter: this.parseFilter(raw) });
+    }
+
+    return filters.length > 0 ? filters : undefined;
+  }
+
+  /**
+   * Serializes saved filters for the frontmatter.
+   */
+  static serializeSavedFilters(
+    filters: SavedTaskFilter[],
+  ): Record<string, unknown>[] {
+    return filters.map(({ name, filter }) => ({
+      name,
+      ...this.serializeFilter(filter),
+    }));
+  }
+}
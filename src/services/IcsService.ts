@@ -0,0 +1,517 @@
+/**
+ * iCalendar Service - Converts calendar tasks to and from RFC 5545 (.ics)
+ *
+ * Export: each task becomes a VEVENT:
+ * - All-day tasks use DTSTART/DTEND with VALUE=DATE (DTEND is exclusive)
+ * - Timed tasks use floating local DTSTART/DTEND (no time zone)
+ * - Completion is carried in X-CALENDAR-MD-COMPLETED (COMPLETED is not a
+ *   valid VEVENT status), sections map to CATEGORIES, colors to COLOR
+ * - UIDs derive from the stable task ID, so re-exports update existing events.
+ *   Tasks without a ^block-id anchor are identified by a hash of their text,
+ *   so renaming one exports a new event and drops the old one
+ * - LAST-MODIFIED is the modification time of the task's file, as tasks
+ *   carry no edit time of their own
+ *
+ * Import: VEVENTs are read back into dates, times and Tasks plugin
+ * recurrence rules. UTC times are converted to local time; times with a
+ * TZID are taken as local time (no time zone database is available).
+ * Modified instances of recurring events (RECURRENCE-ID) and cancelled
+ * events are skipped.
+ */
+import { moment } from "obsidian";
+import { getNamedColors, parseColor } from "../parsers/colorParser";
+import { hashString } from "../parsers/taskIdentity";
+
+/** Product identifier written to exported calendars */
+const PRODUCT_ID = "-//Calendar MD//Obsidian Plugin//EN";
+
+/** Extension property marking completed tasks */
+const COMPLETED_PROPERTY = "X-CALENDAR-MD-COMPLETED";
+
+/** Maximum line length in octets before folding (RFC 5545 §3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * A task prepared for export
+ */
+export interface IcsExportEvent {
+  /** Stable task ID */
+  id: string;
+  /** Event title */
+  title: string;
+  /** Start: "YYYY-MM-DD" (all-day) or "YYYY-MM-DD HH:mm" */
+  start: string;
+  /** End: "YYYY-MM-DD" (inclusive, all-day) or "YYYY-MM-DD HH:mm" */
+  end: string;
+  /** Whether the task is completed */
+  completed: boolean;
+  /** Section name, exported as a category */
+  category?: string;
+  /** Resolved color (hex or hsl) */
+  color?: string;
+  /** Free-text description (e.g. the source note) */
+  description?: string;
+  /** Modification time of the task's file (ms since epoch) */
+  modified?: number;
+}
+
+/**
+ * An event read from an .ics file
+ */
+export interface IcsImportEvent {
+  /** Event UID, if present */
+  uid?: string;
+  /** Event title */
+  title: string;
+  /** Start date (YYYY-MM-DD) */
+  startDate: string;
+  /** Inclusive end date (YYYY-MM-DD), only for events spanning several days */
+  endDate?: string;
+  /** Start time (HH:mm), for timed events */
+  startTime?: string;
+  /** End time (HH:mm), for timed events with a duration */
+  endTime?: string;
+  /** Recurrence rule in Tasks plugin syntax (e.g. "every week on Monday") */
+  recurrence?: string;
+  /** Whether the RRULE could not be expressed as a Tasks plugin rule */
+  unsupportedRecurrence: boolean;
+  /** Whether the event is marked completed */
+  completed: boolean;
+}
+
+/**
+ * A parsed content line: NAME;PARAM=VALUE:value
+ */
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** RRULE frequencies mapped to Tasks plugin units */
+const RRULE_UNITS: Record<string, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+/** RRULE weekday codes mapped to weekday names */
+const RRULE_WEEKDAYS: Record<string, string> = {
+  SU: "Sunday",
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+};
+
+/**
+ * iCalendar serialization service
+ */
+export class IcsService {
+  /**
+   * Serializes events to an iCalendar document.
+   *
+   * @param events - Events to export
+   * @param calendarName - Calendar display name (X-WR-CALNAME)
+   * @param uidNamespace - Stable namespace for UIDs (e.g. the calendar path)
+   * @returns The .ics content with CRLF line endings
+   */
+  static exportEvents(
+    events: IcsExportEvent[],
+    calendarName: string,
+    uidNamespace: string,
+  ): string {
+    const stamp = moment.utc().format("YYYYMMDD[T]HHmmss[Z]");
+    const namespace = hashString(uidNamespace);
+
+    const lines: string[] = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${this.escapeText(calendarName)}`,
+    ];
+
+    for (const event of events) {
+      lines.push(...this.serializeEvent(event, namespace, stamp));
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map((line) => this.foldLine(line)).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Parses the VEVENTs of an iCalendar document.
+   *
+   * @param content - The .ics content
+   * @returns Parsed events in file order (events without a start are skipped)
+   */
+  static parseEvents(content: string): IcsImportEvent[] {
+    // Unfold continuation lines (RFC 5545 §3.1)
+    const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+    const events: IcsImportEvent[] = [];
+
+    let properties: IcsProperty[] | null = null;
+    // Depth of components nested in the current VEVENT (e.g. VALARM)
+    let nestedDepth = 0;
+
+    for (const line of lines) {
+      const property = this.parseProperty(line);
+      if (!property) continue;
+
+      if (property.name === "BEGIN") {
+        if (property.value.toUpperCase() === "VEVENT") {
+          properties = [];
+          nestedDepth = 0;
+        } else if (properties) {
+          nestedDepth++;
+        }
+      } else if (property.name === "END") {
+        if (property.value.toUpperCase() === "VEVENT" && properties) {
+          const event = this.toImportEvent(properties);
+          if (event) events.push(event);
+          properties = null;
+        } else if (properties) {
+          nestedDepth--;
+        }
+      } else if (properties && nestedDepth === 0) {
+        properties.push(property);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Parses a content line into its name, parameters and value.
+   */
+  private static parseProperty(line: string): IcsProperty | null {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      else if (line[i] === ":" && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon <= 0) return null;
+
+    const [name, ...paramParts] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const eq = part.indexOf("=");
+      if (eq === -1) continue;
+      params[part.slice(0, eq).toUpperCase()] = part
+        .slice(eq + 1)
+        .replace(/^"|"$/g, "");
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+  }
+
+  /**
+   * Converts the properties of one VEVENT into an import event.
+   */
+  private static toImportEvent(
+    properties: IcsProperty[],
+  ): IcsImportEvent | null {
+    const get = (name: string) => properties.find((p) => p.name === name);
+
+    const status = get("STATUS")?.value.toUpperCase();
+    if (get("RECURRENCE-ID") || status === "CANCELLED") return null;
+
+    const dtstart = get("DTSTART");
+    const start = dtstart ? this.parseDateValue(dtstart) : null;
+    if (!dtstart || !start) return null;
+
+    const allDay = start.allDay;
+    const dtend = get("DTEND");
+    let end = dtend ? this.parseDateValue(dtend)?.date : undefined;
+    if (!end) {
+      const duration = get("DURATION");
+      end = duration
+        ? this.addDuration(start.date, duration.value)
+        : start.date.clone().add(allDay ? 1 : 0, "day");
+    }
+    // All-day DTEND is exclusive
+    if (allDay) end = end.clone().subtract(1, "day");
+    if (end.isBefore(start.date)) end = start.date.clone();
+
+    const event: IcsImportEvent = {
+      uid: get("UID")?.value.trim() || undefined,
+      title: this.unescapeText(get("SUMMARY")?.value ?? "").trim() || "Event",
+      startDate: start.date.format("YYYY-MM-DD"),
+      // STATUS:COMPLETED is still read for files exported by older versions
+      completed:
+        get(COMPLETED_PROPERTY)?.value.toUpperCase() === "TRUE" ||
+        status === "COMPLETED",
+      unsupportedRecurrence: false,
+    };
+
+    if (!end.isSame(start.date, "day")) {
+      event.endDate = end.format("YYYY-MM-DD");
+    }
+    if (!allDay) {
+      event.startTime = start.date.format("HH:mm");
+      if (end.isAfter(start.date)) event.endTime = end.format("HH:mm");
+    }
+
+    const rrule = get("RRULE");
+    if (rrule) {
+      const recurrence = this.toRecurrenceText(rrule.value);
+      if (recurrence) event.recurrence = recurrence;
+      else event.unsupportedRecurrence = true;
+    }
+
+    return event;
+  }
+
+  /**
+   * Parses a DATE or DATE-TIME value. UTC times are converted to local time;
+   * floating times and times with a TZID are taken as local time.
+   */
+  private static parseDateValue(
+    property: IcsProperty,
+  ): { date: moment.Moment; allDay: boolean } | null {
+    const value = property.value.trim();
+
+    if (property.params.VALUE === "DATE" || /^\d{8}$/.test(value)) {
+      const date = moment(value.slice(0, 8), "YYYYMMDD", true);
+      return date.isValid() ? { date, allDay: true } : null;
+    }
+
+    const match = value.match(/^(\d{8}T\d{4,6})(Z?)$/);
+    if (!match) return null;
+    const format =
+      match[1].length === 13 ? "YYYYMMDD[T]HHmm" : "YYYYMMDD[T]HHmmss";
+    const date = match[2]
+      ? moment.utc(match[1], format, true).local()
+      : moment(match[1], format, true);
+    return date.isValid() ? { date, allDay: false } : null;
+  }
+
+  /**
+   * Adds an ISO 8601 duration (e.g. "P1D", "PT1H30M") to a date.
+   */
+  private static addDuration(
+    date: moment.Moment,
+    value: string,
+  ): moment.Moment {
+    const match = value
+      .trim()
+      .match(
+        /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+      );
+    if (!match || match[1] === "-") return date.clone();
+
+    const [, , weeks, days, hours, minutes, seconds] = match;
+    return date
+      .clone()
+      .add(parseInt(weeks ?? "0", 10), "weeks")
+      .add(parseInt(days ?? "0", 10), "days")
+      .add(parseInt(hours ?? "0", 10), "hours")
+      .add(parseInt(minutes ?? "0", 10), "minutes")
+      .add(parseInt(seconds ?? "0", 10), "seconds");
+  }
+
+  /**
+   * Converts an RRULE to a Tasks plugin rule ("every 2 weeks on Monday").
+   * COUNT and UNTIL are dropped, as Tasks plugin rules have no end.
+   *
+   * @returns The rule text, or null if the RRULE cannot be expressed
+   */
+  private static toRecurrenceText(value: string): string | null {
+    const parts: Record<string, string> = {};
+    for (const part of value.split(";")) {
+      const [key, val] = part.split("=");
+      if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+    }
+
+    const unit = RRULE_UNITS[parts.FREQ];
+    if (!unit) return null;
+
+    // Rules narrowing the occurrences beyond these have no Tasks equivalent
+    const supported = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "WKST", "BYDAY"];
+    if (unit === "month") supported.push("BYMONTHDAY");
+    if (Object.keys(parts).some((key) => !supported.includes(key))) {
+      return null;
+    }
+
+    const interval = Math.max(1, parseInt(parts.INTERVAL ?? "1", 10) || 1);
+    const every =
+      interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+
+    if (parts.BYDAY) {
+      const days = parts.BYDAY.split(",");
+      if (days.some((day) => !RRULE_WEEKDAYS[day])) return null;
+
+      if (unit === "day" && interval === 1) {
+        if (days.sort().join(",") === "FR,MO,TH,TU,WE") return "every weekday";
+        return null;
+      }
+      if (unit !== "week") return null;
+
+      const names = Object.keys(RRULE_WEEKDAYS)
+        .filter((code) => days.includes(code))
+        .map((code) => RRULE_WEEKDAYS[code]);
+      return `${every} on ${names.join(", ")}`;
+    }
+
+    if (parts.BYMONTHDAY) {
+      const day = parseInt(parts.BYMONTHDAY, 10);
+      if (day === -1) return `${every} on the last`;
+      if (!(day >= 1 && day <= 31) || String(day) !== parts.BYMONTHDAY) {
+        return null;
+      }
+      return `${every} on the ${this.ordinal(day)}`;
+    }
+
+    return every;
+  }
+
+  /**
+   * Formats a day of month as an ordinal ("1st", "22nd", "15th").
+   */
+  private static ordinal(day: number): string {
+    if (day >= 11 && day <= 13) return `${day}th`;
+    const suffix = ["th", "st", "nd", "rd"][day % 10] ?? "th";
+    return `${day}${suffix}`;
+  }
+
+  /**
+   * Unescapes TEXT property values (RFC 5545 §3.3.11).
+   * Newlines become spaces, as task titles are single lines.
+   */
+  private static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+      char === "n" || char === "N" ? " " : char,
+    );
+  }
+
+  /**
+   * Serializes a single event to VEVENT lines.
+   */
+  private static serializeEvent(
+    event: IcsExportEvent,
+    namespace: string,
+    stamp: string,
+  ): string[] {
+    const uid = `${event.id.replace(/[^A-Za-z0-9-]/g, "-")}-${namespace}@calendar-md`;
+    const lines = ["BEGIN:VEVENT", `UID:${uid}`, `DTSTAMP:${stamp}`];
+
+    const isAllDay = !event.start.includes(":");
+    if (isAllDay) {
+      const start = moment(event.start, "YYYY-MM-DD");
+      const end = moment(event.end || event.start, "YYYY-MM-DD");
+      // DTEND is exclusive for all-day events
+      lines.push(`DTSTART;VALUE=DATE:${start.format("YYYYMMDD")}`);
+      lines.push(
+        `DTEND;VALUE=DATE:${end.clone().add(1, "day").format("YYYYMMDD")}`,
+      );
+    } else {
+      const format = "YYYY-MM-DD HH:mm";
+      const start = moment(event.start, format);
+      const end = moment(event.end || event.start, format);
+      lines.push(`DTSTART:${start.format("YYYYMMDD[T]HHmmss")}`);
+      lines.push(`DTEND:${end.format("YYYYMMDD[T]HHmmss")}`);
+    }
+
+    if (event.modified !== undefined) {
+      const modified = moment.utc(event.modified);
+      lines.push(`LAST-MODIFIED:${modified.format("YYYYMMDD[T]HHmmss[Z]")}`);
+    }
+
+    lines.push(`SUMMARY:${this.escapeText(event.title)}`);
+    lines.push("STATUS:CONFIRMED");
+    if (event.completed) {
+      lines.push(`${COMPLETED_PROPERTY}:TRUE`);
+    }
+
+    if (event.category) {
+      lines.push(`CATEGORIES:${this.escapeText(event.category)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+    }
+
+    const colorName = event.color ? this.toCssColorName(event.color) : null;
+    if (colorName) {
+      lines.push(`COLOR:${colorName}`);
+    }
+
+    lines.push("END:VEVENT");
+    return lines;
+  }
+
+  /**
+   * Escapes TEXT property values (RFC 5545 §3.3.11).
+   */
+  private static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, "\\\\")
+      .replace(/;/g, "\\;")
+      .replace(/,/g, "\\,")
+      .replace(/\r?\n/g, "\\n");
+  }
+
+  /**
+   * Folds a content line longer than 75 octets (RFC 5545 §3.1).
+   * Continuation lines start with a single space; multi-byte characters
+   * are never split.
+   */
+  private static foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    let currentOctets = 0;
+
+    for (const char of line) {
+      const octets = encoder.encode(char).length;
+      // Continuation lines lose one octet to the leading space
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (currentOctets + octets > limit) {
+        parts.push(current);
+        current = "";
+        currentOctets = 0;
+      }
+      current += char;
+      currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+  }
+
+  /**
+   * Maps a color to the nearest CSS named color (RFC 7986 requires a name).
+   * Returns null for colors that cannot be parsed or are transparent.
+   */
+  private static toCssColorName(color: string): string | null {
+    const rgb = parseColor(color);
+    if (!rgb || rgb.a === 0) return null;
+
+    let bestName: string | null = null;
+    let bestDistance = Infinity;
+    for (const [name, hex] of getNamedColors()) {
+      const named = parseColor(`#${hex}`);
+      if (!named) continue;
+      const distance =
+        (rgb.r - named.r) ** 2 +
+        (rgb.g - named.g) ** 2 +
+        (rgb.b - named.b) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestName = name;
+      }
+    }
+    return bestName;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Source Service - Resolves the notes a calendar aggregates tasks from
+ *
+ * Sources are listed in the calendar file's frontmatter:
+ *
+ *   calendar-plugin:
+ *     sources:
+ *       - folder: Projects
+ *       - tag: "#work"
+ *       - glob: "Journal/2025-*.md"
+ *       - file: "[[Inbox]]"
+ *
+ * Plain strings are accepted as shorthand: "#tag", "[[Note]]", "Note.md",
+ * "Folder/" (or any other path), and patterns containing * or ? are globs.
+ * Globs support "*", "?" and "**" (any number of folders).
+ */
+import { App, TFile, getAllTags, normalizePath } from "obsidian";
+import type { CalendarSource, CalendarSourceType } from "../types/sourceTypes";
+
+/** Source types accepted as object keys, in lookup order */
+const SOURCE_TYPES: CalendarSourceType[] = ["folder", "tag", "glob", "file"];
+
+/**
+ * Unwraps a YAML value into a string.
+ * Unquoted wikilinks (`[[Note]]`) are parsed by YAML as nested arrays.
+ */
+function toSourceString(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (
+    Array.isArray(value) &&
+    value.length === 1 &&
+    Array.isArray(value[0]) &&
+    value[0].length === 1 &&
+    typeof value[0][0] === "string"
+  ) {
+    return `[[${value[0][0]}]]`;
+  }
+  return null;
+}
+
+/**
+ * Converts a glob pattern to an anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = normalizePath(glob).replace(/^\//, "");
+  let pattern = "";
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "*") {
+      if (source[i + 1] === "*") {
+        // "**/" matches zero or more folders, a trailing "**" matches anything
+        if (source[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i++;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Source resolution service
+ */
+export class SourceService {
+  /**
+   * Parses the sources list from the calendar frontmatter value.
+   *
+   * @param config - Value of the `calendar-plugin` frontmatter key
+   * @returns Parsed sources (invalid entries are skipped)
+   */
+  static parseSources(config: unknown): CalendarSource[] {
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return [];
+    }
+
+    const raw = (config as { sources?: unknown }).sources;
+    const entries = Array.isArray(raw) ? raw : raw ? [raw] : [];
+    const sources: CalendarSource[] = [];
+
+    for (const entry of entries) {
+      const source = this.parseSourceEntry(entry);
+      if (source) sources.push(source);
+    }
+
+    return sources;
+  }
+
+  /**
+   * Parses a single source entry (object form or string shorthand).
+   */
+  private static parseSourceEntry(entry: unknown): CalendarSource | null {
+    const shorthand = toSourceString(entry);
+    if (shorthand) {
+      if (shorthand.startsWith("#")) {
+        return { type: "tag", value: shorthand.slice(1) };
+      }
+      if (/^\[\[.+\]\]$/.test(shorthand)) {
+        return { type: "file", value: shorthand };
+      }
+      if (/[*?]/.test(shorthand)) {
+        return { type: "glob", value: shorthand };
+      }
+      if (/\.md$/i.test(shorthand)) {
+        return { type: "file", value: shorthand };
+      }
+      return { type: "folder", value: shorthand };
+    }
+
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return null;
+    }
+
+    for (const type of SOURCE_TYPES) {
+      const value = toSourceString((entry as Record<string, unknown>)[type]);
+      if (value) {
+        return {
+          type,
+          value: type === "tag" ? value.replace(/^#/, "") : value,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolves all markdown files matched by the sources.
+   * The calendar file itself is never included.
+   *
+   * @param app - Obsidian app
+   * @param sources - Parsed sources
+   * @param calendarPath - Path of the calendar file
+   * @returns Matching files, sorted by path
+   */
+  static resolveFiles(
+    app: App,
+    sources: CalendarSource[],
+    calendarPath: string,
+  ): TFile[] {
+    if (sources.length === 0) return [];
+
+    return app.vault
+      .getMarkdownFiles()
+      .filter((file) => this.matchesAny(app, sources, file, calendarPath))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Checks if a file is matched by any of the sources.
+   */
+  static matchesAny(
+    app: App,
+    sources: CalendarSource[],
+    file: TFile,
+    calendarPath: string,
+  ): boolean {
+    if (file.path === calendarPath || file.extension !== "md") return false;
+    return sources.some((source) =>
+      this.matches(app, source, file, calendarPath),
+    );
+  }
+
+  /**
+   * Checks if a file is matched by a single source.
+   */
+  private static matches(
+    app: App,
+    source: CalendarSource,
+    file: TFile,
+    calendarPath: string,
+  ): boolean {
+    switch (source.type) {
+      case "folder": {
+        const folder = normalizePath(source.value).replace(/^\/|\/$/g, "");
+        return folder === "" || file.path.startsWith(`${folder}/`);
+      }
+
+      case "tag": {
+        const tag = source.value.toLowerCase();
+        const cache = app.metadataCache.getFileCache(file);
+        const tags = cache ? (getAllTags(cache) ?? []) : [];
+        return tags.some((t) => {
+          const name = t.replace(/^#/, "").toLowerCase();
+          return name === tag || name.startsWith(`${tag}/`);
+        });
+      }
+
+      case "glob":
+        return globToRegExp(source.value).test(file.path);
+
+      case "file":
+        return this.resolveFile(app, source.value, calendarPath) === file;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Resolves a file source given as a wikilink or a vault path.
+   */
+  private static resolveFile(
+    app: App,
+    value: string,
+    calendarPath: string,
+  ): TFile | null {
+    const linkMatch = value.match(/^\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]$/);
+    const linkpath = linkMatch ? linkMatch[1].trim() : value;
+
+    const linked = app.metadataCache.getFirstLinkpathDest(
+      linkpath,
+      calendarPath,
+    );
+    if (linked) return linked;
+
+    const file = app.vault.getAbstractFileByPath(normalizePath(linkpath));
+    return file instanceof TFile ? file : null;
+  }
+}
@@ -26,6 +26,26 @@ export enum ColorConditionType {
   SectionIs = "section_is",
   /** Task has a due date */
   HasDue = "has_due",
+  /** Task has a specific checkbox status */
+  StatusIs = "status_is",
+  /** Task is due between today and N days from today */
+  DueWithinDays = "due_within_days",
+  /** Task is due today */
+  DueToday = "due_today",
+  /** Task's date falls on a Saturday or Sunday */
+  IsWeekend = "is_weekend",
+  /** Task is shown by a specific date type (e.g. scheduled) */
+  DateTypeIs = "date_type_is",
+  /** Task title matches a regular expression */
+  TitleMatches = "title_matches",
+  /** Task has a specific Tasks plugin priority */
+  HasPriority = "has_priority",
+  /** Task spans several days (start and due on different days) */
+  IsMultiDay = "is_multi_day",
+  /** Task has a time of day */
+  HasTime = "has_time",
+  /** Task's note path matches a glob pattern */
+  PathMatches = "path_matches",
   /** Always match (for fallback rules) */
   Always = "always",
 }
@@ -47,6 +67,26 @@ export function getConditionTypeLabel(type: ColorConditionType): string {
       return "In Section";
     case ColorConditionType.HasDue:
       return "Has Due Date";
+    case ColorConditionType.StatusIs:
+      return "Status Is";
+    case ColorConditionType.DueWithinDays:
+      return "Due Within Days";
+    case ColorConditionType.DueToday:
+      return "Due Today";
+    case ColorConditionType.IsWeekend:
+      return "On a Weekend";
+    case ColorConditionType.DateTypeIs:
+      return "Shown by Date";
+    case ColorConditionType.TitleMatches:
+      return "Title Matches Regex";
+    case ColorConditionType.HasPriority:
+      return "Has Priority";
+    case ColorConditionType.IsMultiDay:
+      return "Is Multi-day";
+    case ColorConditionType.HasTime:
+      return "Has Time";
+    case ColorConditionType.PathMatches:
+      return "Note Path Matches";
     case ColorConditionType.Always:
       return "Always";
     default:
@@ -62,9 +102,100 @@ export function conditionRequiresValue(type: ColorConditionType): boolean {
     ColorConditionType.HasTag,
     ColorConditionType.TitleContains,
     ColorConditionType.SectionIs,
+    ColorConditionType.StatusIs,
+    ColorConditionType.DueWithinDays,
+    ColorConditionType.DateTypeIs,
+    ColorConditionType.TitleMatches,
+    ColorConditionType.HasPriority,
+    ColorConditionType.PathMatches,
   ].includes(type);
 }
 
+/**
+ * Get the initial value of a condition type whose value is picked from a
+ * list or is a number, so a new condition works without editing it
+ */
+export function getDefaultConditionValue(
+  type: ColorConditionType,
+): string | undefined {
+  switch (type) {
+    case ColorConditionType.DueWithinDays:
+      return "7";
+    case ColorConditionType.DateTypeIs:
+      return "scheduled";
+    case ColorConditionType.HasPriority:
+      return "high";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * A single condition of a color rule
+ */
+export interface ColorCondition {
+  /** Type of condition to check */
+  type: ColorConditionType;
+  /** Value for conditions that require parameters (e.g., tag name) */
+  value?: string;
+  /** Match when the condition is not met */
+  negate?: boolean;
+}
+
+/**
+ * How the conditions of a group are combined
+ */
+export type ColorConditionOperator = "and" | "or";
+
+/**
+ * Conditions combined with AND or OR. Groups can be nested.
+ */
+export interface ColorConditionGroup {
+  operator: ColorConditionOperator;
+  /** Match when the group as a whole is not met (none of / not all of) */
+  negate?: boolean;
+  conditions: ColorConditionNode[];
+}
+
+/**
+ * A condition or a nested group of conditions
+ */
+export type ColorConditionNode = ColorCondition | ColorConditionGroup;
+
+/**
+ * Check if a condition node is a group
+ */
+export function isConditionGroup(
+  node: ColorConditionNode,
+): node is ColorConditionGroup {
+  return "conditions" in node;
+}
+
+/**
+ * Border styles a rule can give events
+ */
+export type RuleBorderStyle = "solid" | "dashed" | "dotted";
+
+/**
+ * Styling a rule applies to matching events besides the background color
+ */
+export interface ColorRuleStyle {
+  /** Event text color */
+  textColor?: ColorTheme;
+  /** Event border style */
+  borderStyle?: RuleBorderStyle;
+  /** Color of a stripe along the event's left edge */
+  stripeColor?: ColorTheme;
+  /** Event opacity, from 0.2 to 1 */
+  opacity?: number;
+  /** Strike through the event title */
+  strikethrough?: boolean;
+  /** Show the event title in bold */
+  bold?: boolean;
+  /** Lucide icon shown before the event title */
+  icon?: string;
+}
+
 /**
  * Color rule for conditional styling
  */
@@ -75,16 +206,37 @@ export interface ColorRule {
   enabled: boolean;
   /** User-defined rule name */
   name: string;
-  /** Type of condition to check */
-  conditionType: ColorConditionType;
-  /** Value for conditions that require parameters (e.g., tag name) */
-  conditionValue?: string;
-  /** Colors to apply when condition matches */
-  color: ColorTheme;
+  /** Conditions the task must meet */
+  condition: ColorConditionGroup;
+  /** Background colors to apply when condition matches (unset keeps the color) */
+  color?: ColorTheme;
+  /** Other styling to apply when condition matches */
+  style?: ColorRuleStyle;
   /** Optional: limit rule to specific file paths */
   applyToFiles?: string[];
 }
 
+/**
+ * Converts a saved rule to the current format. Older versions stored a
+ * single condition (conditionType/conditionValue), which becomes the only
+ * condition of an AND group.
+ */
+export function migrateColorRule(
+  rule: ColorRule & {
+    conditionType?: ColorConditionType;
+    conditionValue?: string;
+  },
+): ColorRule {
+  const { conditionType, conditionValue, ...rest } = rule;
+  if (rest.condition) return rest;
+
+  const condition: ColorCondition = {
+    type: conditionType ?? ColorConditionType.Always,
+  };
+  if (conditionValue) condition.value = conditionValue;
+  return { ...rest, condition: { operator: "and", conditions: [condition] } };
+}
+
 /**
  * Configuration for a calendar source (file-level settings)
  */
@@ -0,0 +1,34 @@
+/**
+ * Per-calendar configuration types (overrides stored in frontmatter)
+ */
+import type { DateFieldType, DateFormatType } from "../parsers/dateParser";
+import type { ColorTheme } from "./colorTypes";
+import type { SavedTaskFilter } from "./filterTypes";
+
+/** Frontmatter key for calendar files */
+export const FRONTMATTER_KEY = "calendar-plugin";
+
+/**
+ * Settings a calendar file can override in its `calendar-plugin` block.
+ * Unset fields fall back to the global plugin settings.
+ */
+export interface CalendarFileConfig {
+  /** View shown when the calendar is opened */
+  defaultView?: string;
+  /** Week start day: 0 = Sunday, 1 = Monday */
+  weekStart?: number;
+  /** Date formats to recognize */
+  recognizedDateFormats?: DateFormatType[];
+  /** Date format used when writing new tasks */
+  writeDateFormat?: DateFormatType;
+  /** Priority order for date field types */
+  datePriority?: DateFieldType[];
+  /** Heading completed tasks are moved to */
+  completedSectionName?: string;
+  /** Base color for all events of the calendar */
+  color?: ColorTheme;
+  /** Per-section colors (keyed by section ID) */
+  sectionColors?: Record<string, ColorTheme>;
+  /** Named filters saved from the filter bar (not a settings override) */
+  filters?: SavedTaskFilter[];
+}
@@ -0,0 +1,57 @@
+/**
+ * Task filter types for the calendar's filter bar
+ */
+import type { DateFieldType } from "../parsers/dateParser";
+
+/**
+ * Criteria a task must meet to be shown. Empty lists don't filter;
+ * a task must match every criterion that is set.
+ */
+export interface TaskFilter {
+  /** Text the task title must contain (case-insensitive) */
+  query: string;
+  /** Tags (without #) the task must have, all of them */
+  tags: string[];
+  /** Checkbox characters, one of which the task must have */
+  statuses: string[];
+  /** Date types, one of which the task must be shown by */
+  dateTypes: DateFieldType[];
+  /** Only show unfinished tasks dated before today */
+  overdueOnly: boolean;
+}
+
+/**
+ * A named filter saved in a calendar's frontmatter
+ */
+export interface SavedTaskFilter {
+  /** Display name, also used by the "Apply saved filter" command */
+  name: string;
+  /** The saved criteria */
+  filter: TaskFilter;
+}
+
+/**
+ * Creates a filter that shows every task.
+ */
+export function createEmptyFilter(): TaskFilter {
+  return {
+    query: "",
+    tags: [],
+    statuses: [],
+    dateTypes: [],
+    overdueOnly: false,
+  };
+}
+
+/**
+ * Check if a filter hides any tasks
+ */
+export function isFilterActive(filter: TaskFilter): boolean {
+  return (
+    filter.query.trim() !== "" ||
+    filter.tags.length > 0 ||
+    filter.statuses.length > 0 ||
+    filter.dateTypes.length > 0 ||
+    filter.overdueOnly
+  );
+}
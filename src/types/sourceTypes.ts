@@ -0,0 +1,18 @@
+/**
+ * Source type definitions for aggregating tasks from other notes
+ */
+
+/**
+ * Kind of task source listed in a calendar's frontmatter
+ */
+export type CalendarSourceType = "folder" | "tag" | "glob" | "file";
+
+/**
+ * A task source listed under `calendar-plugin: { sources: [...] }`
+ */
+export interface CalendarSource {
+  /** Kind of source */
+  type: CalendarSourceType;
+  /** Folder path, tag (without #), glob pattern or file link/path */
+  value: string;
+}
@@ -0,0 +1,122 @@
+/**
+ * Task status types for custom checkbox characters ([/], [-], [>] ...)
+ */
+import type { ColorTheme } from "./colorTypes";
+
+/**
+ * What a status means for the task
+ */
+export enum TaskStatusType {
+  /** Not started */
+  Todo = "todo",
+  /** Started but not finished */
+  InProgress = "in_progress",
+  /** Finished (gets a ✅ completion date) */
+  Done = "done",
+  /** Dropped (gets a ❌ cancelled date) */
+  Cancelled = "cancelled",
+}
+
+/**
+ * Get human-readable label for status type
+ */
+export function getStatusTypeLabel(type: TaskStatusType): string {
+  switch (type) {
+    case TaskStatusType.Todo:
+      return "To do";
+    case TaskStatusType.InProgress:
+      return "In progress";
+    case TaskStatusType.Done:
+      return "Done";
+    case TaskStatusType.Cancelled:
+      return "Cancelled";
+    default:
+      return type;
+  }
+}
+
+/**
+ * Check if tasks with this status type count as completed
+ * (hidden with completed tasks, not overdue)
+ */
+export function isDoneStatusType(type: TaskStatusType): boolean {
+  return type === TaskStatusType.Done || type === TaskStatusType.Cancelled;
+}
+
+/**
+ * A checkbox status, keyed by the character between the brackets
+ */
+export interface TaskStatus {
+  /** Checkbox character, e.g. "/" for "- [/]" */
+  symbol: string;
+  /** User-defined status name */
+  name: string;
+  /** What the status means for the task */
+  type: TaskStatusType;
+  /** Status a checkbox click switches to */
+  nextSymbol: string;
+  /** Lucide icon shown instead of the checkbox (optional) */
+  icon?: string;
+  /** Color of the checkbox or icon (optional) */
+  color?: ColorTheme;
+}
+
+/**
+ * Default statuses, following the Tasks plugin's core and custom statuses
+ */
+export const DEFAULT_TASK_STATUSES: TaskStatus[] = [
+  {
+    symbol: " ",
+    name: "To do",
+    type: TaskStatusType.Todo,
+    nextSymbol: "x",
+  },
+  {
+    symbol: "x",
+    name: "Done",
+    type: TaskStatusType.Done,
+    nextSymbol: " ",
+  },
+  {
+    symbol: "/",
+    name: "In progress",
+    type: TaskStatusType.InProgress,
+    nextSymbol: "x",
+    icon: "loader",
+    color: { light: "#d97706", dark: "#fbbf24" },
+  },
+  {
+    symbol: "-",
+    name: "Cancelled",
+    type: TaskStatusType.Cancelled,
+    nextSymbol: " ",
+    icon: "x",
+  },
+  {
+    symbol: ">",
+    name: "Deferred",
+    type: TaskStatusType.Todo,
+    nextSymbol: " ",
+    icon: "forward",
+  },
+];
+
+/**
+ * Finds the status for a checkbox character.
+ * Unknown characters behave like before statuses were configurable:
+ * a space is to do, anything else is done.
+ *
+ * @param statuses - Configured statuses
+ * @param symbol - Checkbox character
+ */
+export function findTaskStatus(
+  statuses: TaskStatus[],
+  symbol: string,
+): TaskStatus {
+  const status = statuses.find((s) => s.symbol === symbol);
+  if (status) return status;
+
+  return symbol === " "
+    ? { symbol, name: "To do", type: TaskStatusType.Todo, nextSymbol: "x" }
+    : { symbol, name: "Done", type: TaskStatusType.Done, nextSymbol: " " };
+}